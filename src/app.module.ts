@@ -1,10 +1,23 @@
 import { Module } from '@nestjs/common';
 import { AppConfigModule } from './config/config.module';
+import { CommonModule } from './common/common.module';
+import { AuditModule } from './audit/audit.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { AuthModule } from './auth/auth.module';
 import { KafkaModule } from './kafka/kafka.module';
 import { AutopilotModule } from './autopilot/autopilot.module';
 import { HealthModule } from './health/health.module';
 
 @Module({
-  imports: [AppConfigModule, KafkaModule, AutopilotModule, HealthModule],
+  imports: [
+    AppConfigModule,
+    CommonModule,
+    AuthModule,
+    KafkaModule,
+    AutopilotModule,
+    AuditModule,
+    WebhooksModule,
+    HealthModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditController } from './controllers/audit.controller';
+import { AuditService } from './services/audit.service';
+import { AUDIT_REPOSITORY } from './repositories/audit.repository';
+import { InMemoryAuditRepository } from './repositories/in-memory-audit.repository';
+import { FileAuditRepository } from './repositories/file-audit.repository';
+import { CONFIG } from '../common/constants/config.constants';
+
+@Module({
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    {
+      provide: AUDIT_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const maxEntries = configService.get<number>(
+          'autopilot.audit.maxEntries',
+          CONFIG.AUTOPILOT.AUDIT_MAX_ENTRIES,
+        );
+        return configService.get<string>('autopilot.scheduler.store') ===
+          'memory'
+          ? new InMemoryAuditRepository(maxEntries)
+          : new FileAuditRepository(
+              configService.get<string>(
+                'autopilot.audit.filePath',
+                'data/audit-log.jsonl',
+              ),
+              configService.get<number>(
+                'autopilot.audit.maxFileSize',
+                CONFIG.AUTOPILOT.AUDIT_MAX_FILE_SIZE,
+              ),
+              configService.get<number>(
+                'autopilot.audit.maxFiles',
+                CONFIG.AUTOPILOT.AUDIT_MAX_FILES,
+              ),
+              maxEntries,
+            );
+      },
+    },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AuditService } from '../services/audit.service';
+import { AuditQueryDto } from '../dto/audit.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+
+@Controller('audit')
+@UseGuards(JwtAuthGuard)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  async query(@Query() query: AuditQueryDto) {
+    return {
+      success: true,
+      message: 'Audit entries retrieved successfully',
+      data: await this.auditService.query(query),
+    };
+  }
+}
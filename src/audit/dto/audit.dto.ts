@@ -0,0 +1,73 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { AuditEntryType } from '../interfaces/audit.interface';
+
+const AUDIT_ENTRY_TYPES: AuditEntryType[] = [
+  'EVENT_CONSUMED',
+  'DUPLICATE_SKIPPED',
+  'STATE_CHANGED',
+  'TRANSITION_REJECTED',
+  'TIMER_SCHEDULED',
+  'TIMER_CANCELLED',
+  'TIMER_FIRED',
+  'PROJECT_PAUSED',
+  'PROJECT_RESUMED',
+  'COMMAND_EXECUTED',
+  'MESSAGE_PRODUCED',
+  'RULE_FIRED',
+  'DEAD_LETTER_REPLAYED',
+  'DEAD_LETTER_DISCARDED',
+];
+
+export class AuditQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  projectId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  phaseId?: number;
+
+  @IsOptional()
+  @IsString()
+  operator?: string;
+
+  @IsOptional()
+  @IsIn(AUDIT_ENTRY_TYPES)
+  type?: AuditEntryType;
+
+  @IsOptional()
+  @IsString()
+  correlationId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit: number = 50;
+}
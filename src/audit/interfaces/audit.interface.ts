@@ -0,0 +1,55 @@
+export type AuditEntryType =
+  | 'EVENT_CONSUMED'
+  | 'DUPLICATE_SKIPPED'
+  | 'STATE_CHANGED'
+  | 'TRANSITION_REJECTED'
+  | 'TIMER_SCHEDULED'
+  | 'TIMER_CANCELLED'
+  | 'TIMER_FIRED'
+  | 'PROJECT_PAUSED'
+  | 'PROJECT_RESUMED'
+  | 'COMMAND_EXECUTED'
+  | 'MESSAGE_PRODUCED'
+  | 'RULE_FIRED'
+  | 'DEAD_LETTER_REPLAYED'
+  | 'DEAD_LETTER_DISCARDED';
+
+export interface AuditEntry {
+  id: string;
+  type: AuditEntryType;
+  timestamp: string;
+  correlationId: string;
+  projectId?: number;
+  phaseId?: number;
+  operator?: string;
+  before?: string;
+  after?: string;
+  reason: string;
+  topic?: string;
+  details?: Record<string, unknown>;
+}
+
+/** What callers supply; the service fills in id, timestamp and correlation. */
+export type AuditRecord = Omit<
+  AuditEntry,
+  'id' | 'timestamp' | 'correlationId'
+> & { correlationId?: string };
+
+export interface AuditQuery {
+  projectId?: number;
+  phaseId?: number;
+  operator?: string;
+  type?: AuditEntryType;
+  correlationId?: string;
+  from?: string;
+  to?: string;
+  page: number;
+  limit: number;
+}
+
+export interface AuditPage {
+  items: AuditEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,12 @@
+import { AuditEntry } from '../interfaces/audit.interface';
+
+export const AUDIT_REPOSITORY = 'AUDIT_REPOSITORY';
+
+export interface AuditRepository {
+  append(entry: AuditEntry): Promise<void>;
+  /**
+   * Entries in the order they were recorded, read as they are iterated.
+   * Entries recorded before `since` may be left out.
+   */
+  scan(since?: Date): AsyncIterable<AuditEntry> | Iterable<AuditEntry>;
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAuditRepository } from './file-audit.repository';
+import { AuditEntry } from '../interfaces/audit.interface';
+import { NOW } from '../../testing/fixtures';
+
+describe('FileAuditRepository', () => {
+  const entry = (index: number): AuditEntry => ({
+    id: `entry-${index}`,
+    type: 'EVENT_CONSUMED',
+    timestamp: new Date(Date.parse(NOW) + index * 1000).toISOString(),
+    correlationId: `correlation-${index}`,
+    reason: 'spec',
+  });
+
+  let directory: string;
+
+  /** Ids of the entries `repository` still holds, oldest first. */
+  const ids = async (repository: FileAuditRepository) => {
+    const found: string[] = [];
+    for await (const { id } of repository.scan()) {
+      found.push(id);
+    }
+    return found;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it('keeps only the rotated files it takes to hold maxEntries', async () => {
+    // One entry per file, so every append past the first rotates
+    const repository = new FileAuditRepository(
+      path.join(directory, 'audit-log.jsonl'),
+      1,
+      10,
+      2,
+    );
+
+    for (let index = 1; index <= 5; index++) {
+      await repository.append(entry(index));
+    }
+
+    await expect(ids(repository)).resolves.toEqual([
+      'entry-3',
+      'entry-4',
+      'entry-5',
+    ]);
+    expect(await fs.readdir(directory)).toHaveLength(3);
+  });
+
+  it('keeps no more rotated files than maxFiles', async () => {
+    const repository = new FileAuditRepository(
+      path.join(directory, 'audit-log.jsonl'),
+      1,
+      1,
+      100,
+    );
+
+    for (let index = 1; index <= 4; index++) {
+      await repository.append(entry(index));
+    }
+
+    await expect(ids(repository)).resolves.toEqual(['entry-3', 'entry-4']);
+  });
+});
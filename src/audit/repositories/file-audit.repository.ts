@@ -0,0 +1,186 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AuditEntry } from '../interfaces/audit.interface';
+import { AuditRepository } from './audit.repository';
+import { LoggerService } from '../../common/services/logger.service';
+
+interface RotatedFile {
+  path: string;
+  /** Time of the entry that started the next file; all of its are older. */
+  until: number;
+}
+
+/**
+ * Appends entries to a JSON lines file. Once the file would grow past
+ * `maxFileSize` bytes it is renamed to `<name>.<time>.jsonl` and a new one is
+ * started, keeping only the newest `maxFiles` renamed files, and of those only
+ * as many as it takes to hold `maxEntries` entries. Queries stream through the
+ * files instead of holding entries in memory, so they cover everything still
+ * kept.
+ */
+export class FileAuditRepository implements AuditRepository {
+  private readonly logger = new LoggerService(FileAuditRepository.name);
+  private readonly directory: string;
+  private readonly baseName: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxFileSize: number,
+    private readonly maxFiles: number,
+    private readonly maxEntries: number,
+  ) {
+    this.directory = path.dirname(filePath);
+    this.baseName = path.basename(filePath, path.extname(filePath));
+  }
+
+  append(entry: AuditEntry): Promise<void> {
+    const write = async () => {
+      const line = `${JSON.stringify(entry)}\n`;
+      await fs.mkdir(this.directory, { recursive: true });
+      // Read each time, since replicas may share the file
+      const size = await fs
+        .stat(this.filePath)
+        .then((stats) => stats.size)
+        .catch(() => 0);
+      if (size && size + Buffer.byteLength(line) > this.maxFileSize) {
+        await this.rotate(new Date(entry.timestamp).getTime());
+      }
+      await fs.appendFile(this.filePath, line, 'utf8');
+    };
+    this.pendingWrite = this.pendingWrite.then(write, write);
+    return this.pendingWrite;
+  }
+
+  async *scan(since?: Date): AsyncIterable<AuditEntry> {
+    const files = (await this.getRotatedFiles())
+      .filter(({ until }) => !since || until >= since.getTime())
+      .map((file) => file.path);
+    files.push(this.filePath);
+
+    for (const file of files) {
+      let handle: fs.FileHandle;
+      try {
+        handle = await fs.open(file, 'r');
+      } catch (error) {
+        // Pruned or rotated away since it was listed
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      try {
+        for await (const line of handle.readLines()) {
+          const entry = this.parse(line);
+          if (entry) {
+            yield entry;
+          }
+        }
+      } finally {
+        await handle.close().catch(() => undefined);
+      }
+    }
+  }
+
+  private async rotate(until: number): Promise<void> {
+    const rotatedPath = path.join(
+      this.directory,
+      `${this.baseName}.${until}${path.extname(this.filePath)}`,
+    );
+    try {
+      await fs.rename(this.filePath, rotatedPath);
+    } catch (error) {
+      // Another replica rotated it first
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const rotated = await this.getRotatedFiles();
+    const expired = rotated.slice(
+      0,
+      Math.max(rotated.length - this.maxFiles, 0),
+    );
+    // Newest first, until the files kept hold maxEntries
+    let entries = 0;
+    for (const file of rotated.slice(expired.length).reverse()) {
+      if (entries >= this.maxEntries) {
+        expired.push(file);
+      } else {
+        entries += await this.countEntries(file.path);
+      }
+    }
+    for (const file of expired) {
+      await fs.rm(file.path, { force: true });
+    }
+    this.logger.info('Rotated audit log', {
+      rotatedPath,
+      removed: expired.map((file) => file.path),
+    });
+  }
+
+  /** Oldest first. */
+  private async getRotatedFiles(): Promise<RotatedFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const prefix = `${this.baseName}.`;
+    const extension = path.extname(this.filePath);
+    const files: RotatedFile[] = [];
+    for (const name of names) {
+      const time = name.startsWith(prefix)
+        ? name.slice(prefix.length, name.length - extension.length)
+        : '';
+      if (name.endsWith(extension) && /^\d+$/.test(time)) {
+        files.push({ path: path.join(this.directory, name), until: +time });
+      }
+    }
+    return files.sort((a, b) => a.until - b.until);
+  }
+
+  private async countEntries(file: string): Promise<number> {
+    let entries = 0;
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(file, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+    try {
+      for await (const line of handle.readLines()) {
+        if (line.trim()) {
+          entries++;
+        }
+      }
+    } finally {
+      await handle.close().catch(() => undefined);
+    }
+    return entries;
+  }
+
+  private parse(line: string): AuditEntry | undefined {
+    if (!line.trim()) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(line) as AuditEntry;
+    } catch {
+      // Cut short by a crash while it was written
+      this.logger.warn('Skipped unreadable audit entry', {
+        filePath: this.filePath,
+      });
+      return undefined;
+    }
+  }
+}
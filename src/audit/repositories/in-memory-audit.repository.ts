@@ -0,0 +1,22 @@
+import { AuditEntry } from '../interfaces/audit.interface';
+import { AuditRepository } from './audit.repository';
+
+/** Keeps the most recent `maxEntries` entries, dropping the oldest first. */
+export class InMemoryAuditRepository implements AuditRepository {
+  private readonly entries: AuditEntry[] = [];
+
+  constructor(private readonly maxEntries: number) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    return Promise.resolve();
+  }
+
+  scan(): Iterable<AuditEntry> {
+    // A copy, so entries recorded meanwhile do not shift the iteration
+    return [...this.entries];
+  }
+}
@@ -0,0 +1,107 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { getCorrelationId } from '../../common/utils/correlation-context';
+import {
+  AuditEntry,
+  AuditPage,
+  AuditQuery,
+  AuditRecord,
+} from '../interfaces/audit.interface';
+import {
+  AUDIT_REPOSITORY,
+  AuditRepository,
+} from '../repositories/audit.repository';
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new LoggerService(AuditService.name);
+
+  constructor(
+    @Inject(AUDIT_REPOSITORY)
+    private readonly auditRepository: AuditRepository,
+    private readonly clock: Clock,
+  ) {}
+
+  /**
+   * Records an audit entry. Failures are logged rather than thrown so a
+   * broken audit store never blocks autopilot itself.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    const entry: AuditEntry = {
+      ...record,
+      id: uuidv4(),
+      timestamp: this.clock.toISOString(),
+      correlationId: record.correlationId ?? getCorrelationId() ?? uuidv4(),
+    };
+
+    try {
+      await this.auditRepository.append(entry);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error('Failed to record audit entry', {
+        error: err.stack || err.message,
+        entry,
+      });
+    }
+  }
+
+  /**
+   * Newest entries first. The log is read twice, oldest first: to count the
+   * matches, then to pick the page out of them, so only the page is held in
+   * memory.
+   */
+  async query(query: AuditQuery): Promise<AuditPage> {
+    const since = query.from ? new Date(query.from) : undefined;
+
+    let total = 0;
+    for await (const entry of this.auditRepository.scan(since)) {
+      if (this.matches(entry, query)) {
+        total++;
+      }
+    }
+
+    // Positions among the matches, oldest first, of the page's entries
+    const end = total - (query.page - 1) * query.limit;
+    const start = Math.max(end - query.limit, 0);
+    const items: AuditEntry[] = [];
+    if (end > 0) {
+      let position = 0;
+      for await (const entry of this.auditRepository.scan(since)) {
+        if (!this.matches(entry, query)) {
+          continue;
+        }
+        if (position >= start) {
+          items.push(entry);
+        }
+        // Entries recorded since the count come after the page
+        if (++position >= end) {
+          break;
+        }
+      }
+    }
+
+    return {
+      items: items.reverse(),
+      total,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  private matches(entry: AuditEntry, query: AuditQuery): boolean {
+    const timestamp = new Date(entry.timestamp).getTime();
+    return (
+      (query.projectId === undefined || entry.projectId === query.projectId) &&
+      (query.phaseId === undefined || entry.phaseId === query.phaseId) &&
+      (query.operator === undefined || entry.operator === query.operator) &&
+      (query.type === undefined || entry.type === query.type) &&
+      (query.correlationId === undefined ||
+        entry.correlationId === query.correlationId) &&
+      (query.from === undefined ||
+        timestamp >= new Date(query.from).getTime()) &&
+      (query.to === undefined || timestamp <= new Date(query.to).getTime())
+    );
+  }
+}
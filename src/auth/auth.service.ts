@@ -1,6 +1,13 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { IOperatorAccount } from '../common/types/auth.types';
+import { LoggerService } from '../common/services/logger.service';
+import { hashPassword, verifyPassword } from './utils/password';
 
 interface User {
   id: number;
@@ -12,20 +19,46 @@ interface JwtPayload {
   sub: number;
 }
 
+// Checked against unknown usernames so they take as long as known ones
+const UNKNOWN_USER_HASH = hashPassword('', '00');
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new LoggerService(AuthService.name);
+  private readonly operators: IOperatorAccount[];
+
   constructor(
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
-  ) {}
+  ) {
+    this.operators = this.configService.get<IOperatorAccount[]>(
+      'jwt.operators',
+      [],
+    );
+    if (!this.operators.length) {
+      this.logger.warn('No operator accounts configured; login is disabled');
+    }
+  }
 
+  /**
+   * Checks the credentials against the operator accounts in
+   * `AUTH_OPERATORS`. Without any accounts nobody can log in.
+   */
   validateUser(username: string, password: string): Promise<User | null> {
-    // TODO: Implement actual user validation
-    // This is a placeholder for demonstration
+    if (!this.operators.length) {
+      throw new ServiceUnavailableException(
+        'Login is disabled: no operator accounts are configured',
+      );
+    }
+    const index = this.operators.findIndex(
+      (operator) => operator.username === username,
+    );
+    const valid = verifyPassword(
+      password,
+      index === -1 ? UNKNOWN_USER_HASH : this.operators[index].passwordHash,
+    );
     return Promise.resolve(
-      username === 'admin' && password === 'admin'
-        ? { id: 1, username: 'admin' }
-        : null,
+      valid && index !== -1 ? { id: index + 1, username } : null,
     );
   }
 
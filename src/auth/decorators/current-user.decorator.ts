@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { IValidatedUser } from '../../common/types/auth.types';
+
+/** The user JwtAuthGuard attached to the request. */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): IValidatedUser => {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user: IValidatedUser }>();
+    return request.user;
+  },
+);
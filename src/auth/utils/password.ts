@@ -0,0 +1,21 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+
+/** `<salt>:<hash>` in hex, as stored in `AUTH_OPERATORS`. */
+export function hashPassword(
+  password: string,
+  salt = randomBytes(16).toString('hex'),
+): string {
+  return `${salt}:${scryptSync(password, salt, KEY_LENGTH).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,10 +1,131 @@
 import { Module, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AutopilotController } from './controllers/autopilot.controller';
+import { RulesController } from './controllers/rules.controller';
 import { AutopilotService } from './services/autopilot.service';
+import { SchedulerService } from './services/scheduler.service';
+import { ChallengeStateService } from './services/challenge-state.service';
+import { CommandRegistryService } from './commands/command-registry.service';
+import { CancelScheduleHandler } from './commands/handlers/cancel-schedule.handler';
+import { ReschedulePhaseHandler } from './commands/handlers/reschedule-phase.handler';
+import { PauseProjectHandler } from './commands/handlers/pause-project.handler';
+import { ResumeProjectHandler } from './commands/handlers/resume-project.handler';
+import { ForceClosePhaseHandler } from './commands/handlers/force-close-phase.handler';
+import { LoadTimelineHandler } from './commands/handlers/load-timeline.handler';
+import { ReopenPhaseHandler } from './commands/handlers/reopen-phase.handler';
+import { SkipPhaseHandler } from './commands/handlers/skip-phase.handler';
+import { ExtendPhaseHandler } from './commands/handlers/extend-phase.handler';
+import { PhaseDependencyService } from './services/phase-dependency.service';
+import { SimulationService } from './services/simulation.service';
+import { PartitionOwnershipService } from './services/partition-ownership.service';
+import { BusinessCalendarService } from './services/business-calendar.service';
+import { NotificationService } from './services/notification.service';
+import { ChallengeProjectionService } from './services/challenge-projection.service';
+import { SlaMonitorService } from './services/sla-monitor.service';
+import { RulesEngineService } from './rules/rules-engine.service';
 import { KafkaModule } from '../kafka/kafka.module';
+import { AuditModule } from '../audit/audit.module';
+import { SCHEDULE_REPOSITORY } from './repositories/schedule.repository';
+import { InMemoryScheduleRepository } from './repositories/in-memory-schedule.repository';
+import { FileScheduleRepository } from './repositories/file-schedule.repository';
+import { TIMELINE_REPOSITORY } from './repositories/timeline.repository';
+import { InMemoryTimelineRepository } from './repositories/in-memory-timeline.repository';
+import { FileTimelineRepository } from './repositories/file-timeline.repository';
+import { CHALLENGE_VIEW_REPOSITORY } from './repositories/challenge-view.repository';
+import { InMemoryChallengeViewRepository } from './repositories/in-memory-challenge-view.repository';
+import { FileChallengeViewRepository } from './repositories/file-challenge-view.repository';
+import { COMMAND_RESULT_REPOSITORY } from './repositories/command-result.repository';
+import { InMemoryCommandResultRepository } from './repositories/in-memory-command-result.repository';
+import { FileCommandResultRepository } from './repositories/file-command-result.repository';
 
 @Module({
-  imports: [forwardRef(() => KafkaModule)],
-  providers: [AutopilotService],
-  exports: [AutopilotService],
+  imports: [AuditModule, forwardRef(() => KafkaModule)],
+  controllers: [AutopilotController, RulesController],
+  providers: [
+    AutopilotService,
+    SchedulerService,
+    ChallengeStateService,
+    PhaseDependencyService,
+    SimulationService,
+    PartitionOwnershipService,
+    BusinessCalendarService,
+    NotificationService,
+    ChallengeProjectionService,
+    RulesEngineService,
+    SlaMonitorService,
+    CommandRegistryService,
+    CancelScheduleHandler,
+    ReschedulePhaseHandler,
+    PauseProjectHandler,
+    ResumeProjectHandler,
+    ForceClosePhaseHandler,
+    LoadTimelineHandler,
+    ReopenPhaseHandler,
+    SkipPhaseHandler,
+    ExtendPhaseHandler,
+    {
+      provide: SCHEDULE_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryScheduleRepository()
+          : new FileScheduleRepository(
+              configService.get<string>(
+                'autopilot.scheduler.filePath',
+                'data/scheduled-transitions.json',
+              ),
+            ),
+    },
+    {
+      provide: TIMELINE_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryTimelineRepository()
+          : new FileTimelineRepository(
+              configService.get<string>(
+                'autopilot.timelines.filePath',
+                'data/project-timelines.json',
+              ),
+            ),
+    },
+    {
+      provide: COMMAND_RESULT_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryCommandResultRepository()
+          : new FileCommandResultRepository(
+              configService.get<string>(
+                'autopilot.commands.filePath',
+                'data/command-results.json',
+              ),
+            ),
+    },
+    {
+      provide: CHALLENGE_VIEW_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryChallengeViewRepository()
+          : new FileChallengeViewRepository(
+              configService.get<string>(
+                'autopilot.challenges.filePath',
+                'data/challenges.json',
+              ),
+            ),
+    },
+  ],
+  exports: [
+    AutopilotService,
+    SchedulerService,
+    ChallengeStateService,
+    PhaseDependencyService,
+    SimulationService,
+    PartitionOwnershipService,
+    BusinessCalendarService,
+    ChallengeProjectionService,
+    SlaMonitorService,
+  ],
 })
 export class AutopilotModule {}
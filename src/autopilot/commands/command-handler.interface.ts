@@ -0,0 +1,18 @@
+import * as Joi from 'joi';
+
+export interface CommandContext<P> {
+  commandId: string;
+  command: string;
+  operator: string;
+  reason?: string;
+  params: P;
+}
+
+export type CommandHandlerResult = Record<string, unknown> | void;
+
+export interface CommandHandler<P = Record<string, unknown>> {
+  readonly name: string;
+  /** Validates `projectId` merged with the command's `parameters`. */
+  readonly schema: Joi.ObjectSchema<P>;
+  execute(context: CommandContext<P>): Promise<CommandHandlerResult>;
+}
@@ -0,0 +1,141 @@
+import * as Joi from 'joi';
+import { Type } from '@nestjs/common';
+import { CommandRegistryService } from './command-registry.service';
+import { CommandHandler } from './command-handler.interface';
+import { CancelScheduleHandler } from './handlers/cancel-schedule.handler';
+import { ReschedulePhaseHandler } from './handlers/reschedule-phase.handler';
+import { PauseProjectHandler } from './handlers/pause-project.handler';
+import { ResumeProjectHandler } from './handlers/resume-project.handler';
+import { ForceClosePhaseHandler } from './handlers/force-close-phase.handler';
+import { LoadTimelineHandler } from './handlers/load-timeline.handler';
+import { ReopenPhaseHandler } from './handlers/reopen-phase.handler';
+import { SkipPhaseHandler } from './handlers/skip-phase.handler';
+import { ExtendPhaseHandler } from './handlers/extend-phase.handler';
+import { NotificationService } from '../services/notification.service';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { AUTOPILOT_COMMANDS } from '../constants/commands';
+import {
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+} from '../../testing/fixtures';
+
+const HANDLERS: Array<[Type<unknown>, string]> = [
+  [CancelScheduleHandler, AUTOPILOT_COMMANDS.CANCEL_SCHEDULE],
+  [ReschedulePhaseHandler, AUTOPILOT_COMMANDS.RESCHEDULE_PHASE],
+  [PauseProjectHandler, AUTOPILOT_COMMANDS.PAUSE_PROJECT],
+  [ResumeProjectHandler, AUTOPILOT_COMMANDS.RESUME_PROJECT],
+  [ForceClosePhaseHandler, AUTOPILOT_COMMANDS.FORCE_CLOSE_PHASE],
+  [LoadTimelineHandler, AUTOPILOT_COMMANDS.LOAD_TIMELINE],
+  [ReopenPhaseHandler, AUTOPILOT_COMMANDS.REOPEN_PHASE],
+  [SkipPhaseHandler, AUTOPILOT_COMMANDS.SKIP_PHASE],
+  [ExtendPhaseHandler, AUTOPILOT_COMMANDS.EXTEND_PHASE],
+];
+
+function fakeHandler(name: string, execute = jest.fn()): CommandHandler {
+  return {
+    name,
+    schema: Joi.object<Record<string, unknown>>({
+      projectId: Joi.number(),
+    }).unknown(),
+    execute,
+  };
+}
+
+describe('CommandRegistryService', () => {
+  let producer: FakeProducer;
+  let extend: jest.Mock;
+  let registry: CommandRegistryService;
+
+  beforeEach(async () => {
+    producer = createProducer();
+    extend = jest.fn().mockResolvedValue({ extendedBy: 1000 });
+    const module = await createTestingModule({
+      providers: [
+        CommandRegistryService,
+        { provide: AutopilotProducer, useValue: producer },
+        {
+          provide: NotificationService,
+          useValue: {
+            notifyCommandRejected: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        ...HANDLERS.map(([handler, name]) => ({
+          provide: handler,
+          useValue: fakeHandler(
+            name,
+            name === AUTOPILOT_COMMANDS.EXTEND_PHASE ? extend : jest.fn(),
+          ),
+        })),
+      ],
+    });
+    registry = module.get(CommandRegistryService);
+  });
+
+  it('re-publishes the stored result instead of running a command twice', async () => {
+    producer.sendCommandResult.mockRejectedValueOnce(new Error('broker down'));
+    const command = {
+      commandId: 'cmd-1',
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: 'ops',
+      projectId: 1,
+      parameters: { phaseId: 10, extendBy: 1000 },
+    };
+
+    await expect(registry.execute(command)).rejects.toThrow('broker down');
+    const result = await registry.execute(command);
+
+    expect(extend).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ commandId: 'cmd-1', status: 'SUCCEEDED' });
+    expect(producer.sendCommandResult).toHaveBeenCalledTimes(2);
+    expect(producer.sendCommandResult).toHaveBeenLastCalledWith(result);
+  });
+
+  it('runs commands with different ids separately', async () => {
+    const command = {
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: 'ops',
+      projectId: 1,
+      parameters: { phaseId: 10, extendBy: 1000 },
+    };
+
+    await registry.execute({ ...command, commandId: 'cmd-1' });
+    await registry.execute({ ...command, commandId: 'cmd-2' });
+
+    expect(extend).toHaveBeenCalledTimes(2);
+  });
+
+  it('stores no result for a failure worth retrying', async () => {
+    extend.mockRejectedValueOnce(new Error('registry down'));
+    const command = {
+      commandId: 'cmd-1',
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: 'ops',
+      projectId: 1,
+      parameters: { phaseId: 10, extendBy: 1000 },
+    };
+
+    await expect(registry.execute(command)).rejects.toThrow('registry down');
+    expect(producer.sendCommandResult).not.toHaveBeenCalled();
+
+    const result = await registry.execute(command);
+    expect(extend).toHaveBeenCalledTimes(2);
+    expect(result.status).toBe('SUCCEEDED');
+  });
+
+  it('runs a command against its own project whatever its parameters say', async () => {
+    await registry.execute({
+      commandId: 'cmd-1',
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: 'ops',
+      projectId: 1,
+      parameters: { projectId: 2, phaseId: 10, extendBy: 1000 },
+    });
+
+    expect(extend).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: { projectId: 1, phaseId: 10, extendBy: 1000 },
+      }),
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import {
+  getCorrelationId,
+  runWithCorrelationId,
+} from '../../common/utils/correlation-context';
+import { isRetryable } from '../../common/utils/retry-policy';
+import { AuditService } from '../../audit/services/audit.service';
+import { NotificationService } from '../services/notification.service';
+import {
+  AutopilotException,
+  CommandRejectedException,
+} from '../../common/exceptions/autopilot.exception';
+import {
+  CommandPayload,
+  CommandResultPayload,
+} from '../interfaces/autopilot.interface';
+import { CommandHandler } from './command-handler.interface';
+import {
+  COMMAND_RESULT_REPOSITORY,
+  CommandResultRepository,
+} from '../repositories/command-result.repository';
+import { CancelScheduleHandler } from './handlers/cancel-schedule.handler';
+import { ReschedulePhaseHandler } from './handlers/reschedule-phase.handler';
+import { PauseProjectHandler } from './handlers/pause-project.handler';
+import { ResumeProjectHandler } from './handlers/resume-project.handler';
+import { ForceClosePhaseHandler } from './handlers/force-close-phase.handler';
+import { LoadTimelineHandler } from './handlers/load-timeline.handler';
+import { ReopenPhaseHandler } from './handlers/reopen-phase.handler';
+import { SkipPhaseHandler } from './handlers/skip-phase.handler';
+import { ExtendPhaseHandler } from './handlers/extend-phase.handler';
+
+@Injectable()
+export class CommandRegistryService {
+  private readonly logger = new LoggerService(CommandRegistryService.name);
+  private readonly handlers = new Map<string, CommandHandler>();
+
+  constructor(
+    private readonly autopilotProducer: AutopilotProducer,
+    private readonly auditService: AuditService,
+    private readonly notificationService: NotificationService,
+    @Inject(COMMAND_RESULT_REPOSITORY)
+    private readonly commandResultRepository: CommandResultRepository,
+    private readonly clock: Clock,
+    cancelSchedule: CancelScheduleHandler,
+    reschedulePhase: ReschedulePhaseHandler,
+    pauseProject: PauseProjectHandler,
+    resumeProject: ResumeProjectHandler,
+    forceClosePhase: ForceClosePhaseHandler,
+    loadTimeline: LoadTimelineHandler,
+    reopenPhase: ReopenPhaseHandler,
+    skipPhase: SkipPhaseHandler,
+    extendPhase: ExtendPhaseHandler,
+  ) {
+    [
+      cancelSchedule,
+      reschedulePhase,
+      pauseProject,
+      resumeProject,
+      forceClosePhase,
+      loadTimeline,
+      reopenPhase,
+      skipPhase,
+      extendPhase,
+    ].forEach((handler) => this.register(handler));
+  }
+
+  register<P>(handler: CommandHandler<P>): void {
+    if (this.handlers.has(handler.name)) {
+      throw new Error(`Command handler already registered: ${handler.name}`);
+    }
+    this.handlers.set(handler.name, handler as unknown as CommandHandler);
+  }
+
+  getCommandNames(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Runs a command and publishes its result. Rejections and handler failures
+   * are reported through the result event rather than thrown, except errors
+   * worth retrying, which are thrown before any result is stored. A command
+   * whose `commandId` already ran, such as one retried because its result
+   * could not be published, is not run again; its stored result is published
+   * instead.
+   */
+  execute(payload: CommandPayload): Promise<CommandResultPayload> {
+    const commandId = payload.commandId || uuidv4();
+    return runWithCorrelationId(getCorrelationId() ?? commandId, () =>
+      this.dispatch(payload, commandId),
+    );
+  }
+
+  private async dispatch(
+    payload: CommandPayload,
+    commandId: string,
+  ): Promise<CommandResultPayload> {
+    const executed = await this.commandResultRepository.find(commandId);
+    if (executed) {
+      this.logger.warn(`Command ${payload.command} already executed`, {
+        commandId,
+        projectId: payload.projectId,
+        executedAt: executed.executedAt,
+      });
+      await this.autopilotProducer.sendCommandResult(executed.result);
+      return executed.result;
+    }
+
+    let result: CommandResultPayload;
+
+    try {
+      const handler = this.handlers.get(payload.command);
+      if (!handler) {
+        throw new CommandRejectedException(
+          `unknown command "${payload.command}"`,
+          { available: this.getCommandNames() },
+        );
+      }
+
+      const validation = handler.schema.validate(
+        { ...payload.parameters, projectId: payload.projectId },
+        { abortEarly: false },
+      );
+      if (validation.error) {
+        throw new CommandRejectedException(validation.error.message, {
+          command: payload.command,
+        });
+      }
+
+      const output = await handler.execute({
+        commandId,
+        command: payload.command,
+        operator: payload.operator,
+        reason: payload.reason,
+        params: validation.value,
+      });
+
+      result = this.buildResult(payload, commandId, 'SUCCEEDED', 'OK', output);
+      this.logger.info(`Command ${payload.command} succeeded`, {
+        commandId,
+        projectId: payload.projectId,
+      });
+    } catch (error) {
+      const err = error as Error;
+      if (isRetryable(error)) {
+        this.logger.warn(`Command ${payload.command} will be retried`, {
+          commandId,
+          projectId: payload.projectId,
+          error: err.message,
+        });
+        throw error;
+      }
+      const status =
+        error instanceof AutopilotException && error.statusCode < 500
+          ? 'REJECTED'
+          : 'FAILED';
+      result = this.buildResult(payload, commandId, status, err.message);
+      this.logger.warn(`Command ${payload.command} ${status.toLowerCase()}`, {
+        commandId,
+        projectId: payload.projectId,
+        error: status === 'FAILED' ? err.stack || err.message : err.message,
+      });
+    }
+
+    // Recorded before anything below can fail and have the command retried
+    await this.commandResultRepository.save({
+      result,
+      executedAt: this.clock.toISOString(),
+    });
+    await this.commandResultRepository.removeExecutedBefore(
+      new Date(
+        this.clock.now() - CONFIG.AUTOPILOT.COMMAND_RESULT_RETENTION,
+      ).toISOString(),
+    );
+    await this.auditService.record({
+      type: 'COMMAND_EXECUTED',
+      projectId: payload.projectId,
+      phaseId:
+        typeof payload.parameters?.phaseId === 'number'
+          ? payload.parameters.phaseId
+          : undefined,
+      operator: payload.operator,
+      after: result.status,
+      reason: payload.reason ?? result.message,
+      details: {
+        commandId,
+        command: payload.command,
+        parameters: payload.parameters,
+        message: result.message,
+      },
+    });
+    await this.autopilotProducer.sendCommandResult(result);
+    if (result.status === 'REJECTED') {
+      await this.notificationService.notifyCommandRejected(payload, result);
+    }
+    return result;
+  }
+
+  private buildResult(
+    payload: CommandPayload,
+    commandId: string,
+    status: CommandResultPayload['status'],
+    message: string,
+    output?: Record<string, unknown> | void,
+  ): CommandResultPayload {
+    return {
+      commandId,
+      command: payload.command,
+      status,
+      message,
+      operator: payload.operator,
+      projectId: payload.projectId,
+      result: output ? JSON.stringify(output) : undefined,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface CancelScheduleParams {
+  projectId: number;
+  phaseId?: number;
+}
+
+@Injectable()
+export class CancelScheduleHandler
+  implements CommandHandler<CancelScheduleParams>
+{
+  readonly name = AUTOPILOT_COMMANDS.CANCEL_SCHEDULE;
+  readonly schema = Joi.object<CancelScheduleParams>({
+    projectId: Joi.number().integer().required(),
+    phaseId: Joi.number().integer(),
+  });
+
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  async execute({
+    operator,
+    params,
+  }: CommandContext<CancelScheduleParams>): Promise<CommandHandlerResult> {
+    if (params.phaseId === undefined) {
+      const cancelled = await this.schedulerService.cancelProject(
+        params.projectId,
+        operator,
+      );
+      return { cancelled };
+    }
+
+    const cancelled = await this.schedulerService.cancel(
+      params.projectId,
+      params.phaseId,
+      operator,
+    );
+    return { cancelled: cancelled ? 1 : 0 };
+  }
+}
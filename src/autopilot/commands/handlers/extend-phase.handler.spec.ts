@@ -0,0 +1,185 @@
+import { ExtendPhaseHandler } from './extend-phase.handler';
+import { SchedulerService } from '../../services/scheduler.service';
+import { ChallengeStateService } from '../../services/challenge-state.service';
+import { ChallengeProjectionService } from '../../services/challenge-projection.service';
+import { PhaseDependencyService } from '../../services/phase-dependency.service';
+import { BusinessCalendarService } from '../../services/business-calendar.service';
+import { PartitionOwnershipService } from '../../services/partition-ownership.service';
+import { AutopilotProducer } from '../../../kafka/producers/autopilot.producer';
+import { KafkaService } from '../../../kafka/kafka.service';
+import { FakeClock } from '../../../common/services/clock.service';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { ScheduledTransition } from '../../interfaces/autopilot.interface';
+import {
+  createClock,
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+} from '../../../testing/fixtures';
+
+describe('ExtendPhaseHandler', () => {
+  const HOUR = 3600000;
+
+  let clock: FakeClock;
+  let challengeState: ChallengeStateService;
+  let dependencies: PhaseDependencyService;
+  let scheduler: SchedulerService;
+  let producer: FakeProducer;
+  let handler: ExtendPhaseHandler;
+
+  const extend = (phaseId: number, extendBy = HOUR) =>
+    handler.execute({
+      commandId: 'c-1',
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: 'ops',
+      reason: 'More time',
+      params: { projectId: 1, phaseId, extendBy },
+    });
+  const scheduled = (
+    phaseId: number,
+    state: 'START' | 'END',
+  ): ScheduledTransition | undefined =>
+    scheduler
+      .getScheduled(1)
+      .find(
+        (transition) =>
+          transition.phaseId === phaseId && transition.state === state,
+      );
+
+  beforeEach(async () => {
+    clock = createClock();
+    producer = createProducer();
+    const module = await createTestingModule({
+      providers: [
+        ExtendPhaseHandler,
+        SchedulerService,
+        ChallengeStateService,
+        ChallengeProjectionService,
+        PhaseDependencyService,
+        BusinessCalendarService,
+        PartitionOwnershipService,
+        { provide: KafkaService, useValue: {} },
+        { provide: AutopilotProducer, useValue: producer },
+      ],
+      clock,
+    });
+    challengeState = module.get(ChallengeStateService);
+    dependencies = module.get(PhaseDependencyService);
+    scheduler = module.get(SchedulerService);
+    handler = module.get(ExtendPhaseHandler);
+
+    // Submission is open; Review follows it and Appeals follows Review
+    await dependencies.setTimeline({
+      projectId: 1,
+      projectStatus: 'ACTIVE',
+      phases: [
+        { phaseId: 10, phaseTypeName: 'Submission', duration: 24 * HOUR },
+        {
+          phaseId: 11,
+          phaseTypeName: 'Review',
+          duration: 2 * HOUR,
+          predecessorId: 10,
+        },
+        {
+          phaseId: 12,
+          phaseTypeName: 'Appeals',
+          duration: HOUR,
+          predecessorId: 11,
+        },
+      ],
+    });
+    challengeState.applyPhaseTransition({
+      projectId: 1,
+      phaseId: 10,
+      phaseTypeName: 'Submission',
+      state: 'START',
+      operator: 'autopilot',
+      projectStatus: 'ACTIVE',
+    });
+    await scheduler.schedule({
+      projectId: 1,
+      phaseId: 10,
+      phaseTypeName: 'Submission',
+      state: 'END',
+      projectStatus: 'ACTIVE',
+      fireAt: '2025-01-07T10:00:00.000Z',
+    });
+    await scheduler.schedule({
+      projectId: 1,
+      phaseId: 12,
+      phaseTypeName: 'Appeals',
+      state: 'START',
+      projectStatus: 'ACTIVE',
+      fireAt: '2025-01-07T12:00:00.000Z',
+      scheduledEndDate: '2025-01-07T13:00:00.000Z',
+    });
+  });
+
+  afterEach(() => scheduler.onApplicationShutdown());
+
+  it('moves the deadline and everything scheduled after it', async () => {
+    const result = await extend(10);
+
+    expect(scheduled(10, 'END')?.fireAt).toBe('2025-01-07T11:00:00.000Z');
+    expect(scheduled(12, 'START')).toEqual(
+      expect.objectContaining({
+        fireAt: '2025-01-07T13:00:00.000Z',
+        scheduledEndDate: '2025-01-07T14:00:00.000Z',
+      }),
+    );
+    expect(result).toEqual({
+      extendedBy: HOUR,
+      shifted: [
+        { phaseId: 10, state: 'END', fireAt: '2025-01-07T11:00:00.000Z' },
+        { phaseId: 12, state: 'START', fireAt: '2025-01-07T13:00:00.000Z' },
+      ],
+    });
+  });
+
+  it('announces the new deadline of the open phase only', async () => {
+    await extend(10);
+
+    expect(producer.sendPhaseTransition).toHaveBeenCalledTimes(1);
+    expect(producer.sendPhaseTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        phaseId: 10,
+        state: 'START',
+        scheduledEndDate: '2025-01-07T11:00:00.000Z',
+        extendedBy: HOUR,
+        reason: 'More time',
+      }),
+    );
+  });
+
+  it('fires the moved deadline at its new time', async () => {
+    await extend(10);
+
+    clock.setTime(new Date('2025-01-07T10:30:00.000Z'));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(producer.sendPhaseTransition).toHaveBeenCalledTimes(1);
+
+    clock.setTime(new Date('2025-01-07T11:00:00.000Z'));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(producer.sendPhaseTransition).toHaveBeenLastCalledWith(
+      expect.objectContaining({ phaseId: 10, state: 'END' }),
+    );
+  });
+
+  it('rejects phases that ended or have nothing scheduled', async () => {
+    await expect(extend(11)).rejects.toThrow(
+      'nothing is scheduled for phase 11 of project 1',
+    );
+
+    challengeState.applyPhaseTransition({
+      projectId: 1,
+      phaseId: 10,
+      phaseTypeName: 'Submission',
+      state: 'END',
+      operator: 'autopilot',
+      projectStatus: 'ACTIVE',
+    });
+    await expect(extend(10)).rejects.toThrow(CommandRejectedException);
+    expect(scheduled(10, 'END')?.fireAt).toBe('2025-01-07T10:00:00.000Z');
+  });
+});
@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { ChallengeStateService } from '../../services/challenge-state.service';
+import { PhaseDependencyService } from '../../services/phase-dependency.service';
+import { AutopilotProducer } from '../../../kafka/producers/autopilot.producer';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import { ScheduledTransition } from '../../interfaces/autopilot.interface';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface ExtendPhaseParams {
+  projectId: number;
+  phaseId: number;
+  extendBy: number;
+}
+
+/**
+ * Pushes a phase's deadline back and shifts whatever is already scheduled
+ * for the phases that follow it by the same amount. Dependents that are not
+ * scheduled yet need no change, as they are planned from the phase's END.
+ */
+@Injectable()
+export class ExtendPhaseHandler implements CommandHandler<ExtendPhaseParams> {
+  readonly name = AUTOPILOT_COMMANDS.EXTEND_PHASE;
+  readonly schema = Joi.object<ExtendPhaseParams>({
+    projectId: Joi.number().integer().required(),
+    phaseId: Joi.number().integer().required(),
+    extendBy: Joi.number().integer().min(1).required(),
+  });
+
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly phaseDependencyService: PhaseDependencyService,
+    private readonly autopilotProducer: AutopilotProducer,
+  ) {}
+
+  async execute({
+    operator,
+    reason,
+    params,
+  }: CommandContext<ExtendPhaseParams>): Promise<CommandHandlerResult> {
+    const { projectId, phaseId, extendBy } = params;
+    const state = this.challengeStateService.getPhaseState(projectId, phaseId);
+    if (state === 'CLOSED') {
+      throw new CommandRejectedException(
+        `phase ${phaseId} of project ${projectId} has already ended`,
+        { state },
+      );
+    }
+    if (
+      !this.schedulerService
+        .getScheduled(projectId)
+        .some((transition) => transition.phaseId === phaseId)
+    ) {
+      throw new CommandRejectedException(
+        `nothing is scheduled for phase ${phaseId} of project ${projectId}`,
+        { state },
+      );
+    }
+
+    const shifted: ScheduledTransition[] = [];
+    for (const id of [
+      phaseId,
+      ...this.phaseDependencyService
+        .getDescendants(projectId, phaseId)
+        .map((phase) => phase.phaseId),
+    ]) {
+      shifted.push(
+        ...(await this.schedulerService.shift(
+          projectId,
+          id,
+          extendBy,
+          operator,
+        )),
+      );
+    }
+
+    // Running phases announce their new deadline; the rest carry it on the
+    // START they are scheduled to publish
+    for (const transition of shifted) {
+      if (
+        transition.state !== 'END' ||
+        this.challengeStateService.getPhaseState(
+          projectId,
+          transition.phaseId,
+        ) !== 'OPEN'
+      ) {
+        continue;
+      }
+      await this.autopilotProducer.sendPhaseTransition({
+        projectId,
+        phaseId: transition.phaseId,
+        phaseTypeName: transition.phaseTypeName,
+        state: 'START',
+        operator,
+        projectStatus: transition.projectStatus,
+        scheduledEndDate: transition.fireAt,
+        reason:
+          [reason, transition.adjustmentReason].filter(Boolean).join('. ') ||
+          undefined,
+        extendedBy: extendBy,
+      });
+    }
+
+    return {
+      extendedBy: extendBy,
+      shifted: shifted.map((transition) => ({
+        phaseId: transition.phaseId,
+        state: transition.state,
+        fireAt: transition.fireAt,
+      })),
+    };
+  }
+}
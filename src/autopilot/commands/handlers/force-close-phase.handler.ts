@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { ChallengeStateService } from '../../services/challenge-state.service';
+import { AutopilotProducer } from '../../../kafka/producers/autopilot.producer';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface ForceClosePhaseParams {
+  projectId: number;
+  phaseId: number;
+}
+
+@Injectable()
+export class ForceClosePhaseHandler
+  implements CommandHandler<ForceClosePhaseParams>
+{
+  readonly name = AUTOPILOT_COMMANDS.FORCE_CLOSE_PHASE;
+  readonly schema = Joi.object<ForceClosePhaseParams>({
+    projectId: Joi.number().integer().required(),
+    phaseId: Joi.number().integer().required(),
+  });
+
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly autopilotProducer: AutopilotProducer,
+  ) {}
+
+  async execute({
+    operator,
+    reason,
+    params,
+  }: CommandContext<ForceClosePhaseParams>): Promise<CommandHandlerResult> {
+    const phase = this.challengeStateService
+      .getPhases(params.projectId)
+      .find(({ phaseId }) => phaseId === params.phaseId);
+    if (!phase || phase.state !== 'OPEN') {
+      throw new CommandRejectedException(
+        `phase ${params.phaseId} of project ${params.projectId} is not open`,
+        { state: phase?.state ?? 'NOT_STARTED' },
+      );
+    }
+
+    await this.schedulerService.cancel(
+      params.projectId,
+      params.phaseId,
+      operator,
+    );
+    await this.autopilotProducer.sendPhaseTransition({
+      projectId: phase.projectId,
+      phaseId: phase.phaseId,
+      phaseTypeName: phase.phaseTypeName,
+      state: 'END',
+      operator,
+      projectStatus: phase.projectStatus,
+      reason,
+    });
+    return { closed: true };
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { PhaseDependencyService } from '../../services/phase-dependency.service';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import { PhaseDefinition } from '../../interfaces/autopilot.interface';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface LoadTimelineParams {
+  projectId: number;
+  projectStatus: string;
+  /** JSON-encoded array of phase definitions. */
+  phases: string;
+}
+
+const phasesSchema = Joi.array<PhaseDefinition[]>()
+  .items(
+    Joi.object<PhaseDefinition>({
+      phaseId: Joi.number().integer().required(),
+      phaseTypeName: Joi.string().required(),
+      duration: Joi.number().integer().min(0).required(),
+      predecessorId: Joi.number().integer(),
+      offset: Joi.number().integer().min(0),
+    }),
+  )
+  .min(1);
+
+@Injectable()
+export class LoadTimelineHandler implements CommandHandler<LoadTimelineParams> {
+  readonly name = AUTOPILOT_COMMANDS.LOAD_TIMELINE;
+  readonly schema = Joi.object<LoadTimelineParams>({
+    projectId: Joi.number().integer().required(),
+    projectStatus: Joi.string().default('ACTIVE'),
+    phases: Joi.string().required(),
+  });
+
+  constructor(
+    private readonly phaseDependencyService: PhaseDependencyService,
+  ) {}
+
+  async execute({
+    params,
+  }: CommandContext<LoadTimelineParams>): Promise<CommandHandlerResult> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(params.phases);
+    } catch {
+      throw new CommandRejectedException('"phases" must be valid JSON');
+    }
+
+    const validation = phasesSchema.validate(parsed, { abortEarly: false });
+    if (validation.error) {
+      throw new CommandRejectedException(validation.error.message);
+    }
+
+    await this.phaseDependencyService.setTimeline({
+      projectId: params.projectId,
+      projectStatus: params.projectStatus,
+      phases: validation.value,
+    });
+    return { phases: validation.value.length };
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface PauseProjectParams {
+  projectId: number;
+}
+
+@Injectable()
+export class PauseProjectHandler implements CommandHandler<PauseProjectParams> {
+  readonly name = AUTOPILOT_COMMANDS.PAUSE_PROJECT;
+  readonly schema = Joi.object<PauseProjectParams>({
+    projectId: Joi.number().integer().required(),
+  });
+
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  async execute({
+    operator,
+    params,
+  }: CommandContext<PauseProjectParams>): Promise<CommandHandlerResult> {
+    const result = await this.schedulerService.pauseProject(
+      params.projectId,
+      operator,
+    );
+    if (!result) {
+      throw new CommandRejectedException(
+        `project ${params.projectId} is already paused`,
+      );
+    }
+    return { ...result };
+  }
+}
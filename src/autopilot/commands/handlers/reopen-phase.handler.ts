@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { ChallengeStateService } from '../../services/challenge-state.service';
+import { AutopilotProducer } from '../../../kafka/producers/autopilot.producer';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface ReopenPhaseParams {
+  projectId: number;
+  phaseId: number;
+  scheduledEndDate?: string;
+}
+
+@Injectable()
+export class ReopenPhaseHandler implements CommandHandler<ReopenPhaseParams> {
+  readonly name = AUTOPILOT_COMMANDS.REOPEN_PHASE;
+  readonly schema = Joi.object<ReopenPhaseParams>({
+    projectId: Joi.number().integer().required(),
+    phaseId: Joi.number().integer().required(),
+    scheduledEndDate: Joi.string().isoDate(),
+  });
+
+  constructor(
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly autopilotProducer: AutopilotProducer,
+  ) {}
+
+  async execute({
+    operator,
+    reason,
+    params,
+  }: CommandContext<ReopenPhaseParams>): Promise<CommandHandlerResult> {
+    const phase = this.challengeStateService
+      .getPhases(params.projectId)
+      .find(({ phaseId }) => phaseId === params.phaseId);
+    if (!phase || phase.state !== 'CLOSED') {
+      throw new CommandRejectedException(
+        `phase ${params.phaseId} of project ${params.projectId} is not closed`,
+        { state: phase?.state ?? 'NOT_STARTED' },
+      );
+    }
+
+    // Without a new end date the reopened phase stays open until closed
+    await this.autopilotProducer.sendPhaseTransition({
+      projectId: phase.projectId,
+      phaseId: phase.phaseId,
+      phaseTypeName: phase.phaseTypeName,
+      state: 'START',
+      operator,
+      projectStatus: phase.projectStatus,
+      scheduledEndDate:
+        params.scheduledEndDate &&
+        new Date(params.scheduledEndDate).toISOString(),
+      reason,
+      reopen: true,
+    });
+    return { reopened: true };
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface ReschedulePhaseParams {
+  projectId: number;
+  phaseId: number;
+  state: 'START' | 'END';
+  date: string;
+}
+
+@Injectable()
+export class ReschedulePhaseHandler
+  implements CommandHandler<ReschedulePhaseParams>
+{
+  readonly name = AUTOPILOT_COMMANDS.RESCHEDULE_PHASE;
+  readonly schema = Joi.object<ReschedulePhaseParams>({
+    projectId: Joi.number().integer().required(),
+    phaseId: Joi.number().integer().required(),
+    state: Joi.string().valid('START', 'END').default('END'),
+    date: Joi.string().isoDate().required(),
+  });
+
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  async execute({
+    operator,
+    params,
+  }: CommandContext<ReschedulePhaseParams>): Promise<CommandHandlerResult> {
+    const transition = await this.schedulerService.reschedule(
+      params.projectId,
+      params.phaseId,
+      params.state,
+      new Date(params.date).toISOString(),
+      operator,
+    );
+    if (!transition) {
+      throw new CommandRejectedException(
+        `no scheduled ${params.state} for phase ${params.phaseId} of project ${params.projectId}`,
+      );
+    }
+    return { fireAt: transition.fireAt };
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface ResumeProjectParams {
+  projectId: number;
+}
+
+@Injectable()
+export class ResumeProjectHandler
+  implements CommandHandler<ResumeProjectParams>
+{
+  readonly name = AUTOPILOT_COMMANDS.RESUME_PROJECT;
+  readonly schema = Joi.object<ResumeProjectParams>({
+    projectId: Joi.number().integer().required(),
+  });
+
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  async execute({
+    operator,
+    params,
+  }: CommandContext<ResumeProjectParams>): Promise<CommandHandlerResult> {
+    const result = await this.schedulerService.resumeProject(
+      params.projectId,
+      operator,
+    );
+    if (!result) {
+      throw new CommandRejectedException(
+        `project ${params.projectId} is not paused`,
+      );
+    }
+    return { ...result };
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import * as Joi from 'joi';
+import { SchedulerService } from '../../services/scheduler.service';
+import { ChallengeStateService } from '../../services/challenge-state.service';
+import { PhaseDependencyService } from '../../services/phase-dependency.service';
+import { AutopilotProducer } from '../../../kafka/producers/autopilot.producer';
+import { AUTOPILOT_COMMANDS } from '../../constants/commands';
+import { CommandRejectedException } from '../../../common/exceptions/autopilot.exception';
+import {
+  CommandContext,
+  CommandHandler,
+  CommandHandlerResult,
+} from '../command-handler.interface';
+
+interface SkipPhaseParams {
+  projectId: number;
+  phaseId: number;
+}
+
+/**
+ * Passes straight through a phase that has not started: its START and END
+ * are published back to back, so dependents start as if it had run.
+ */
+@Injectable()
+export class SkipPhaseHandler implements CommandHandler<SkipPhaseParams> {
+  readonly name = AUTOPILOT_COMMANDS.SKIP_PHASE;
+  readonly schema = Joi.object<SkipPhaseParams>({
+    projectId: Joi.number().integer().required(),
+    phaseId: Joi.number().integer().required(),
+  });
+
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly phaseDependencyService: PhaseDependencyService,
+    private readonly autopilotProducer: AutopilotProducer,
+  ) {}
+
+  async execute({
+    operator,
+    reason,
+    params,
+  }: CommandContext<SkipPhaseParams>): Promise<CommandHandlerResult> {
+    const state = this.challengeStateService.getPhaseState(
+      params.projectId,
+      params.phaseId,
+    );
+    if (state !== 'NOT_STARTED') {
+      throw new CommandRejectedException(
+        `phase ${params.phaseId} of project ${params.projectId} has already started`,
+        { state },
+      );
+    }
+
+    const timeline = this.phaseDependencyService.getTimeline(params.projectId);
+    const phase = this.phaseDependencyService.getPhase(
+      params.projectId,
+      params.phaseId,
+    );
+    if (!timeline || !phase) {
+      throw new CommandRejectedException(
+        `phase ${params.phaseId} is not in the timeline of project ${params.projectId}`,
+      );
+    }
+
+    await this.schedulerService.cancel(
+      params.projectId,
+      params.phaseId,
+      operator,
+    );
+    for (const transitionState of ['START', 'END'] as const) {
+      await this.autopilotProducer.sendPhaseTransition({
+        projectId: params.projectId,
+        phaseId: params.phaseId,
+        phaseTypeName: phase.phaseTypeName,
+        state: transitionState,
+        operator,
+        projectStatus: timeline.projectStatus,
+        reason,
+      });
+    }
+    return { skipped: true };
+  }
+}
@@ -0,0 +1,14 @@
+export const AUTOPILOT_COMMANDS = {
+  CANCEL_SCHEDULE: 'cancel-schedule',
+  RESCHEDULE_PHASE: 'reschedule-phase',
+  PAUSE_PROJECT: 'pause-project',
+  RESUME_PROJECT: 'resume-project',
+  FORCE_CLOSE_PHASE: 'force-close-phase',
+  REOPEN_PHASE: 'reopen-phase',
+  SKIP_PHASE: 'skip-phase',
+  EXTEND_PHASE: 'extend-phase',
+  LOAD_TIMELINE: 'load-timeline',
+} as const;
+
+export type AutopilotCommand =
+  (typeof AUTOPILOT_COMMANDS)[keyof typeof AUTOPILOT_COMMANDS];
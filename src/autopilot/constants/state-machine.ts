@@ -0,0 +1,33 @@
+import { ChallengeStatus, PhaseState } from '../interfaces/autopilot.interface';
+
+export const CHALLENGE_STATUS_TRANSITIONS: Record<
+  ChallengeStatus,
+  readonly ChallengeStatus[]
+> = {
+  NEW: ['DRAFT', 'ACTIVE', 'CANCELLED', 'DELETED'],
+  DRAFT: ['ACTIVE', 'CANCELLED', 'DELETED'],
+  ACTIVE: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+  DELETED: [],
+} as const;
+
+export const PHASE_STATE_TRANSITIONS: Record<
+  'START' | 'END',
+  { from: readonly PhaseState[]; to: PhaseState }
+> = {
+  START: { from: ['NOT_STARTED'], to: 'OPEN' },
+  END: { from: ['OPEN'], to: 'CLOSED' },
+} as const;
+
+/** Applies instead of the START rule when a transition asks to reopen. */
+export const PHASE_REOPEN_TRANSITION: {
+  from: readonly PhaseState[];
+  to: PhaseState;
+} = { from: ['CLOSED'], to: 'OPEN' } as const;
+
+/** Applies instead of the START rule when a transition announces an extension. */
+export const PHASE_EXTEND_TRANSITION: {
+  from: readonly PhaseState[];
+  to: PhaseState;
+} = { from: ['OPEN'], to: 'OPEN' } as const;
@@ -0,0 +1,116 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AutopilotController } from './autopilot.controller';
+import { CommandRegistryService } from '../commands/command-registry.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { ChallengeStateService } from '../services/challenge-state.service';
+import { PhaseDependencyService } from '../services/phase-dependency.service';
+import { PartitionOwnershipService } from '../services/partition-ownership.service';
+import { ChallengeProjectionService } from '../services/challenge-projection.service';
+import { SlaMonitorService } from '../services/sla-monitor.service';
+import { AUTOPILOT_COMMANDS } from '../constants/commands';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { JwtStrategy } from '../../auth/strategies/jwt.strategy';
+import { createProducer, createTestingModule } from '../../testing/fixtures';
+
+describe('AutopilotController', () => {
+  const SECRET = 'spec-secret';
+  const CLOSE = '/autopilot/projects/1/phases/10/close';
+
+  let commands: jest.Mocked<Pick<CommandRegistryService, 'execute'>>;
+  let app: INestApplication<App>;
+  let token: string;
+
+  beforeEach(async () => {
+    commands = {
+      execute: jest.fn((payload) =>
+        Promise.resolve({
+          commandId: 'c-1',
+          command: payload.command,
+          status: 'SUCCEEDED' as const,
+          message: 'Done',
+          operator: payload.operator,
+        }),
+      ),
+    };
+    const scheduler: Pick<SchedulerService, 'getPause' | 'getScheduled'> = {
+      getPause: () => undefined,
+      getScheduled: () => [],
+    };
+    const ownership: Pick<PartitionOwnershipService, 'owns' | 'partitionFor'> =
+      { owns: () => true, partitionFor: () => 0 };
+    const module = await createTestingModule({
+      providers: [
+        JwtStrategy,
+        { provide: CommandRegistryService, useValue: commands },
+        { provide: SchedulerService, useValue: scheduler },
+        { provide: ChallengeStateService, useValue: { getPhases: () => [] } },
+        { provide: PhaseDependencyService, useValue: {} },
+        { provide: PartitionOwnershipService, useValue: ownership },
+        { provide: ChallengeProjectionService, useValue: {} },
+        { provide: SlaMonitorService, useValue: {} },
+        { provide: AutopilotProducer, useValue: createProducer() },
+      ],
+      config: { 'jwt.secret': SECRET },
+      controllers: [AutopilotController],
+    });
+    app = module.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({ transform: true, whitelist: true }),
+    );
+    await app.init();
+    token = new JwtService({ secret: SECRET }).sign({
+      sub: 1,
+      username: 'jane.doe',
+    });
+  });
+
+  afterEach(() => app.close());
+
+  it('acts on no phase without a valid bearer token', async () => {
+    const forged = new JwtService({ secret: 'other-secret' }).sign({
+      sub: 1,
+      username: 'jane.doe',
+    });
+
+    await request(app.getHttpServer())
+      .post(CLOSE)
+      .send({ reason: 'Dispute' })
+      .expect(401);
+    await request(app.getHttpServer())
+      .post(CLOSE)
+      .set('Authorization', `Bearer ${forged}`)
+      .send({ reason: 'Dispute' })
+      .expect(401);
+
+    expect(commands.execute).not.toHaveBeenCalled();
+  });
+
+  it('requires a reason', async () => {
+    await request(app.getHttpServer())
+      .post(CLOSE)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+      .expect(400);
+
+    expect(commands.execute).not.toHaveBeenCalled();
+  });
+
+  it('closes the phase as the authenticated operator', async () => {
+    await request(app.getHttpServer())
+      .post(CLOSE)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ reason: 'Dispute', operator: 'someone' })
+      .expect(201);
+
+    expect(commands.execute).toHaveBeenCalledWith({
+      command: AUTOPILOT_COMMANDS.FORCE_CLOSE_PHASE,
+      operator: 'jane.doe',
+      projectId: 1,
+      parameters: { phaseId: 10 },
+      reason: 'Dispute',
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  InternalServerErrorException,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { CommandRegistryService } from '../commands/command-registry.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { ChallengeStateService } from '../services/challenge-state.service';
+import { PhaseDependencyService } from '../services/phase-dependency.service';
+import { PartitionOwnershipService } from '../services/partition-ownership.service';
+import { ChallengeProjectionService } from '../services/challenge-projection.service';
+import { SlaMonitorService } from '../services/sla-monitor.service';
+import { AUTOPILOT_COMMANDS } from '../constants/commands';
+import {
+  ChallengeQueryDto,
+  ExtendPhaseDto,
+  PhaseActionDto,
+  ProjectControlDto,
+  ProjectTimelineDto,
+  ReopenPhaseDto,
+} from '../dto/autopilot.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { IValidatedUser } from '../../common/types/auth.types';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { CommandPayload } from '../../kafka/templates/autopilot.template';
+
+interface CommandOutcome {
+  commandId: string;
+  // Sent to the owning replica rather than run here
+  forwarded: boolean;
+}
+
+@Controller('autopilot')
+export class AutopilotController {
+  constructor(
+    private readonly commandRegistryService: CommandRegistryService,
+    private readonly schedulerService: SchedulerService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly phaseDependencyService: PhaseDependencyService,
+    private readonly ownershipService: PartitionOwnershipService,
+    private readonly challengeProjectionService: ChallengeProjectionService,
+    private readonly slaMonitorService: SlaMonitorService,
+    private readonly autopilotProducer: AutopilotProducer,
+  ) {}
+
+  @Post('projects/:projectId/pause')
+  @UseGuards(JwtAuthGuard)
+  async pauseProject(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Body() body: ProjectControlDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.PAUSE_PROJECT,
+      operator: user.username,
+      projectId,
+      reason: body.reason,
+    });
+    return this.reply('Project paused successfully', projectId, result);
+  }
+
+  @Post('projects/:projectId/resume')
+  @UseGuards(JwtAuthGuard)
+  async resumeProject(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Body() body: ProjectControlDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.RESUME_PROJECT,
+      operator: user.username,
+      projectId,
+      reason: body.reason,
+    });
+    return this.reply('Project resumed successfully', projectId, result);
+  }
+
+  @Get('projects/:projectId/status')
+  getStatus(@Param('projectId', ParseIntPipe) projectId: number) {
+    return {
+      success: true,
+      message: 'Project status retrieved successfully',
+      data: this.getProjectStatus(projectId),
+    };
+  }
+
+  @Put('projects/:projectId/timeline')
+  @UseGuards(JwtAuthGuard)
+  async setTimeline(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Body() body: ProjectTimelineDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    // Through the command so the change is audited with its operator
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.LOAD_TIMELINE,
+      operator: user.username,
+      projectId,
+      parameters: {
+        projectStatus: body.projectStatus,
+        phases: JSON.stringify(body.phases),
+      },
+    });
+    if (result.forwarded) {
+      return this.reply('Project timeline loaded', projectId, result);
+    }
+    return {
+      success: true,
+      message: 'Project timeline loaded successfully',
+      data: this.phaseDependencyService.getTimeline(projectId),
+    };
+  }
+
+  @Get('projects/:projectId/timeline')
+  getTimeline(@Param('projectId', ParseIntPipe) projectId: number) {
+    const timeline = this.phaseDependencyService.getTimeline(projectId);
+    if (!timeline) {
+      throw new NotFoundException(
+        `No timeline loaded for project ${projectId}`,
+      );
+    }
+    return {
+      success: true,
+      message: 'Project timeline retrieved successfully',
+      data: timeline,
+    };
+  }
+
+  @Get('challenges')
+  listChallenges(@Query() query: ChallengeQueryDto) {
+    return {
+      success: true,
+      message: 'Challenges retrieved successfully',
+      data: this.challengeProjectionService.query(query),
+    };
+  }
+
+  @Get('challenges/:challengeId')
+  getChallenge(@Param('challengeId', ParseIntPipe) challengeId: number) {
+    const challenge = this.challengeProjectionService.get(challengeId);
+    if (!challenge) {
+      throw new NotFoundException(`Challenge ${challengeId} not found`);
+    }
+    return {
+      success: true,
+      message: 'Challenge retrieved successfully',
+      data: challenge,
+    };
+  }
+
+  @Get('sla/violations')
+  getSlaViolations() {
+    return {
+      success: true,
+      message: 'SLA violations retrieved successfully',
+      data: this.slaMonitorService.getStatus(),
+    };
+  }
+
+  @Post('projects/:projectId/phases/:phaseId/close')
+  @UseGuards(JwtAuthGuard)
+  async closePhase(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Param('phaseId', ParseIntPipe) phaseId: number,
+    @Body() body: PhaseActionDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.FORCE_CLOSE_PHASE,
+      operator: user.username,
+      projectId,
+      parameters: { phaseId },
+      reason: body.reason,
+    });
+    return this.reply('Phase closed successfully', projectId, result);
+  }
+
+  @Post('projects/:projectId/phases/:phaseId/reopen')
+  @UseGuards(JwtAuthGuard)
+  async reopenPhase(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Param('phaseId', ParseIntPipe) phaseId: number,
+    @Body() body: ReopenPhaseDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.REOPEN_PHASE,
+      operator: user.username,
+      projectId,
+      parameters: {
+        phaseId,
+        ...(body.scheduledEndDate && {
+          scheduledEndDate: body.scheduledEndDate,
+        }),
+      },
+      reason: body.reason,
+    });
+    return this.reply('Phase reopened successfully', projectId, result);
+  }
+
+  @Post('projects/:projectId/phases/:phaseId/extend')
+  @UseGuards(JwtAuthGuard)
+  async extendPhase(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Param('phaseId', ParseIntPipe) phaseId: number,
+    @Body() body: ExtendPhaseDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: user.username,
+      projectId,
+      parameters: { phaseId, extendBy: body.extendBy },
+      reason: body.reason,
+    });
+    return this.reply('Phase extended successfully', projectId, result);
+  }
+
+  @Post('projects/:projectId/phases/:phaseId/skip')
+  @UseGuards(JwtAuthGuard)
+  async skipPhase(
+    @Param('projectId', ParseIntPipe) projectId: number,
+    @Param('phaseId', ParseIntPipe) phaseId: number,
+    @Body() body: PhaseActionDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    const result = await this.runCommand({
+      command: AUTOPILOT_COMMANDS.SKIP_PHASE,
+      operator: user.username,
+      projectId,
+      parameters: { phaseId },
+      reason: body.reason,
+    });
+    return this.reply('Phase skipped successfully', projectId, result);
+  }
+
+  /**
+   * Runs a command on the project's owner. Other replicas do not hold its
+   * state, so they pass the command on through the command topic instead.
+   */
+  private async runCommand(
+    payload: CommandPayload & { projectId: number },
+  ): Promise<CommandOutcome> {
+    if (!this.ownershipService.owns(payload.projectId)) {
+      const commandId = uuidv4();
+      await this.autopilotProducer.sendCommand({ ...payload, commandId });
+      return { commandId, forwarded: true };
+    }
+    const result = await this.commandRegistryService.execute(payload);
+    if (result.status === 'REJECTED') {
+      throw new ConflictException(result.message);
+    }
+    if (result.status === 'FAILED') {
+      throw new InternalServerErrorException(result.message);
+    }
+    return { commandId: result.commandId, forwarded: false };
+  }
+
+  private reply(done: string, projectId: number, outcome: CommandOutcome) {
+    return {
+      success: true,
+      message: outcome.forwarded
+        ? `Command ${outcome.commandId} forwarded to the replica that owns project ${projectId}`
+        : done,
+      data: this.getProjectStatus(projectId, outcome.commandId),
+    };
+  }
+
+  private getProjectStatus(projectId: number, commandId?: string) {
+    const pause = this.schedulerService.getPause(projectId);
+    return {
+      projectId,
+      paused: Boolean(pause),
+      pausedAt: pause?.pausedAt,
+      pausedBy: pause?.operator,
+      // Only the owning replica arms this project's timers
+      owned: this.ownershipService.owns(projectId),
+      partition: this.ownershipService.partitionFor(projectId),
+      commandId,
+      scheduledTransitions: this.schedulerService.getScheduled(projectId),
+      phases: this.challengeStateService.getPhases(projectId),
+    };
+  }
+}
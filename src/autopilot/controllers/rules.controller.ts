@@ -0,0 +1,29 @@
+import { Controller, Get, Post, UseGuards } from '@nestjs/common';
+import { RulesEngineService } from '../rules/rules-engine.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+
+@Controller('autopilot/rules')
+@UseGuards(JwtAuthGuard)
+export class RulesController {
+  constructor(private readonly rulesEngineService: RulesEngineService) {}
+
+  @Get()
+  getRuleSets() {
+    return {
+      success: true,
+      message: 'Rule sets retrieved successfully',
+      data: this.rulesEngineService.getRuleSets(),
+    };
+  }
+
+  // An invalid file is reported and leaves the current rules in place
+  @Post('reload')
+  async reload() {
+    await this.rulesEngineService.reload();
+    return {
+      success: true,
+      message: 'Rule sets reloaded successfully',
+      data: this.rulesEngineService.getRuleSets(),
+    };
+  }
+}
@@ -1,10 +1,33 @@
+import { Type } from 'class-transformer';
 import {
   IsString,
   IsNumber,
   IsEnum,
   IsObject,
   IsDateString,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  ValidateNested,
+  ArrayMinSize,
+  ValidateIf,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  Max,
 } from 'class-validator';
+import { ChallengeStatus, PhaseState } from '../interfaces/autopilot.interface';
+
+const CHALLENGE_STATUSES: ChallengeStatus[] = [
+  'NEW',
+  'DRAFT',
+  'ACTIVE',
+  'COMPLETED',
+  'CANCELLED',
+  'DELETED',
+];
+const PHASE_STATES: PhaseState[] = ['NOT_STARTED', 'OPEN', 'CLOSED'];
 
 export class PhaseTransitionDto {
   @IsDateString()
@@ -27,6 +50,22 @@ export class PhaseTransitionDto {
 
   @IsString()
   projectStatus: string;
+
+  @IsOptional()
+  @IsDateString()
+  scheduledEndDate?: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  reopen?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  extendedBy?: number;
 }
 
 export class ChallengeUpdateDto {
@@ -41,21 +80,227 @@ export class ChallengeUpdateDto {
 
   @IsString()
   operator: string;
+
+  @IsOptional()
+  @IsNumber()
+  phaseId?: number;
+
+  @IsOptional()
+  @IsNumber()
+  submissionCount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  reviewCount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  requiredReviewCount?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  workComplete?: boolean;
+
+  @IsOptional()
+  @IsString()
+  challengeType?: string;
 }
 
 export class CommandDto {
+  @IsString()
+  @IsNotEmpty()
+  command: string;
+
+  @IsString()
+  @IsNotEmpty()
+  operator: string;
+
+  @IsOptional()
+  @IsInt()
+  projectId?: number;
+
+  @IsOptional()
   @IsDateString()
-  date: string;
+  date?: string;
+
+  @IsOptional()
+  @IsString()
+  commandId?: string;
+
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ProjectControlDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class PhaseActionDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ReopenPhaseDto extends PhaseActionDto {
+  @IsOptional()
+  @IsDateString()
+  scheduledEndDate?: string;
+}
+
+export class ExtendPhaseDto extends PhaseActionDto {
+  // Milliseconds added to the phase's scheduled end
+  @IsInt()
+  @Min(1)
+  extendBy: number;
+}
+
+export class PhaseDefinitionDto {
+  @IsInt()
+  phaseId: number;
+
+  @IsString()
+  @IsNotEmpty()
+  phaseTypeName: string;
+
+  @IsInt()
+  @Min(0)
+  duration: number;
+
+  @IsOptional()
+  @IsInt()
+  predecessorId?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
 
+export class ProjectTimelineDto {
   @IsString()
-  commandId: string;
+  @IsNotEmpty()
+  projectStatus: string;
+
+  @ValidateNested({ each: true })
+  @ArrayMinSize(1)
+  @Type(() => PhaseDefinitionDto)
+  phases: PhaseDefinitionDto[];
+}
+
+export class SimulationEventDto {
+  @IsDateString()
+  at: string;
+
+  @IsEnum(['PHASE_TRANSITION', 'CHALLENGE_UPDATE', 'COMMAND'])
+  type: 'PHASE_TRANSITION' | 'CHALLENGE_UPDATE' | 'COMMAND';
 
+  @ValidateIf((event: SimulationEventDto) => event.type === 'PHASE_TRANSITION')
+  @IsInt()
+  phaseId?: number;
+
+  @ValidateIf((event: SimulationEventDto) => event.type === 'PHASE_TRANSITION')
+  @IsEnum(['START', 'END'])
+  state?: 'START' | 'END';
+
+  @IsOptional()
+  @IsDateString()
+  scheduledEndDate?: string;
+
+  @IsOptional()
+  @IsInt()
+  challengeId?: number;
+
+  @ValidateIf((event: SimulationEventDto) => event.type === 'CHALLENGE_UPDATE')
   @IsString()
-  type: string;
+  @IsNotEmpty()
+  status?: string;
+
+  @IsOptional()
+  @IsNumber()
+  submissionCount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  reviewCount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  requiredReviewCount?: number;
 
+  @IsOptional()
+  @IsBoolean()
+  workComplete?: boolean;
+
+  @IsOptional()
+  @IsString()
+  challengeType?: string;
+
+  @ValidateIf((event: SimulationEventDto) => event.type === 'COMMAND')
+  @IsString()
+  @IsNotEmpty()
+  command?: string;
+
+  @IsOptional()
   @IsObject()
-  parameters: Record<string, any>;
+  parameters?: Record<string, unknown>;
 
+  @IsOptional()
   @IsString()
-  operator: string;
+  operator?: string;
+}
+
+export class SimulationRequestDto extends ProjectTimelineDto {
+  @IsInt()
+  projectId: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SimulationEventDto)
+  events: SimulationEventDto[];
+
+  @IsOptional()
+  @IsDateString()
+  until?: string;
+}
+
+export class ChallengeQueryDto {
+  @IsOptional()
+  @IsIn(CHALLENGE_STATUSES)
+  status?: ChallengeStatus;
+
+  @IsOptional()
+  @IsString()
+  projectStatus?: string;
+
+  @IsOptional()
+  @IsString()
+  phaseTypeName?: string;
+
+  @IsOptional()
+  @IsIn(PHASE_STATES)
+  phaseState?: PhaseState;
+
+  @IsOptional()
+  @IsString()
+  operator?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit: number = 50;
 }
@@ -13,6 +13,14 @@ export interface PhaseTransitionPayload {
   operator: string;
   projectStatus: string;
   date?: string;
+  scheduledEndDate?: string;
+  // Why an operator triggered the transition
+  reason?: string;
+  // Moves a CLOSED phase back to OPEN; only meaningful with START
+  reopen?: boolean;
+  // Announces that an OPEN phase's deadline moved back by this many ms;
+  // only meaningful with START
+  extendedBy?: number;
 }
 
 export interface ChallengeUpdatePayload {
@@ -21,6 +29,16 @@ export interface ChallengeUpdatePayload {
   status: string;
   operator: string;
   date?: string;
+  // Phase the counts below refer to; omitted, they cover every open phase
+  phaseId?: number;
+  submissionCount?: number;
+  // Completed reviews against the number the phase needs
+  reviewCount?: number;
+  requiredReviewCount?: number;
+  // Upstream's word that the phase's work is done
+  workComplete?: boolean;
+  // Track or type, such as "Design" or "Development", used to pick rule sets
+  challengeType?: string;
 }
 
 export interface CommandPayload {
@@ -28,6 +46,45 @@ export interface CommandPayload {
   operator: string;
   projectId?: number;
   date?: string;
+  commandId?: string;
+  parameters?: Record<string, unknown>;
+  reason?: string;
+}
+
+export type CommandResultStatus = 'SUCCEEDED' | 'REJECTED' | 'FAILED';
+
+export interface CommandResultPayload {
+  commandId: string;
+  command: string;
+  status: CommandResultStatus;
+  message: string;
+  operator: string;
+  projectId?: number;
+  result?: string;
+  date?: string;
+}
+
+export type NotificationType =
+  | 'PHASE_STARTED'
+  | 'PHASE_ENDED'
+  | 'PHASE_REOPENED'
+  | 'DEADLINE_EXTENDED'
+  | 'COMMAND_REJECTED'
+  | 'RULE_TRIGGERED';
+
+export type NotificationAudience = 'ALL' | 'OPERATORS';
+
+export interface NotificationPayload {
+  type: NotificationType;
+  audience: NotificationAudience;
+  projectId: number;
+  phaseId?: number;
+  phaseTypeName?: string;
+  title: string;
+  message: string;
+  operator: string;
+  reason?: string;
+  date?: string;
 }
 
 export interface PhaseTransitionMessage extends BaseMessage {
@@ -41,3 +98,228 @@ export interface ChallengeUpdateMessage extends BaseMessage {
 export interface CommandMessage extends BaseMessage {
   payload: CommandPayload;
 }
+
+export interface CommandResultMessage extends BaseMessage {
+  payload: CommandResultPayload;
+}
+
+export interface NotificationMessage extends BaseMessage {
+  payload: NotificationPayload;
+}
+
+export type SlaAlertType = 'PHASE_OVERDUE' | 'PHASE_OVERDUE_RESOLVED';
+
+export interface SlaAlertPayload {
+  type: SlaAlertType;
+  projectId: number;
+  challengeId?: number;
+  phaseId: number;
+  phaseTypeName: string;
+  /** When the phase should have ended. */
+  expectedEnd: string;
+  /** Milliseconds past `expectedEnd` when the alert was raised. */
+  overdueBy: number;
+  operator: string;
+  reason?: string;
+  date?: string;
+}
+
+export interface SlaAlertMessage extends BaseMessage {
+  payload: SlaAlertPayload;
+}
+
+/** An open phase past its expected end by more than the grace period. */
+export interface SlaViolation {
+  projectId: number;
+  challengeId?: number;
+  phaseId: number;
+  phaseTypeName: string;
+  expectedEnd: string;
+  overdueBy: number;
+  detectedAt: string;
+}
+
+export interface ScheduledTransition {
+  projectId: number;
+  phaseId: number;
+  phaseTypeName: string;
+  state: 'START' | 'END';
+  projectStatus: string;
+  fireAt: string;
+  // Deadline carried by a scheduled START so its END can be scheduled in turn
+  scheduledEndDate?: string;
+  /** When the phase started; working time for an END is counted from here. */
+  startedAt?: string;
+  /** Requested deadline, set when the business calendar moved `fireAt`. */
+  originalFireAt?: string;
+  adjustmentReason?: string;
+}
+
+export interface DeadlineAdjustment {
+  deadline: string;
+  originalDeadline: string;
+  adjusted: boolean;
+  reason?: string;
+}
+
+export interface PhaseDefinition {
+  phaseId: number;
+  phaseTypeName: string;
+  /** Phase length in milliseconds. */
+  duration: number;
+  /** Phase whose END starts this one; omitted for the first phase. */
+  predecessorId?: number;
+  /** Delay in milliseconds between the predecessor's END and this START. */
+  offset?: number;
+}
+
+export interface ProjectTimeline {
+  projectId: number;
+  projectStatus: string;
+  phases: PhaseDefinition[];
+}
+
+export interface ProjectPause {
+  projectId: number;
+  pausedAt: string;
+  operator: string;
+}
+
+export interface ProjectResume extends ProjectPause {
+  resumedAt: string;
+  shiftedBy: number;
+}
+
+export type ChallengeStatus =
+  | 'NEW'
+  | 'DRAFT'
+  | 'ACTIVE'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'DELETED';
+
+export type PhaseState = 'NOT_STARTED' | 'OPEN' | 'CLOSED';
+
+export interface PhaseStateRecord {
+  projectId: number;
+  phaseId: number;
+  phaseTypeName: string;
+  projectStatus: string;
+  state: PhaseState;
+  updatedAt: string;
+}
+
+export interface ChallengePhaseView {
+  phaseId: number;
+  phaseTypeName: string;
+  state: PhaseState;
+  startedAt?: string;
+  endedAt?: string;
+  scheduledEndDate?: string;
+  lastOperator: string;
+  updatedAt: string;
+}
+
+/** What autopilot knows about a challenge, built from the events it accepted. */
+export interface ChallengeView {
+  challengeId: number;
+  projectId: number;
+  status?: ChallengeStatus;
+  challengeType?: string;
+  projectStatus?: string;
+  phases: ChallengePhaseView[];
+  lastOperator: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChallengeQuery {
+  status?: ChallengeStatus;
+  projectStatus?: string;
+  /** Challenges with at least one phase of this type... */
+  phaseTypeName?: string;
+  /** ...or, combined, of this type in this state. */
+  phaseState?: PhaseState;
+  operator?: string;
+  page: number;
+  limit: number;
+}
+
+export interface ChallengePage {
+  items: ChallengeView[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface StateChange<T> {
+  from: T | undefined;
+  to: T;
+  /** Set when the state was already `to`, as for a redelivered message. */
+  repeated?: boolean;
+}
+
+export interface SimulationEvent {
+  at: string;
+  type: 'PHASE_TRANSITION' | 'CHALLENGE_UPDATE' | 'COMMAND';
+  phaseId?: number;
+  state?: 'START' | 'END';
+  scheduledEndDate?: string;
+  challengeId?: number;
+  status?: string;
+  // Counts and signals a CHALLENGE_UPDATE carries, as on the Kafka topic
+  submissionCount?: number;
+  reviewCount?: number;
+  requiredReviewCount?: number;
+  workComplete?: boolean;
+  challengeType?: string;
+  command?: string;
+  parameters?: Record<string, unknown>;
+  operator?: string;
+}
+
+export interface SimulationRequest {
+  projectId: number;
+  projectStatus: string;
+  phases: PhaseDefinition[];
+  events: SimulationEvent[];
+  /** Virtual time after which pending transitions are left unfired. */
+  until?: string;
+}
+
+export interface SimulatedTransition {
+  at: string;
+  entity: 'PHASE' | 'CHALLENGE';
+  id: number;
+  from: string | undefined;
+  to: string;
+  source: 'event' | 'autopilot';
+}
+
+export interface SimulatedMessage {
+  at: string;
+  topic: string;
+  payload:
+    | PhaseTransitionPayload
+    | ChallengeUpdatePayload
+    | CommandPayload
+    | CommandResultPayload
+    | NotificationPayload
+    | SlaAlertPayload;
+}
+
+export interface SimulatedRejection {
+  at: string;
+  reason: string;
+  event: PhaseTransitionPayload | ChallengeUpdatePayload;
+}
+
+export interface SimulationResult {
+  projectId: number;
+  startedAt: string;
+  finishedAt: string;
+  transitions: SimulatedTransition[];
+  messages: SimulatedMessage[];
+  rejections: SimulatedRejection[];
+  pending: ScheduledTransition[];
+}
@@ -0,0 +1,10 @@
+import { ChallengeView } from '../interfaces/autopilot.interface';
+
+export const CHALLENGE_VIEW_REPOSITORY = 'CHALLENGE_VIEW_REPOSITORY';
+
+export interface ChallengeViewRepository {
+  save(view: ChallengeView): Promise<void>;
+  remove(challengeId: number): Promise<void>;
+  findAll(): Promise<ChallengeView[]>;
+  clear(): Promise<void>;
+}
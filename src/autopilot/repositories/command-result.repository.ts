@@ -0,0 +1,19 @@
+import { CommandResultPayload } from '../interfaces/autopilot.interface';
+
+export const COMMAND_RESULT_REPOSITORY = 'COMMAND_RESULT_REPOSITORY';
+
+export interface ExecutedCommand {
+  result: CommandResultPayload;
+  executedAt: string;
+}
+
+/**
+ * Results of executed commands by `commandId`, so a command delivered again
+ * is answered with its stored result instead of being run twice.
+ */
+export interface CommandResultRepository {
+  save(command: ExecutedCommand): Promise<void>;
+  find(commandId: string): Promise<ExecutedCommand | undefined>;
+  /** Forgets commands executed before `cutoff`. */
+  removeExecutedBefore(cutoff: string): Promise<void>;
+}
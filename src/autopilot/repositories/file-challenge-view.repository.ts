@@ -0,0 +1,36 @@
+import { ChallengeView } from '../interfaces/autopilot.interface';
+import { ChallengeViewRepository } from './challenge-view.repository';
+import { JsonFile } from '../../common/utils/json-file';
+
+type ChallengeViewFileContents = Record<string, ChallengeView>;
+
+/** Uncached, with per-challenge writes, so replicas can share the file. */
+export class FileChallengeViewRepository implements ChallengeViewRepository {
+  private readonly file: JsonFile<ChallengeViewFileContents>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  save(view: ChallengeView): Promise<void> {
+    return this.file.update((views = {}) => ({
+      ...views,
+      [view.challengeId]: structuredClone(view),
+    }));
+  }
+
+  remove(challengeId: number): Promise<void> {
+    return this.file.update((views = {}) => {
+      delete views[challengeId];
+      return views;
+    });
+  }
+
+  async findAll(): Promise<ChallengeView[]> {
+    return Object.values((await this.file.read()) ?? {});
+  }
+
+  clear(): Promise<void> {
+    return this.file.update(() => ({}));
+  }
+}
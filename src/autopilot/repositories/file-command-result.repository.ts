@@ -0,0 +1,47 @@
+import { JsonFile } from '../../common/utils/json-file';
+import { ExecutedCommand } from './command-result.repository';
+import { InMemoryCommandResultRepository } from './in-memory-command-result.repository';
+
+type CommandResultFileContents = ExecutedCommand[];
+
+/** Keeps results in memory and rewrites the whole file on each change. */
+export class FileCommandResultRepository extends InMemoryCommandResultRepository {
+  private readonly file: JsonFile<CommandResultFileContents>;
+  private loaded?: Promise<void>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile(filePath);
+  }
+
+  async save(command: ExecutedCommand): Promise<void> {
+    await this.load();
+    await super.save(command);
+    await this.persist();
+  }
+
+  async find(commandId: string): Promise<ExecutedCommand | undefined> {
+    await this.load();
+    return super.find(commandId);
+  }
+
+  async removeExecutedBefore(cutoff: string): Promise<void> {
+    await this.load();
+    if (this.prune(cutoff)) {
+      await this.persist();
+    }
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.file.read().then(async (contents) => {
+      for (const command of contents ?? []) {
+        await super.save(command);
+      }
+    });
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write(Array.from(this.commands.values()));
+  }
+}
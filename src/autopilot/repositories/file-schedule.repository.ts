@@ -0,0 +1,90 @@
+import {
+  ProjectPause,
+  ScheduledTransition,
+} from '../interfaces/autopilot.interface';
+import { ScheduleRepository } from './schedule.repository';
+import { LoggerService } from '../../common/services/logger.service';
+import { JsonFile } from '../../common/utils/json-file';
+
+interface ScheduleFileContents {
+  transitions: Record<string, ScheduledTransition>;
+  pauses: Record<string, ProjectPause>;
+}
+
+/**
+ * Keeps the schedule in a JSON file that replicas may share. Nothing is
+ * cached: reads see every replica's writes, and each write changes only its
+ * own entry under the file's lock.
+ */
+export class FileScheduleRepository implements ScheduleRepository {
+  private readonly logger = new LoggerService(FileScheduleRepository.name);
+  private readonly file: JsonFile<ScheduleFileContents>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  save(key: string, transition: ScheduledTransition): Promise<void> {
+    return this.change(({ transitions }) => {
+      transitions[key] = { ...transition };
+    });
+  }
+
+  remove(key: string): Promise<void> {
+    return this.change(({ transitions }) => {
+      delete transitions[key];
+    });
+  }
+
+  async findAll(): Promise<Map<string, ScheduledTransition>> {
+    return new Map(Object.entries((await this.load()).transitions));
+  }
+
+  savePause(pause: ProjectPause): Promise<void> {
+    return this.change(({ pauses }) => {
+      pauses[pause.projectId] = { ...pause };
+    });
+  }
+
+  removePause(projectId: number): Promise<void> {
+    return this.change(({ pauses }) => {
+      delete pauses[projectId];
+    });
+  }
+
+  async findPauses(): Promise<ProjectPause[]> {
+    return Object.values((await this.load()).pauses);
+  }
+
+  private async load(): Promise<ScheduleFileContents> {
+    try {
+      return this.withDefaults(await this.file.read());
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error('Failed to read schedule file', {
+        error: err.stack || err.message,
+        filePath: this.file.path,
+      });
+      throw err;
+    }
+  }
+
+  private change(
+    apply: (contents: ScheduleFileContents) => void,
+  ): Promise<void> {
+    return this.file.update((current) => {
+      const contents = this.withDefaults(current);
+      apply(contents);
+      return contents;
+    });
+  }
+
+  private withDefaults(
+    contents: Partial<ScheduleFileContents> | undefined,
+  ): ScheduleFileContents {
+    return {
+      transitions: contents?.transitions ?? {},
+      pauses: contents?.pauses ?? {},
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { ProjectTimeline } from '../interfaces/autopilot.interface';
+import { TimelineRepository } from './timeline.repository';
+import { JsonFile } from '../../common/utils/json-file';
+
+type TimelineFileContents = Record<string, ProjectTimeline>;
+
+/** Uncached, with per-project writes, so replicas can share the file. */
+export class FileTimelineRepository implements TimelineRepository {
+  private readonly file: JsonFile<TimelineFileContents>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  save(timeline: ProjectTimeline): Promise<void> {
+    return this.file.update((timelines = {}) => ({
+      ...timelines,
+      [timeline.projectId]: structuredClone(timeline),
+    }));
+  }
+
+  remove(projectId: number): Promise<void> {
+    return this.file.update((timelines = {}) => {
+      delete timelines[projectId];
+      return timelines;
+    });
+  }
+
+  async findAll(): Promise<ProjectTimeline[]> {
+    return Object.values((await this.file.read()) ?? {});
+  }
+}
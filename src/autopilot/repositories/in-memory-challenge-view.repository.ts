@@ -0,0 +1,27 @@
+import { ChallengeView } from '../interfaces/autopilot.interface';
+import { ChallengeViewRepository } from './challenge-view.repository';
+
+export class InMemoryChallengeViewRepository
+  implements ChallengeViewRepository
+{
+  private readonly views = new Map<number, ChallengeView>();
+
+  save(view: ChallengeView): Promise<void> {
+    this.views.set(view.challengeId, structuredClone(view));
+    return Promise.resolve();
+  }
+
+  remove(challengeId: number): Promise<void> {
+    this.views.delete(challengeId);
+    return Promise.resolve();
+  }
+
+  findAll(): Promise<ChallengeView[]> {
+    return Promise.resolve(Array.from(this.views.values()));
+  }
+
+  clear(): Promise<void> {
+    this.views.clear();
+    return Promise.resolve();
+  }
+}
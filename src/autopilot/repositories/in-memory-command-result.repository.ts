@@ -0,0 +1,37 @@
+import {
+  CommandResultRepository,
+  ExecutedCommand,
+} from './command-result.repository';
+
+export class InMemoryCommandResultRepository
+  implements CommandResultRepository
+{
+  protected readonly commands = new Map<string, ExecutedCommand>();
+
+  save(command: ExecutedCommand): Promise<void> {
+    this.commands.set(command.result.commandId, structuredClone(command));
+    return Promise.resolve();
+  }
+
+  find(commandId: string): Promise<ExecutedCommand | undefined> {
+    return Promise.resolve(this.commands.get(commandId));
+  }
+
+  removeExecutedBefore(cutoff: string): Promise<void> {
+    this.prune(cutoff);
+    return Promise.resolve();
+  }
+
+  /** Returns whether anything was removed. */
+  protected prune(cutoff: string): boolean {
+    const before = new Date(cutoff).getTime();
+    let removed = false;
+    for (const [commandId, command] of this.commands) {
+      if (new Date(command.executedAt).getTime() < before) {
+        this.commands.delete(commandId);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  ProjectPause,
+  ScheduledTransition,
+} from '../interfaces/autopilot.interface';
+import { ScheduleRepository } from './schedule.repository';
+
+export class InMemoryScheduleRepository implements ScheduleRepository {
+  private readonly transitions = new Map<string, ScheduledTransition>();
+  private readonly pauses = new Map<number, ProjectPause>();
+
+  save(key: string, transition: ScheduledTransition): Promise<void> {
+    this.transitions.set(key, { ...transition });
+    return Promise.resolve();
+  }
+
+  remove(key: string): Promise<void> {
+    this.transitions.delete(key);
+    return Promise.resolve();
+  }
+
+  findAll(): Promise<Map<string, ScheduledTransition>> {
+    return Promise.resolve(new Map(this.transitions));
+  }
+
+  savePause(pause: ProjectPause): Promise<void> {
+    this.pauses.set(pause.projectId, { ...pause });
+    return Promise.resolve();
+  }
+
+  removePause(projectId: number): Promise<void> {
+    this.pauses.delete(projectId);
+    return Promise.resolve();
+  }
+
+  findPauses(): Promise<ProjectPause[]> {
+    return Promise.resolve(Array.from(this.pauses.values()));
+  }
+}
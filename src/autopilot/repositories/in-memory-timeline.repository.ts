@@ -0,0 +1,20 @@
+import { ProjectTimeline } from '../interfaces/autopilot.interface';
+import { TimelineRepository } from './timeline.repository';
+
+export class InMemoryTimelineRepository implements TimelineRepository {
+  private readonly timelines = new Map<number, ProjectTimeline>();
+
+  save(timeline: ProjectTimeline): Promise<void> {
+    this.timelines.set(timeline.projectId, structuredClone(timeline));
+    return Promise.resolve();
+  }
+
+  remove(projectId: number): Promise<void> {
+    this.timelines.delete(projectId);
+    return Promise.resolve();
+  }
+
+  findAll(): Promise<ProjectTimeline[]> {
+    return Promise.resolve(Array.from(this.timelines.values()));
+  }
+}
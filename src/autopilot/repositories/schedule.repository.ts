@@ -0,0 +1,15 @@
+import {
+  ProjectPause,
+  ScheduledTransition,
+} from '../interfaces/autopilot.interface';
+
+export const SCHEDULE_REPOSITORY = 'SCHEDULE_REPOSITORY';
+
+export interface ScheduleRepository {
+  save(key: string, transition: ScheduledTransition): Promise<void>;
+  remove(key: string): Promise<void>;
+  findAll(): Promise<Map<string, ScheduledTransition>>;
+  savePause(pause: ProjectPause): Promise<void>;
+  removePause(projectId: number): Promise<void>;
+  findPauses(): Promise<ProjectPause[]>;
+}
@@ -0,0 +1,9 @@
+import { ProjectTimeline } from '../interfaces/autopilot.interface';
+
+export const TIMELINE_REPOSITORY = 'TIMELINE_REPOSITORY';
+
+export interface TimelineRepository {
+  save(timeline: ProjectTimeline): Promise<void>;
+  remove(projectId: number): Promise<void>;
+  findAll(): Promise<ProjectTimeline[]>;
+}
@@ -0,0 +1,63 @@
+import { RuleCondition, RuleContext } from './rule.interface';
+
+/** Value at a dotted path such as `phases.Review`, or undefined. */
+export function resolvePath(context: RuleContext, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export function matchesCondition(
+  condition: RuleCondition,
+  context: RuleContext,
+): boolean {
+  const actual = resolvePath(context, condition.path);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return (expected as unknown[]).includes(actual);
+    case 'notIn':
+      return !(expected as unknown[]).includes(actual);
+    case 'exists':
+      return (actual !== undefined && actual !== null) === expected;
+  }
+
+  // Ordering only makes sense between values of the same kind
+  if (typeof actual !== typeof expected) {
+    return false;
+  }
+  const [a, b] = [actual as number | string, expected as number | string];
+  switch (condition.op) {
+    case 'gt':
+      return a > b;
+    case 'gte':
+      return a >= b;
+    case 'lt':
+      return a < b;
+    case 'lte':
+      return a <= b;
+  }
+}
+
+/** Replaces each `{{path}}` with its value in the context. */
+export function renderTemplate(template: string, context: RuleContext): string {
+  return template.replace(/\{\{\s*([^}\s]+)\s*\}\}/g, (_, path: string) => {
+    const value = resolvePath(context, path);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value as string | number | boolean);
+  });
+}
@@ -0,0 +1,102 @@
+import * as Joi from 'joi';
+import { AUTOPILOT_COMMANDS } from '../constants/commands';
+import { RuleFile } from './rule.interface';
+
+const ORDERED_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+const conditionSchema = Joi.object({
+  path: Joi.string()
+    .pattern(/^(type|event|projectId|challenge|phase|phases|paused)(\.[^.]+)*$/)
+    .required(),
+  op: Joi.string()
+    .valid('eq', 'ne', 'in', 'notIn', ...ORDERED_OPERATORS, 'exists')
+    .required(),
+  value: Joi.when('op', {
+    switch: [
+      { is: Joi.valid('in', 'notIn'), then: Joi.array().required() },
+      {
+        is: Joi.valid(...ORDERED_OPERATORS),
+        then: Joi.alternatives(Joi.number(), Joi.string()).required(),
+      },
+      // Whether the path should be set at all
+      { is: 'exists', then: Joi.boolean().default(true) },
+    ],
+    otherwise: Joi.any().required(),
+  }),
+});
+
+const isPhaseAction = Joi.valid('start-phase', 'end-phase', 'extend-phase');
+
+const actionSchema = Joi.object({
+  type: Joi.string()
+    .valid('start-phase', 'end-phase', 'extend-phase', 'notify', 'command')
+    .required(),
+  phaseTypeName: Joi.when('type', {
+    is: isPhaseAction,
+    then: Joi.string(),
+    otherwise: Joi.forbidden(),
+  }),
+  extendBy: Joi.when('type', {
+    is: 'extend-phase',
+    then: Joi.number().integer().min(1).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  audience: Joi.when('type', {
+    is: 'notify',
+    then: Joi.string().valid('ALL', 'OPERATORS').default('OPERATORS'),
+    otherwise: Joi.forbidden(),
+  }),
+  title: Joi.when('type', {
+    is: 'notify',
+    then: Joi.string().required(),
+    otherwise: Joi.forbidden(),
+  }),
+  message: Joi.when('type', {
+    is: 'notify',
+    then: Joi.string().required(),
+    otherwise: Joi.forbidden(),
+  }),
+  command: Joi.when('type', {
+    is: 'command',
+    then: Joi.string()
+      .valid(...Object.values(AUTOPILOT_COMMANDS))
+      .required(),
+    otherwise: Joi.forbidden(),
+  }),
+  parameters: Joi.when('type', {
+    is: 'command',
+    then: Joi.object().pattern(
+      Joi.string(),
+      Joi.alternatives(Joi.string(), Joi.number(), Joi.boolean()).allow(null),
+    ),
+    otherwise: Joi.forbidden(),
+  }),
+  reason: Joi.when('type', {
+    is: 'notify',
+    then: Joi.forbidden(),
+    otherwise: Joi.string(),
+  }),
+});
+
+const ruleSchema = Joi.object({
+  name: Joi.string().required(),
+  on: Joi.array()
+    .items(Joi.string().valid('PHASE_TRANSITION', 'CHALLENGE_UPDATE'))
+    .single()
+    .min(1)
+    .required(),
+  when: Joi.array().items(conditionSchema).single().default([]),
+  action: actionSchema.required(),
+});
+
+const ruleSetSchema = Joi.object({
+  name: Joi.string().required(),
+  phaseTypeNames: Joi.array().items(Joi.string()).single().min(1),
+  challengeTypes: Joi.array().items(Joi.string()).single().min(1),
+  rules: Joi.array().items(ruleSchema).min(1).unique('name').required(),
+});
+
+/** Contents of one JSON or YAML rule file. */
+export const ruleFileSchema = Joi.object<RuleFile>({
+  ruleSets: Joi.array().items(ruleSetSchema).required(),
+});
@@ -0,0 +1,83 @@
+import {
+  NotificationAudience,
+  PhaseState,
+} from '../interfaces/autopilot.interface';
+
+export type RuleEvent = 'PHASE_TRANSITION' | 'CHALLENGE_UPDATE';
+
+export type ConditionOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'notIn'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists';
+
+export interface RuleCondition {
+  /** Dotted path into the rule context, such as `event.reviewCount`. */
+  path: string;
+  op: ConditionOperator;
+  value?: unknown;
+}
+
+interface PhaseActionTarget {
+  /** Phase of the project to act on; defaults to the event's phase. */
+  phaseTypeName?: string;
+  reason?: string;
+}
+
+export type RuleAction =
+  | ({ type: 'start-phase' | 'end-phase' } & PhaseActionTarget)
+  | ({ type: 'extend-phase'; extendBy: number } & PhaseActionTarget)
+  | {
+      type: 'notify';
+      audience: NotificationAudience;
+      title: string;
+      message: string;
+    }
+  | {
+      type: 'command';
+      command: string;
+      parameters?: Record<string, string | number | boolean | null>;
+      reason?: string;
+    };
+
+export interface Rule {
+  name: string;
+  on: RuleEvent[];
+  /** Every condition must hold; none means always. */
+  when: RuleCondition[];
+  action: RuleAction;
+}
+
+export interface RuleSet {
+  name: string;
+  /** Phase types the set applies to; omitted for every phase. */
+  phaseTypeNames?: string[];
+  /** Challenge types the set applies to; omitted for every challenge. */
+  challengeTypes?: string[];
+  rules: Rule[];
+  /** File the set was loaded from. */
+  source: string;
+}
+
+/** Contents of one rule file. */
+export interface RuleFile {
+  ruleSets: Omit<RuleSet, 'source'>[];
+}
+
+/** What conditions and message templates can refer to. */
+export interface RuleContext {
+  type: RuleEvent;
+  event: Record<string, unknown>;
+  projectId: number;
+  challenge: { challengeId?: number; status?: string; type?: string };
+  /** The phase the event is about, when there is one. */
+  phase?: { phaseId: number; phaseTypeName: string; state: PhaseState };
+  /** State of each of the project's known phases, by phase type. */
+  phases: Record<string, PhaseState>;
+  paused: boolean;
+}
@@ -0,0 +1,308 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RulesEngineService } from './rules-engine.service';
+import { ChallengeStateService } from '../services/challenge-state.service';
+import { ChallengeProjectionService } from '../services/challenge-projection.service';
+import { PhaseDependencyService } from '../services/phase-dependency.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { NotificationService } from '../services/notification.service';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { AuditService } from '../../audit/services/audit.service';
+import { FakeClock } from '../../common/services/clock.service';
+import { InvalidRuleSetException } from '../../common/exceptions/autopilot.exception';
+import { AUTOPILOT_COMMANDS } from '../constants/commands';
+import {
+  ChallengeUpdatePayload,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+import {
+  createClock,
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+} from '../../testing/fixtures';
+
+describe('RulesEngineService', () => {
+  const submissionEnded: PhaseTransitionPayload = {
+    projectId: 1,
+    phaseId: 10,
+    phaseTypeName: 'Submission',
+    state: 'END',
+    operator: 'autopilot',
+    projectStatus: 'ACTIVE',
+  };
+  const reviewed = (challengeType: string): ChallengeUpdatePayload => ({
+    projectId: 1,
+    challengeId: 100,
+    status: 'ACTIVE',
+    operator: 'upstream',
+    phaseId: 11,
+    reviewCount: 2,
+    challengeType,
+  });
+
+  let rulesPath: string;
+  let clock: FakeClock;
+  let challengeState: ChallengeStateService;
+  let scheduler: jest.Mocked<Pick<SchedulerService, 'isPaused'>>;
+  let notification: jest.Mocked<Pick<NotificationService, 'notifyRule'>>;
+  let producer: FakeProducer;
+  let audit: jest.SpiedFunction<AuditService['record']>;
+  let engine: RulesEngineService;
+
+  const writeRules = (file: string, contents: string) =>
+    fs.writeFile(path.join(rulesPath, file), contents, 'utf8');
+  const applied = (message: PhaseTransitionPayload) =>
+    challengeState.applyPhaseTransition(message);
+
+  beforeEach(async () => {
+    rulesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'rules-'));
+    clock = createClock();
+    scheduler = { isPaused: jest.fn().mockReturnValue(false) };
+    notification = { notifyRule: jest.fn().mockResolvedValue(undefined) };
+    producer = createProducer();
+    const module = await createTestingModule({
+      providers: [
+        RulesEngineService,
+        ChallengeStateService,
+        ChallengeProjectionService,
+        PhaseDependencyService,
+        { provide: SchedulerService, useValue: scheduler },
+        { provide: NotificationService, useValue: notification },
+        { provide: AutopilotProducer, useValue: producer },
+      ],
+      config: { 'autopilot.rules.path': rulesPath },
+      clock,
+    });
+    challengeState = module.get(ChallengeStateService);
+    audit = jest.spyOn(module.get(AuditService), 'record');
+    engine = module.get(RulesEngineService);
+    await module.get(PhaseDependencyService).setTimeline({
+      projectId: 1,
+      projectStatus: 'ACTIVE',
+      phases: [
+        { phaseId: 10, phaseTypeName: 'Submission', duration: 3600000 },
+        {
+          phaseId: 11,
+          phaseTypeName: 'Review',
+          duration: 3600000,
+          predecessorId: 10,
+        },
+      ],
+    });
+
+    await writeRules(
+      '10-chain.json',
+      JSON.stringify({
+        ruleSets: [
+          {
+            name: 'chain',
+            rules: [
+              {
+                name: 'open-review',
+                on: 'PHASE_TRANSITION',
+                when: [
+                  {
+                    path: 'phase.phaseTypeName',
+                    op: 'eq',
+                    value: 'Submission',
+                  },
+                  { path: 'phase.state', op: 'eq', value: 'CLOSED' },
+                ],
+                action: {
+                  type: 'start-phase',
+                  phaseTypeName: 'Review',
+                  reason: 'phase {{event.phaseId}} closed',
+                },
+              },
+            ],
+          },
+        ],
+      }),
+    );
+    await writeRules(
+      '20-dev.yaml',
+      [
+        'ruleSets:',
+        '  - name: dev-review',
+        '    challengeTypes: [Development]',
+        '    rules:',
+        '      - name: reviews-in',
+        '        on: CHALLENGE_UPDATE',
+        '        when:',
+        '          - { path: event.reviewCount, op: gte, value: 2 }',
+        '          - { path: paused, op: eq, value: false }',
+        '        action:',
+        '          type: notify',
+        '          title: "{{event.reviewCount}} reviews"',
+        '          message: "Challenge {{challenge.challengeId}} is {{challenge.type}}"',
+      ].join('\n'),
+    );
+    await engine.reload();
+  });
+
+  afterEach(() => fs.rm(rulesPath, { recursive: true, force: true }));
+
+  it('loads rule files in name order', () => {
+    const { ruleSets, loadedAt } = engine.getRuleSets();
+
+    expect(ruleSets.map(({ name, source }) => [name, source])).toEqual([
+      ['chain', path.join(rulesPath, '10-chain.json')],
+      ['dev-review', path.join(rulesPath, '20-dev.yaml')],
+    ]);
+    expect(ruleSets[1].rules[0].on).toEqual(['CHALLENGE_UPDATE']);
+    expect(loadedAt).toBe(clock.toISOString());
+  });
+
+  it('starts a phase only known from the timeline', async () => {
+    applied({ ...submissionEnded, state: 'START' });
+    applied(submissionEnded);
+
+    await engine.evaluate('PHASE_TRANSITION', submissionEnded);
+
+    expect(producer.sendPhaseTransition).toHaveBeenCalledWith({
+      projectId: 1,
+      phaseId: 11,
+      phaseTypeName: 'Review',
+      state: 'START',
+      operator: 'autopilot',
+      projectStatus: 'ACTIVE',
+      reason: 'Rule chain/open-review: phase 10 closed',
+    });
+    expect(audit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'RULE_FIRED',
+        phaseId: 11,
+        details: expect.objectContaining({
+          ruleSet: 'chain',
+          rule: 'open-review',
+        }) as unknown,
+      }),
+    );
+  });
+
+  it('ignores transitions the conditions do not match', async () => {
+    applied({ ...submissionEnded, state: 'START' });
+
+    await engine.evaluate('PHASE_TRANSITION', {
+      ...submissionEnded,
+      state: 'START',
+    });
+
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+    expect(audit).not.toHaveBeenCalled();
+  });
+
+  it('applies rule sets only to their challenge types', async () => {
+    await engine.evaluate('CHALLENGE_UPDATE', reviewed('Design'));
+    expect(notification.notifyRule).not.toHaveBeenCalled();
+
+    await engine.evaluate('CHALLENGE_UPDATE', reviewed('Development'));
+    expect(notification.notifyRule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        audience: 'OPERATORS',
+        projectId: 1,
+        title: '2 reviews',
+        message: 'Challenge 100 is Development',
+        reason: 'Rule dev-review/reviews-in',
+      }),
+    );
+  });
+
+  it('skips rules whose conditions fail, such as on a paused project', async () => {
+    scheduler.isPaused.mockReturnValue(true);
+
+    await engine.evaluate('CHALLENGE_UPDATE', reviewed('Development'));
+
+    expect(notification.notifyRule).not.toHaveBeenCalled();
+  });
+
+  it('sends phase extensions as commands', async () => {
+    // Single conditions and events need no list
+    applied({
+      ...submissionEnded,
+      phaseId: 11,
+      phaseTypeName: 'Review',
+      state: 'START',
+    });
+    await writeRules(
+      '20-dev.yaml',
+      [
+        'ruleSets:',
+        '  - name: dev-review',
+        '    rules:',
+        '      - name: more-time',
+        '        on: CHALLENGE_UPDATE',
+        '        when: { path: event.reviewCount, op: lt, value: 3 }',
+        '        action: { type: extend-phase, extendBy: 60000 }',
+      ].join('\n'),
+    );
+    await engine.reload();
+
+    await engine.evaluate('CHALLENGE_UPDATE', reviewed('Development'));
+
+    expect(producer.sendCommand).toHaveBeenCalledWith({
+      command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+      operator: 'autopilot',
+      projectId: 1,
+      parameters: { phaseId: 11, extendBy: 60000 },
+      reason: 'Rule dev-review/more-time',
+    });
+  });
+
+  it('does not record a rule whose action failed', async () => {
+    applied({ ...submissionEnded, state: 'START' });
+    applied(submissionEnded);
+    producer.sendPhaseTransition.mockRejectedValueOnce(new Error('offline'));
+
+    await expect(
+      engine.evaluate('PHASE_TRANSITION', submissionEnded),
+    ).resolves.toBeUndefined();
+    expect(audit).not.toHaveBeenCalled();
+  });
+
+  it('keeps the current rules when a file is invalid', async () => {
+    await writeRules(
+      '30-bad.json',
+      JSON.stringify({
+        ruleSets: [
+          {
+            name: 'bad',
+            rules: [
+              {
+                name: 'unknown-op',
+                on: 'PHASE_TRANSITION',
+                when: { path: 'phase.state', op: 'like', value: 'OPEN' },
+                action: { type: 'end-phase' },
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    await expect(engine.reload()).rejects.toBeInstanceOf(
+      InvalidRuleSetException,
+    );
+    expect(engine.getRuleSets().ruleSets).toHaveLength(2);
+  });
+
+  it('rejects rule sets defined twice', async () => {
+    await writeRules(
+      '30-again.yaml',
+      [
+        'ruleSets:',
+        '  - name: chain',
+        '    rules:',
+        '      - name: close',
+        '        on: PHASE_TRANSITION',
+        '        action: { type: end-phase }',
+      ].join('\n'),
+    );
+
+    await expect(engine.reload()).rejects.toThrow(
+      /chain in .*30-again\.yaml is already defined in .*10-chain\.json/,
+    );
+  });
+});
@@ -0,0 +1,346 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { AuditService } from '../../audit/services/audit.service';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { InvalidRuleSetException } from '../../common/exceptions/autopilot.exception';
+import { AUTOPILOT_COMMANDS } from '../constants/commands';
+import {
+  ChallengeUpdatePayload,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+import { ChallengeStateService } from '../services/challenge-state.service';
+import { ChallengeProjectionService } from '../services/challenge-projection.service';
+import { PhaseDependencyService } from '../services/phase-dependency.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { NotificationService } from '../services/notification.service';
+import { Rule, RuleContext, RuleEvent, RuleSet } from './rule.interface';
+import { ruleFileSchema } from './rule-set.schema';
+import { matchesCondition, renderTemplate } from './rule-conditions';
+
+const RULE_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+interface ActionPhase {
+  phaseId: number;
+  phaseTypeName: string;
+  projectStatus: string;
+}
+
+/**
+ * Runs the rule sets loaded from the JSON or YAML files at
+ * `autopilot.rules.path` against every accepted phase transition and
+ * challenge update. Rule sets are validated when the service starts, and
+ * `reload` swaps them without a restart.
+ */
+@Injectable()
+export class RulesEngineService implements OnModuleInit {
+  private readonly logger = new LoggerService(RulesEngineService.name);
+  private readonly rulesPath: string;
+  private ruleSets: RuleSet[] = [];
+  private loadedAt?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly challengeProjectionService: ChallengeProjectionService,
+    private readonly phaseDependencyService: PhaseDependencyService,
+    private readonly schedulerService: SchedulerService,
+    private readonly notificationService: NotificationService,
+    private readonly autopilotProducer: AutopilotProducer,
+    private readonly auditService: AuditService,
+    private readonly clock: Clock,
+  ) {
+    this.rulesPath = this.configService.get<string>(
+      'autopilot.rules.path',
+      'config/rules',
+    );
+  }
+
+  // An invalid rule set stops the service from starting
+  async onModuleInit(): Promise<void> {
+    await this.reload();
+  }
+
+  /**
+   * Reads every rule file again. The rules in use are only replaced when
+   * all of the files are valid.
+   */
+  async reload(): Promise<RuleSet[]> {
+    const ruleSets = await this.load();
+    this.ruleSets = ruleSets;
+    this.loadedAt = this.clock.toISOString();
+    this.logger.info('Rule sets loaded', {
+      path: this.rulesPath,
+      ruleSets: ruleSets.map(({ name, rules }) => ({
+        name,
+        rules: rules.length,
+      })),
+    });
+    return ruleSets;
+  }
+
+  getRuleSets(): { path: string; loadedAt?: string; ruleSets: RuleSet[] } {
+    return {
+      path: this.rulesPath,
+      loadedAt: this.loadedAt,
+      ruleSets: this.ruleSets,
+    };
+  }
+
+  /** Fires the actions of every matching rule, in file and rule order. */
+  async evaluate(
+    type: RuleEvent,
+    message: PhaseTransitionPayload | ChallengeUpdatePayload,
+  ): Promise<void> {
+    if (!this.ruleSets.length) {
+      return;
+    }
+    const context = this.buildContext(type, message);
+    for (const ruleSet of this.ruleSets) {
+      if (!this.selects(ruleSet, context)) {
+        continue;
+      }
+      for (const rule of ruleSet.rules) {
+        if (
+          rule.on.includes(type) &&
+          rule.when.every((condition) => matchesCondition(condition, context))
+        ) {
+          await this.fire(ruleSet, rule, context);
+        }
+      }
+    }
+  }
+
+  private selects(ruleSet: RuleSet, context: RuleContext): boolean {
+    return (
+      (!ruleSet.phaseTypeNames ||
+        (context.phase !== undefined &&
+          ruleSet.phaseTypeNames.includes(context.phase.phaseTypeName))) &&
+      (!ruleSet.challengeTypes ||
+        (context.challenge.type !== undefined &&
+          ruleSet.challengeTypes.includes(context.challenge.type)))
+    );
+  }
+
+  private buildContext(
+    type: RuleEvent,
+    message: PhaseTransitionPayload | ChallengeUpdatePayload,
+  ): RuleContext {
+    const { projectId, phaseId } = message;
+    const phases = this.challengeStateService.getPhases(projectId);
+    const phase = phases.find((record) => record.phaseId === phaseId);
+    const challenge = this.challengeProjectionService.findByProject(projectId);
+    const update =
+      type === 'CHALLENGE_UPDATE'
+        ? (message as ChallengeUpdatePayload)
+        : undefined;
+
+    return {
+      type,
+      event: { ...message },
+      projectId,
+      challenge: {
+        challengeId: update?.challengeId ?? challenge?.challengeId,
+        status: challenge?.status,
+        type: update?.challengeType ?? challenge?.challengeType,
+      },
+      phase: phase && {
+        phaseId: phase.phaseId,
+        phaseTypeName: phase.phaseTypeName,
+        state: phase.state,
+      },
+      phases: Object.fromEntries(
+        phases.map((record) => [record.phaseTypeName, record.state]),
+      ),
+      paused: this.schedulerService.isPaused(projectId),
+    };
+  }
+
+  private async fire(
+    ruleSet: RuleSet,
+    rule: Rule,
+    context: RuleContext,
+  ): Promise<void> {
+    const { action } = rule;
+    const operator = CONFIG.AUTOPILOT.DEFAULT_OPERATOR;
+    const fired = `Rule ${ruleSet.name}/${rule.name}`;
+    const reason =
+      'reason' in action && action.reason
+        ? `${fired}: ${renderTemplate(action.reason, context)}`
+        : fired;
+    let phaseId = context.phase?.phaseId;
+
+    try {
+      switch (action.type) {
+        case 'start-phase':
+        case 'end-phase':
+        case 'extend-phase': {
+          const phase = this.findPhase(context, action.phaseTypeName);
+          if (!phase) {
+            this.logger.warn(`${fired} has no phase to act on`, {
+              projectId: context.projectId,
+              phaseTypeName: action.phaseTypeName,
+            });
+            return;
+          }
+          phaseId = phase.phaseId;
+          if (action.type === 'extend-phase') {
+            await this.autopilotProducer.sendCommand({
+              command: AUTOPILOT_COMMANDS.EXTEND_PHASE,
+              operator,
+              projectId: context.projectId,
+              parameters: { phaseId, extendBy: action.extendBy },
+              reason,
+            });
+          } else {
+            await this.autopilotProducer.sendPhaseTransition({
+              projectId: context.projectId,
+              phaseId,
+              phaseTypeName: phase.phaseTypeName,
+              state: action.type === 'start-phase' ? 'START' : 'END',
+              operator,
+              projectStatus: phase.projectStatus,
+              reason,
+            });
+          }
+          break;
+        }
+        case 'notify':
+          await this.notificationService.notifyRule({
+            audience: action.audience,
+            projectId: context.projectId,
+            phaseId,
+            phaseTypeName: context.phase?.phaseTypeName,
+            title: renderTemplate(action.title, context),
+            message: renderTemplate(action.message, context),
+            reason: fired,
+          });
+          break;
+        case 'command':
+          await this.autopilotProducer.sendCommand({
+            command: action.command,
+            operator,
+            projectId: context.projectId,
+            parameters: action.parameters,
+            reason,
+          });
+          break;
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`${fired} failed`, {
+        error: err.stack || err.message,
+        projectId: context.projectId,
+        action: action.type,
+      });
+      return;
+    }
+
+    await this.auditService.record({
+      type: 'RULE_FIRED',
+      projectId: context.projectId,
+      phaseId,
+      operator,
+      reason,
+      details: { ruleSet: ruleSet.name, rule: rule.name, action },
+    });
+  }
+
+  /** The named phase of the project, else the event's own phase. */
+  private findPhase(
+    context: RuleContext,
+    phaseTypeName?: string,
+  ): ActionPhase | undefined {
+    const known = this.challengeStateService
+      .getPhases(context.projectId)
+      .find((phase) =>
+        phaseTypeName === undefined
+          ? phase.phaseId === context.phase?.phaseId
+          : phase.phaseTypeName === phaseTypeName,
+      );
+    if (known || phaseTypeName === undefined) {
+      return known;
+    }
+    // Phases that have not started yet are only known from the timeline
+    const timeline = this.phaseDependencyService.getTimeline(context.projectId);
+    const planned = timeline?.phases.find(
+      (phase) => phase.phaseTypeName === phaseTypeName,
+    );
+    return (
+      planned && {
+        phaseId: planned.phaseId,
+        phaseTypeName: planned.phaseTypeName,
+        projectStatus: timeline!.projectStatus,
+      }
+    );
+  }
+
+  private async load(): Promise<RuleSet[]> {
+    let files: string[];
+    try {
+      const stats = await fs.stat(this.rulesPath);
+      files = stats.isDirectory()
+        ? (await fs.readdir(this.rulesPath))
+            .filter((file) => RULE_FILE_EXTENSIONS.includes(path.extname(file)))
+            .sort()
+            .map((file) => path.join(this.rulesPath, file))
+        : [this.rulesPath];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.info('No rule sets configured', { path: this.rulesPath });
+        return [];
+      }
+      throw error;
+    }
+
+    const ruleSets: RuleSet[] = [];
+    for (const file of files) {
+      for (const ruleSet of await this.loadFile(file)) {
+        if (ruleSets.some(({ name }) => name === ruleSet.name)) {
+          throw new InvalidRuleSetException(
+            `${ruleSet.name} in ${file} is already defined in ${ruleSets.find(({ name }) => name === ruleSet.name)!.source}`,
+            { file, ruleSet: ruleSet.name },
+          );
+        }
+        ruleSets.push(ruleSet);
+      }
+    }
+    return ruleSets;
+  }
+
+  private async loadFile(file: string): Promise<RuleSet[]> {
+    let contents: unknown;
+    try {
+      const text = await fs.readFile(file, 'utf8');
+      contents =
+        path.extname(file) === '.json' ? JSON.parse(text) : yaml.load(text);
+    } catch (error) {
+      throw new InvalidRuleSetException(
+        `${file} could not be read: ${(error as Error).message}`,
+        { file },
+      );
+    }
+
+    const validation = ruleFileSchema.validate(contents, {
+      abortEarly: false,
+    });
+    if (validation.error) {
+      throw new InvalidRuleSetException(
+        `${file}: ${validation.error.message}`,
+        {
+          file,
+          errors: validation.error.details.map(({ message }) => message),
+        },
+      );
+    }
+    return validation.value.ruleSets.map((ruleSet) => ({
+      ...ruleSet,
+      source: file,
+    }));
+  }
+}
@@ -0,0 +1,137 @@
+import { AutopilotService } from './autopilot.service';
+import { ChallengeStateService } from './challenge-state.service';
+import { SchedulerService } from './scheduler.service';
+import { PhaseDependencyService } from './phase-dependency.service';
+import { NotificationService } from './notification.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { RulesEngineService } from '../rules/rules-engine.service';
+import { CommandRegistryService } from '../commands/command-registry.service';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { AuditService } from '../../audit/services/audit.service';
+import { IllegalTransitionException } from '../../common/exceptions/autopilot.exception';
+import {
+  ChallengeUpdatePayload,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+import {
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+  NOW,
+} from '../../testing/fixtures';
+
+describe('AutopilotService', () => {
+  const start: PhaseTransitionPayload = {
+    projectId: 1,
+    phaseId: 10,
+    phaseTypeName: 'Submission',
+    state: 'START',
+    operator: 'autopilot',
+    projectStatus: 'ACTIVE',
+    date: NOW,
+    scheduledEndDate: '2025-01-07T10:00:00.000Z',
+  };
+
+  let challengeState: ChallengeStateService;
+  let scheduler: jest.Mocked<
+    Pick<SchedulerService, 'schedule' | 'cancel' | 'isPaused'>
+  >;
+  let producer: FakeProducer;
+  let audit: jest.SpiedFunction<AuditService['record']>;
+  let service: AutopilotService;
+
+  beforeEach(async () => {
+    scheduler = {
+      schedule: jest.fn().mockResolvedValue(undefined),
+      cancel: jest.fn().mockResolvedValue([]),
+      isPaused: jest.fn().mockReturnValue(false),
+    };
+    producer = createProducer();
+    const module = await createTestingModule({
+      providers: [
+        AutopilotService,
+        ChallengeStateService,
+        PhaseDependencyService,
+        NotificationService,
+        ChallengeProjectionService,
+        { provide: SchedulerService, useValue: scheduler },
+        { provide: CommandRegistryService, useValue: {} },
+        { provide: AutopilotProducer, useValue: producer },
+        {
+          provide: RulesEngineService,
+          useValue: { evaluate: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    });
+    challengeState = module.get(ChallengeStateService);
+    audit = jest.spyOn(module.get(AuditService), 'record');
+    service = module.get(AutopilotService);
+  });
+
+  it('finishes a transition retried after a later step failed', async () => {
+    scheduler.schedule.mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(service.handlePhaseTransition(start)).rejects.toThrow(
+      'disk full',
+    );
+    expect(challengeState.getPhaseState(1, 10)).toBe('OPEN');
+
+    await service.handlePhaseTransition(start);
+
+    expect(scheduler.schedule).toHaveBeenCalledTimes(2);
+    expect(scheduler.schedule).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        phaseId: 10,
+        state: 'END',
+        fireAt: start.scheduledEndDate,
+      }),
+    );
+    const stateChanges = audit.mock.calls.filter(
+      ([entry]) => entry.type === 'STATE_CHANGED',
+    );
+    expect(stateChanges).toHaveLength(1);
+  });
+
+  it('still rejects a START for a closed phase', async () => {
+    await service.handlePhaseTransition(start);
+    await service.handlePhaseTransition({ ...start, state: 'END' });
+
+    await expect(service.handlePhaseTransition(start)).rejects.toBeInstanceOf(
+      IllegalTransitionException,
+    );
+    expect(audit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'TRANSITION_REJECTED' }),
+    );
+  });
+
+  it('closes a finished review early unless the project is paused', async () => {
+    const review: PhaseTransitionPayload = {
+      ...start,
+      phaseId: 11,
+      phaseTypeName: 'Review',
+    };
+    const reviewed: ChallengeUpdatePayload = {
+      projectId: 1,
+      challengeId: 100,
+      status: 'Active',
+      operator: 'upstream',
+      reviewCount: 2,
+      requiredReviewCount: 2,
+    };
+    await service.handlePhaseTransition(review);
+
+    scheduler.isPaused.mockReturnValueOnce(true);
+    await service.handleChallengeUpdate(reviewed);
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+
+    await service.handleChallengeUpdate(reviewed);
+    expect(producer.sendPhaseTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 1,
+        phaseId: 11,
+        state: 'END',
+        reason: 'All 2 required reviews are in',
+      }),
+    );
+  });
+});
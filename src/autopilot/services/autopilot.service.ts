@@ -4,26 +4,157 @@ import {
   ChallengeUpdatePayload,
   CommandPayload,
 } from '../interfaces/autopilot.interface';
+import { SchedulerService } from './scheduler.service';
+import { ChallengeStateService } from './challenge-state.service';
+import { PhaseDependencyService } from './phase-dependency.service';
+import { NotificationService } from './notification.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { RulesEngineService } from '../rules/rules-engine.service';
+import { CommandRegistryService } from '../commands/command-registry.service';
+import { planFollowUpTransitions } from '../utils/transition-planner';
+import { planEarlyClosures } from '../utils/early-closure';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { CONFIG } from '../../common/constants/config.constants';
+import { Clock } from '../../common/services/clock.service';
+import { IllegalTransitionException } from '../../common/exceptions/autopilot.exception';
+import { AuditService } from '../../audit/services/audit.service';
 
 @Injectable()
 export class AutopilotService {
   private readonly logger = new Logger(AutopilotService.name);
 
-  handlePhaseTransition(message: PhaseTransitionPayload): Promise<void> {
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly commandRegistryService: CommandRegistryService,
+    private readonly phaseDependencyService: PhaseDependencyService,
+    private readonly clock: Clock,
+    private readonly auditService: AuditService,
+    private readonly autopilotProducer: AutopilotProducer,
+    private readonly notificationService: NotificationService,
+    private readonly challengeProjectionService: ChallengeProjectionService,
+    private readonly rulesEngineService: RulesEngineService,
+  ) {}
+
+  async handlePhaseTransition(message: PhaseTransitionPayload): Promise<void> {
     this.logger.log(`Handling phase transition: ${JSON.stringify(message)}`);
-    // Implement business logic for phase transition
-    return Promise.resolve();
+    const change = await this.audited(message, () =>
+      this.challengeStateService.applyPhaseTransition(message),
+    );
+    // A repeat still runs every step below, which are safe to run again
+    if (!change.repeated) {
+      await this.auditService.record({
+        type: 'STATE_CHANGED',
+        projectId: message.projectId,
+        phaseId: message.phaseId,
+        operator: message.operator,
+        before: change.from,
+        after: change.to,
+        reason: `${message.state} received for phase ${message.phaseTypeName}`,
+      });
+    }
+    await this.challengeProjectionService.applyPhaseTransition(message, change);
+    await this.notificationService.notifyPhaseTransition(message);
+    await this.rulesEngineService.evaluate('PHASE_TRANSITION', message);
+
+    if (message.extendedBy) {
+      // The extend-phase command already moved this phase's schedule
+      return;
+    }
+
+    if (message.state === 'END') {
+      // The phase was closed, either by us or externally; nothing left to fire
+      await this.schedulerService.cancel(
+        message.projectId,
+        message.phaseId,
+        message.operator,
+      );
+    }
+
+    const followUps = planFollowUpTransitions(
+      message,
+      this.phaseDependencyService.getDependents(
+        message.projectId,
+        message.phaseId,
+      ),
+      (phaseId) =>
+        this.challengeStateService.getPhaseState(message.projectId, phaseId),
+      this.clock.date(),
+    );
+    for (const transition of followUps) {
+      await this.schedulerService.schedule(transition);
+    }
   }
 
-  handleChallengeUpdate(message: ChallengeUpdatePayload): Promise<void> {
+  async handleChallengeUpdate(message: ChallengeUpdatePayload): Promise<void> {
     this.logger.log(`Handling challenge update: ${JSON.stringify(message)}`);
-    // Implement business logic for challenge update
-    return Promise.resolve();
+    const change = await this.audited(message, () =>
+      this.challengeStateService.applyChallengeUpdate(message),
+    );
+    if (change.from !== change.to) {
+      await this.auditService.record({
+        type: 'STATE_CHANGED',
+        projectId: message.projectId,
+        operator: message.operator,
+        before: change.from,
+        after: change.to,
+        reason: `Challenge ${message.challengeId} updated to "${message.status}"`,
+      });
+    }
+    await this.challengeProjectionService.applyChallengeUpdate(message, change);
+    await this.rulesEngineService.evaluate('CHALLENGE_UPDATE', message);
+
+    // Held projects wait for their operator, even once the work is done
+    if (
+      change.to !== 'ACTIVE' ||
+      this.schedulerService.isPaused(message.projectId)
+    ) {
+      return;
+    }
+    const closures = planEarlyClosures(
+      message,
+      this.challengeStateService.getPhases(message.projectId),
+    );
+    for (const { phase, reason } of closures) {
+      this.logger.log(
+        `Closing phase ${phase.phaseId} of project ${phase.projectId} early: ${reason}`,
+      );
+      await this.autopilotProducer.sendPhaseTransition({
+        projectId: phase.projectId,
+        phaseId: phase.phaseId,
+        phaseTypeName: phase.phaseTypeName,
+        state: 'END',
+        operator: CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+        projectStatus: phase.projectStatus,
+        reason,
+      });
+    }
   }
 
-  handleCommand(message: CommandPayload): Promise<void> {
+  async handleCommand(message: CommandPayload): Promise<void> {
     this.logger.log(`Handling command: ${JSON.stringify(message)}`);
-    // Implement business logic for command
-    return Promise.resolve();
+    await this.commandRegistryService.execute(message);
+  }
+
+  /** Applies a state change, recording it in the audit log if rejected. */
+  private async audited<T>(
+    message: PhaseTransitionPayload | ChallengeUpdatePayload,
+    apply: () => T,
+  ): Promise<T> {
+    try {
+      return apply();
+    } catch (error) {
+      if (error instanceof IllegalTransitionException) {
+        await this.auditService.record({
+          type: 'TRANSITION_REJECTED',
+          projectId: message.projectId,
+          phaseId: 'phaseId' in message ? message.phaseId : undefined,
+          operator: message.operator,
+          reason: error.message,
+          details: { event: message },
+        });
+      }
+      throw error;
+    }
   }
 }
@@ -0,0 +1,131 @@
+import { BusinessCalendarService } from './business-calendar.service';
+import { createConfig } from '../../testing/fixtures';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('BusinessCalendarService', () => {
+  function createCalendar(
+    settings: Record<string, unknown> = {},
+  ): BusinessCalendarService {
+    return new BusinessCalendarService(
+      createConfig({ 'autopilot.calendar.enabled': true, ...settings }),
+    );
+  }
+
+  const adjust = (
+    calendar: BusinessCalendarService,
+    deadline: string,
+    phaseTypeName = 'Submission',
+    startedAt?: string,
+  ) =>
+    calendar.adjustDeadline(
+      new Date(deadline),
+      phaseTypeName,
+      startedAt ? new Date(startedAt) : undefined,
+    );
+
+  it('leaves deadlines alone while disabled', () => {
+    const calendar = createCalendar({ 'autopilot.calendar.enabled': false });
+
+    expect(adjust(calendar, '2025-01-11T12:00:00.000Z')).toEqual({
+      deadline: '2025-01-11T12:00:00.000Z',
+      originalDeadline: '2025-01-11T12:00:00.000Z',
+      adjusted: false,
+    });
+  });
+
+  it('keeps deadlines within working hours, closing time included', () => {
+    const calendar = createCalendar();
+
+    expect(adjust(calendar, '2025-01-06T12:00:00.000Z').adjusted).toBe(false);
+    expect(adjust(calendar, '2025-01-06T17:00:00.000Z').adjusted).toBe(false);
+  });
+
+  it('rolls evenings and weekends forward to the next opening', () => {
+    const calendar = createCalendar();
+
+    expect(adjust(calendar, '2025-01-10T18:00:00.000Z')).toEqual({
+      deadline: '2025-01-13T09:00:00.000Z',
+      originalDeadline: '2025-01-10T18:00:00.000Z',
+      adjusted: true,
+      reason:
+        '18:00 is outside working hours 09:00-17:00 UTC; rolled forward to the next business time',
+    });
+    expect(adjust(calendar, '2025-01-11T12:00:00.000Z')).toEqual(
+      expect.objectContaining({
+        deadline: '2025-01-13T09:00:00.000Z',
+        reason:
+          'Saturday is not a working day; rolled forward to the next business time',
+      }),
+    );
+  });
+
+  it('skips holidays', () => {
+    const calendar = createCalendar({
+      'autopilot.calendar.holidays': ['2025-01-13'],
+    });
+
+    expect(adjust(calendar, '2025-01-13T12:00:00.000Z')).toEqual(
+      expect.objectContaining({
+        deadline: '2025-01-14T09:00:00.000Z',
+        reason:
+          '2025-01-13 is a holiday; rolled forward to the next business time',
+      }),
+    );
+  });
+
+  it('lengthens phases to their minimum working hours', () => {
+    const calendar = createCalendar({
+      'autopilot.calendar.minWorkingHours': { Review: 8 },
+    });
+
+    const adjustment = adjust(
+      calendar,
+      '2025-01-06T17:00:00.000Z',
+      'Review',
+      '2025-01-06T16:00:00.000Z',
+    );
+    expect(adjustment.deadline).toBe('2025-01-07T16:00:00.000Z');
+    expect(adjustment.reason).toBe(
+      'Review needs 8 working hours but only 1 fell before the deadline',
+    );
+    expect(
+      adjust(calendar, '2025-01-06T17:00:00.000Z', 'Submission').adjusted,
+    ).toBe(false);
+  });
+
+  it('counts and adds working time across weekends', () => {
+    const calendar = createCalendar();
+    const friday = new Date('2025-01-10T16:00:00.000Z').getTime();
+
+    expect(
+      calendar.workingTimeBetween(
+        friday,
+        new Date('2025-01-13T10:00:00.000Z').getTime(),
+      ),
+    ).toBe(2 * HOUR);
+    expect(new Date(calendar.addWorkingTime(friday, 3 * HOUR))).toEqual(
+      new Date('2025-01-13T11:00:00.000Z'),
+    );
+  });
+
+  it('reads working hours in its timezone across daylight saving changes', () => {
+    const calendar = createCalendar({
+      'autopilot.calendar.timezone': 'Europe/London',
+    });
+
+    // 09:00 in London is 09:00 UTC in winter and 08:00 UTC in summer
+    expect(adjust(calendar, '2025-03-28T18:00:00.000Z').deadline).toBe(
+      '2025-03-31T08:00:00.000Z',
+    );
+    expect(adjust(calendar, '2025-01-10T18:00:00.000Z').deadline).toBe(
+      '2025-01-13T09:00:00.000Z',
+    );
+  });
+
+  it('refuses working hours that close before they open', () => {
+    expect(() =>
+      createCalendar({ 'autopilot.calendar.workingHours': '17:00-09:00' }),
+    ).toThrow('Working hours must open before they close, got 17:00-09:00');
+  });
+});
@@ -0,0 +1,301 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '../../common/services/logger.service';
+import { DeadlineAdjustment } from '../interfaces/autopilot.interface';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// Searching further than this for business time means the calendar is unusable
+const MAX_DAYS_AHEAD = 366;
+const WEEKDAYS = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+];
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface LocalTime extends LocalDate {
+  /** ISO day of week, 1 (Monday) to 7 (Sunday). */
+  weekday: number;
+  /** Minutes since local midnight. */
+  minutes: number;
+}
+
+/**
+ * Working days, working hours and holidays of the timezone phase deadlines
+ * are kept in. With the calendar enabled, END deadlines that fall outside
+ * business time roll forward to the next opening, and phase types with a
+ * minimum number of working hours are lengthened to get them.
+ */
+@Injectable()
+export class BusinessCalendarService {
+  private readonly logger = new LoggerService(BusinessCalendarService.name);
+  private readonly enabled: boolean;
+  private readonly timezone: string;
+  private readonly workingDays: Set<number>;
+  private readonly opensAt: number;
+  private readonly closesAt: number;
+  private readonly holidays: Set<string>;
+  private readonly minWorkingHours: Record<string, number>;
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled = this.configService.get<boolean>(
+      'autopilot.calendar.enabled',
+      false,
+    );
+    this.timezone = this.configService.get<string>(
+      'autopilot.calendar.timezone',
+      'UTC',
+    );
+    this.workingDays = new Set(
+      this.configService.get<number[]>(
+        'autopilot.calendar.workingDays',
+        [1, 2, 3, 4, 5],
+      ),
+    );
+    const [opensAt, closesAt] = this.configService
+      .get<string>('autopilot.calendar.workingHours', '09:00-17:00')
+      .split('-')
+      .map((time) => {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+      });
+    this.opensAt = opensAt;
+    this.closesAt = closesAt;
+    this.holidays = new Set(
+      this.configService.get<string[]>('autopilot.calendar.holidays', []),
+    );
+    this.minWorkingHours = this.configService.get<Record<string, number>>(
+      'autopilot.calendar.minWorkingHours',
+      {},
+    );
+
+    if (this.opensAt >= this.closesAt) {
+      throw new Error(
+        `Working hours must open before they close, got ${this.formatMinutes(this.opensAt)}-${this.formatMinutes(this.closesAt)}`,
+      );
+    }
+    // Throws a RangeError for unknown timezones
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+
+    if (this.enabled) {
+      this.logger.info('Business calendar enabled', {
+        timezone: this.timezone,
+        workingDays: Array.from(this.workingDays),
+        workingHours: `${this.formatMinutes(this.opensAt)}-${this.formatMinutes(this.closesAt)}`,
+        holidays: this.holidays.size,
+        minWorkingHours: this.minWorkingHours,
+      });
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Moves a phase deadline onto business time, first lengthening the phase
+   * to its minimum working hours counted from `startedAt`. The reason says
+   * why whenever the deadline changed.
+   */
+  adjustDeadline(
+    deadline: Date,
+    phaseTypeName: string,
+    startedAt?: Date,
+  ): DeadlineAdjustment {
+    const originalDeadline = deadline.toISOString();
+    if (!this.enabled) {
+      return { deadline: originalDeadline, originalDeadline, adjusted: false };
+    }
+
+    const reasons: string[] = [];
+    let time = deadline.getTime();
+
+    const minHours = this.minWorkingHours[phaseTypeName];
+    if (minHours && startedAt && startedAt.getTime() < time) {
+      const required = minHours * HOUR;
+      const worked = this.workingTimeBetween(startedAt.getTime(), time);
+      if (worked < required) {
+        time = this.addWorkingTime(startedAt.getTime(), required);
+        reasons.push(
+          `${phaseTypeName} needs ${minHours} working hours but only ${+(worked / HOUR).toFixed(2)} fell before the deadline`,
+        );
+      }
+    }
+
+    if (!this.isBusinessTime(time)) {
+      reasons.push(
+        `${this.describeClosure(time)}; rolled forward to the next business time`,
+      );
+      time = this.nextBusinessTime(time);
+    }
+
+    const adjusted = time !== deadline.getTime();
+    return {
+      deadline: new Date(time).toISOString(),
+      originalDeadline,
+      adjusted,
+      reason: adjusted ? reasons.join('. ') : undefined,
+    };
+  }
+
+  isBusinessTime(time: number): boolean {
+    const local = this.toLocal(time);
+    return (
+      this.isWorkingDay(local) &&
+      local.minutes >= this.opensAt &&
+      // A deadline at closing time still falls within the working day
+      local.minutes <= this.closesAt
+    );
+  }
+
+  nextBusinessTime(time: number): number {
+    if (this.isBusinessTime(time)) {
+      return time;
+    }
+    for (const [opensAt] of this.workingWindows(time)) {
+      if (opensAt >= time) {
+        return opensAt;
+      }
+    }
+    throw new Error(this.noBusinessTimeMessage());
+  }
+
+  workingTimeBetween(from: number, to: number): number {
+    let total = 0;
+    for (const [opensAt, closesAt] of this.workingWindows(from)) {
+      if (opensAt >= to) {
+        break;
+      }
+      total += Math.max(Math.min(closesAt, to) - Math.max(opensAt, from), 0);
+    }
+    return total;
+  }
+
+  addWorkingTime(from: number, duration: number): number {
+    let remaining = duration;
+    for (const [opensAt, closesAt] of this.workingWindows(from)) {
+      const start = Math.max(opensAt, from);
+      if (start >= closesAt) {
+        continue;
+      }
+      if (remaining <= closesAt - start) {
+        return start + remaining;
+      }
+      remaining -= closesAt - start;
+    }
+    throw new Error(this.noBusinessTimeMessage());
+  }
+
+  /** Opening and closing instants of each working day from `time`'s day on. */
+  private *workingWindows(time: number): Generator<[number, number]> {
+    const first = this.toLocal(time);
+    for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+      const date = new Date(
+        Date.UTC(first.year, first.month - 1, first.day) + offset * DAY,
+      );
+      const local: LocalDate = {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+      };
+      if (this.isWorkingDay({ ...local, weekday: isoWeekday(date) })) {
+        yield [
+          this.fromLocal(local, this.opensAt),
+          this.fromLocal(local, this.closesAt),
+        ];
+      }
+    }
+  }
+
+  private isWorkingDay(local: LocalDate & { weekday: number }): boolean {
+    return (
+      this.workingDays.has(local.weekday) &&
+      !this.holidays.has(formatDate(local))
+    );
+  }
+
+  private describeClosure(time: number): string {
+    const local = this.toLocal(time);
+    if (this.holidays.has(formatDate(local))) {
+      return `${formatDate(local)} is a holiday`;
+    }
+    if (!this.workingDays.has(local.weekday)) {
+      return `${WEEKDAYS[local.weekday - 1]} is not a working day`;
+    }
+    return `${this.formatMinutes(local.minutes)} is outside working hours ${this.formatMinutes(this.opensAt)}-${this.formatMinutes(this.closesAt)} ${this.timezone}`;
+  }
+
+  private toLocal(time: number): LocalTime {
+    const parts = Object.fromEntries(
+      this.formatter
+        .formatToParts(new Date(time))
+        .map((part) => [part.type, Number(part.value)]),
+    );
+    const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      weekday: isoWeekday(date),
+      minutes: parts.hour * 60 + parts.minute + parts.second / 60,
+    };
+  }
+
+  /** The instant local wall-clock `minutes` past midnight on `date` happen. */
+  private fromLocal(date: LocalDate, minutes: number): number {
+    const wall =
+      Date.UTC(date.year, date.month - 1, date.day) + minutes * MINUTE;
+    // The offset at the guess settles DST changes between UTC and local time
+    const guess = wall - this.offsetAt(wall);
+    return wall - this.offsetAt(guess);
+  }
+
+  private offsetAt(time: number): number {
+    const local = this.toLocal(time);
+    const wall =
+      Date.UTC(local.year, local.month - 1, local.day) + local.minutes * MINUTE;
+    return wall - (time - (time % 1000));
+  }
+
+  private formatMinutes(minutes: number): string {
+    const whole = Math.floor(minutes);
+    return `${String(Math.floor(whole / 60)).padStart(2, '0')}:${String(whole % 60).padStart(2, '0')}`;
+  }
+
+  private noBusinessTimeMessage(): string {
+    return `No business time within ${MAX_DAYS_AHEAD} days in the ${this.timezone} calendar`;
+  }
+}
+
+function isoWeekday(date: Date): number {
+  return date.getUTCDay() || 7;
+}
+
+function formatDate(date: LocalDate): string {
+  return [
+    date.year,
+    String(date.month).padStart(2, '0'),
+    String(date.day).padStart(2, '0'),
+  ].join('-');
+}
@@ -0,0 +1,155 @@
+import { TestingModule } from '@nestjs/testing';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import {
+  CHALLENGE_VIEW_REPOSITORY,
+  ChallengeViewRepository,
+} from '../repositories/challenge-view.repository';
+import {
+  ChallengeUpdatePayload,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+import { createTestingModule, NOW } from '../../testing/fixtures';
+
+describe('ChallengeProjectionService', () => {
+  const at = (minutes: number) =>
+    new Date(Date.parse(NOW) + minutes * 60_000).toISOString();
+  const transition = (
+    projectId: number,
+    state: 'START' | 'END',
+    date: string,
+  ): PhaseTransitionPayload => ({
+    projectId,
+    phaseId: 10,
+    phaseTypeName: 'Submission',
+    state,
+    operator: state === 'START' ? 'ops' : 'autopilot',
+    projectStatus: 'ACTIVE',
+    date,
+    scheduledEndDate: state === 'START' ? at(60) : undefined,
+  });
+  const update = (
+    projectId: number,
+    challengeId: number,
+    date: string,
+  ): ChallengeUpdatePayload => ({
+    projectId,
+    challengeId,
+    status: 'ACTIVE',
+    operator: 'jane.doe',
+    date,
+  });
+
+  let module: TestingModule;
+  let views: ChallengeViewRepository;
+  let projection: ChallengeProjectionService;
+
+  beforeEach(async () => {
+    module = await createTestingModule({
+      providers: [ChallengeProjectionService],
+    });
+    views = module.get<ChallengeViewRepository>(CHALLENGE_VIEW_REPOSITORY);
+    projection = module.get(ChallengeProjectionService);
+  });
+
+  it('keeps each phase with its times and operator', async () => {
+    await projection.applyPhaseTransition(transition(1, 'START', at(0)), {
+      from: 'NOT_STARTED',
+      to: 'OPEN',
+    });
+    await projection.applyPhaseTransition(transition(1, 'END', at(60)), {
+      from: 'OPEN',
+      to: 'CLOSED',
+    });
+
+    expect(projection.get(1)).toMatchObject({
+      projectStatus: 'ACTIVE',
+      lastOperator: 'autopilot',
+      createdAt: at(0),
+      updatedAt: at(60),
+      phases: [
+        {
+          phaseId: 10,
+          state: 'CLOSED',
+          startedAt: at(0),
+          endedAt: at(60),
+          scheduledEndDate: at(60),
+          lastOperator: 'autopilot',
+        },
+      ],
+    });
+  });
+
+  it('files phases under the project until its challenge is known', async () => {
+    await projection.applyPhaseTransition(transition(1, 'START', at(0)), {
+      from: 'NOT_STARTED',
+      to: 'OPEN',
+    });
+    await projection.applyChallengeUpdate(update(1, 100, at(1)), {
+      from: undefined,
+      to: 'ACTIVE',
+    });
+
+    expect(projection.get(1)).toBeUndefined();
+    expect(projection.get(100)).toMatchObject({
+      projectId: 1,
+      status: 'ACTIVE',
+      lastOperator: 'jane.doe',
+      phases: [{ phaseId: 10, state: 'OPEN' }],
+    });
+    expect(projection.findByProject(1)?.challengeId).toBe(100);
+    expect((await views.findAll()).map((view) => view.challengeId)).toEqual([
+      100,
+    ]);
+  });
+
+  it('lists the most recently updated matches first', async () => {
+    await projection.applyChallengeUpdate(update(1, 100, at(0)), {
+      from: undefined,
+      to: 'ACTIVE',
+    });
+    await projection.applyChallengeUpdate(update(2, 200, at(5)), {
+      from: undefined,
+      to: 'ACTIVE',
+    });
+    await projection.applyPhaseTransition(transition(1, 'START', at(1)), {
+      from: 'NOT_STARTED',
+      to: 'OPEN',
+    });
+
+    expect(
+      projection.query({ status: 'ACTIVE', page: 1, limit: 10 }).items,
+    ).toEqual([
+      expect.objectContaining({ challengeId: 200 }),
+      expect.objectContaining({ challengeId: 100 }),
+    ]);
+    expect(
+      projection.query({
+        phaseTypeName: 'Submission',
+        phaseState: 'OPEN',
+        page: 1,
+        limit: 10,
+      }),
+    ).toMatchObject({ total: 1, items: [{ challengeId: 100 }] });
+    expect(projection.query({ page: 2, limit: 1 })).toMatchObject({
+      total: 2,
+      items: [{ challengeId: 100 }],
+    });
+  });
+
+  it('serves the stored views once started', async () => {
+    await views.save({
+      challengeId: 100,
+      projectId: 1,
+      status: 'ACTIVE',
+      phases: [],
+      lastOperator: 'jane.doe',
+      createdAt: at(0),
+      updatedAt: at(0),
+    });
+
+    await module.init();
+
+    expect(projection.get(100)?.status).toBe('ACTIVE');
+    expect(projection.findByProject(1)?.challengeId).toBe(100);
+  });
+});
@@ -0,0 +1,252 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import {
+  ChallengePage,
+  ChallengePhaseView,
+  ChallengeQuery,
+  ChallengeStatus,
+  ChallengeUpdatePayload,
+  ChallengeView,
+  PhaseState,
+  PhaseTransitionPayload,
+  StateChange,
+} from '../interfaces/autopilot.interface';
+import {
+  CHALLENGE_VIEW_REPOSITORY,
+  ChallengeViewRepository,
+} from '../repositories/challenge-view.repository';
+
+/**
+ * Read model of every challenge autopilot has heard of, updated from the
+ * phase transitions and challenge updates it accepted. Phase transitions only
+ * name the project, so until a challenge update links the two, a project's
+ * challenge is filed under the project id.
+ */
+@Injectable()
+export class ChallengeProjectionService implements OnModuleInit {
+  private readonly logger = new LoggerService(ChallengeProjectionService.name);
+  private readonly views = new Map<number, ChallengeView>();
+  // Project id to challenge id, as reported by challenge updates
+  private readonly challengeIds = new Map<number, number>();
+
+  constructor(
+    @Inject(CHALLENGE_VIEW_REPOSITORY)
+    private readonly challengeViewRepository: ChallengeViewRepository,
+    private readonly clock: Clock,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.restore(() => true);
+    this.logger.info('Restored challenge views', { count: this.views.size });
+  }
+
+  /**
+   * Re-reads the stored views of the projects `includes` picks, replacing
+   * what is held for them; used when projects move here in a rebalance,
+   * since the replica that owned them kept the store up to date.
+   */
+  async restore(includes: (projectId: number) => boolean): Promise<void> {
+    for (const view of await this.challengeViewRepository.findAll()) {
+      if (!includes(view.projectId)) {
+        continue;
+      }
+      // Filed under the project id here until another replica linked it
+      if (
+        view.challengeId !== view.projectId &&
+        this.views.get(view.projectId)?.projectId === view.projectId
+      ) {
+        this.views.delete(view.projectId);
+      }
+      this.views.set(view.challengeId, view);
+      this.challengeIds.set(view.projectId, view.challengeId);
+    }
+  }
+
+  async applyPhaseTransition(
+    message: PhaseTransitionPayload,
+    change: StateChange<PhaseState>,
+  ): Promise<void> {
+    const at = message.date || this.clock.toISOString();
+    const view = this.getOrCreate(
+      message.projectId,
+      this.challengeIds.get(message.projectId) ?? message.projectId,
+      at,
+    );
+    view.projectStatus = message.projectStatus;
+
+    let phase = view.phases.find(({ phaseId }) => phaseId === message.phaseId);
+    if (!phase) {
+      phase = {
+        phaseId: message.phaseId,
+        phaseTypeName: message.phaseTypeName,
+        state: change.to,
+        lastOperator: message.operator,
+        updatedAt: at,
+      };
+      view.phases.push(phase);
+    }
+    this.applyToPhase(phase, message, change, at);
+
+    view.lastOperator = message.operator;
+    view.updatedAt = at;
+    await this.persist(view);
+  }
+
+  async applyChallengeUpdate(
+    message: ChallengeUpdatePayload,
+    change: StateChange<ChallengeStatus>,
+  ): Promise<void> {
+    const at = message.date || this.clock.toISOString();
+    await this.link(message.projectId, message.challengeId);
+    const view = this.getOrCreate(message.projectId, message.challengeId, at);
+    view.status = change.to;
+    view.challengeType = message.challengeType ?? view.challengeType;
+    view.lastOperator = message.operator;
+    view.updatedAt = at;
+    await this.persist(view);
+  }
+
+  list(): ChallengeView[] {
+    return Array.from(this.views.values());
+  }
+
+  /** The challenge of a project, once either has been heard of. */
+  findByProject(projectId: number): ChallengeView | undefined {
+    return this.views.get(this.challengeIds.get(projectId) ?? projectId);
+  }
+
+  /** Takes on every challenge of `rebuilt`, e.g. by replay, and stores them. */
+  async replaceWith(rebuilt: ChallengeProjectionService): Promise<void> {
+    this.views.clear();
+    rebuilt.views.forEach((view, id) => this.views.set(id, view));
+    this.challengeIds.clear();
+    rebuilt.challengeIds.forEach((challengeId, projectId) =>
+      this.challengeIds.set(projectId, challengeId),
+    );
+    this.logger.info('Challenge views replaced', { count: this.views.size });
+
+    await this.challengeViewRepository.clear();
+    for (const view of this.views.values()) {
+      await this.persist(view);
+    }
+  }
+
+  get(challengeId: number): ChallengeView | undefined {
+    return this.views.get(challengeId);
+  }
+
+  /** Most recently updated challenges first. */
+  query(query: ChallengeQuery): ChallengePage {
+    const matches = Array.from(this.views.values())
+      .filter(
+        (view) =>
+          (query.status === undefined || view.status === query.status) &&
+          (query.projectStatus === undefined ||
+            view.projectStatus === query.projectStatus) &&
+          (query.operator === undefined ||
+            view.lastOperator === query.operator) &&
+          (query.phaseTypeName === undefined && query.phaseState === undefined
+            ? true
+            : view.phases.some(
+                (phase) =>
+                  (query.phaseTypeName === undefined ||
+                    phase.phaseTypeName === query.phaseTypeName) &&
+                  (query.phaseState === undefined ||
+                    phase.state === query.phaseState),
+              )),
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    const start = (query.page - 1) * query.limit;
+    return {
+      items: matches.slice(start, start + query.limit),
+      total: matches.length,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  private applyToPhase(
+    phase: ChallengePhaseView,
+    message: PhaseTransitionPayload,
+    change: StateChange<PhaseState>,
+    at: string,
+  ): void {
+    phase.phaseTypeName = message.phaseTypeName;
+    phase.state = change.to;
+    if (message.state === 'END') {
+      phase.endedAt = at;
+    } else if (message.reopen) {
+      phase.endedAt = undefined;
+    } else if (!message.extendedBy) {
+      phase.startedAt = at;
+    }
+    if (message.state === 'START') {
+      phase.scheduledEndDate = message.scheduledEndDate;
+    }
+    phase.lastOperator = message.operator;
+    phase.updatedAt = at;
+  }
+
+  private getOrCreate(
+    projectId: number,
+    challengeId: number,
+    at: string,
+  ): ChallengeView {
+    let view = this.views.get(challengeId);
+    if (!view) {
+      view = {
+        challengeId,
+        projectId,
+        phases: [],
+        lastOperator: '',
+        createdAt: at,
+        updatedAt: at,
+      };
+      this.views.set(challengeId, view);
+    }
+    return view;
+  }
+
+  /** Re-files a challenge kept under its project id once its id is known. */
+  private async link(projectId: number, challengeId: number): Promise<void> {
+    if (this.challengeIds.get(projectId) === challengeId) {
+      return;
+    }
+    this.challengeIds.set(projectId, challengeId);
+
+    const provisional = this.views.get(projectId);
+    if (
+      challengeId === projectId ||
+      provisional?.projectId !== projectId ||
+      this.views.has(challengeId)
+    ) {
+      return;
+    }
+    this.views.delete(projectId);
+    this.views.set(challengeId, { ...provisional, challengeId });
+    try {
+      await this.challengeViewRepository.remove(projectId);
+    } catch (error) {
+      this.logFailure(error, projectId);
+    }
+  }
+
+  // The view is derived data, so a failed write must not fail the event
+  private async persist(view: ChallengeView): Promise<void> {
+    try {
+      await this.challengeViewRepository.save(view);
+    } catch (error) {
+      this.logFailure(error, view.challengeId);
+    }
+  }
+
+  private logFailure(error: unknown, challengeId: number): void {
+    const err = error as Error;
+    this.logger.error('Failed to store challenge view', {
+      error: err.stack || err.message,
+      challengeId,
+    });
+  }
+}
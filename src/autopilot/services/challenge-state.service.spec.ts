@@ -0,0 +1,230 @@
+import { ChallengeStateService } from './challenge-state.service';
+import {
+  SCHEDULE_REPOSITORY,
+  ScheduleRepository,
+} from '../repositories/schedule.repository';
+import {
+  CHALLENGE_VIEW_REPOSITORY,
+  ChallengeViewRepository,
+} from '../repositories/challenge-view.repository';
+import { FakeClock } from '../../common/services/clock.service';
+import { IllegalTransitionException } from '../../common/exceptions/autopilot.exception';
+import {
+  ChallengeUpdatePayload,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+import { createClock, createTestingModule } from '../../testing/fixtures';
+
+describe('ChallengeStateService', () => {
+  const transition = (
+    state: 'START' | 'END',
+    extra: Partial<PhaseTransitionPayload> = {},
+  ): PhaseTransitionPayload => ({
+    projectId: 1,
+    phaseId: 10,
+    phaseTypeName: 'Submission',
+    state,
+    operator: 'autopilot',
+    projectStatus: 'ACTIVE',
+    ...extra,
+  });
+  const update = (status: string): ChallengeUpdatePayload => ({
+    projectId: 1,
+    challengeId: 100,
+    status,
+    operator: 'autopilot',
+  });
+
+  let clock: FakeClock;
+  let schedule: ScheduleRepository;
+  let views: ChallengeViewRepository;
+  let service: ChallengeStateService;
+
+  beforeEach(async () => {
+    clock = createClock();
+    const module = await createTestingModule({
+      providers: [ChallengeStateService],
+      clock,
+    });
+    schedule = module.get<ScheduleRepository>(SCHEDULE_REPOSITORY);
+    views = module.get<ChallengeViewRepository>(CHALLENGE_VIEW_REPOSITORY);
+    service = module.get(ChallengeStateService);
+  });
+
+  describe('phases', () => {
+    it('opens on START and closes on END', () => {
+      expect(service.applyPhaseTransition(transition('START'))).toEqual({
+        from: 'NOT_STARTED',
+        to: 'OPEN',
+      });
+      expect(service.applyPhaseTransition(transition('END'))).toEqual({
+        from: 'OPEN',
+        to: 'CLOSED',
+      });
+      expect(service.getPhaseState(1, 10)).toBe('CLOSED');
+      expect(service.getPhases(1)).toEqual([
+        expect.objectContaining({
+          phaseId: 10,
+          state: 'CLOSED',
+          updatedAt: clock.toISOString(),
+        }),
+      ]);
+    });
+
+    it('rejects END for a phase that never started', () => {
+      expect(() => service.applyPhaseTransition(transition('END'))).toThrow(
+        IllegalTransitionException,
+      );
+      expect(service.getPhaseState(1, 10)).toBe('NOT_STARTED');
+    });
+
+    it('rejects START for a closed phase', () => {
+      service.applyPhaseTransition(transition('START'));
+      service.applyPhaseTransition(transition('END'));
+
+      expect(() => service.applyPhaseTransition(transition('START'))).toThrow(
+        'START is not allowed for phase 10 of project 1 in state CLOSED',
+      );
+    });
+
+    it('marks a redelivered transition as repeated', () => {
+      service.applyPhaseTransition(transition('START'));
+
+      expect(service.applyPhaseTransition(transition('START'))).toEqual({
+        from: 'OPEN',
+        to: 'OPEN',
+        repeated: true,
+      });
+    });
+
+    it('reopens only a closed phase', () => {
+      const reopen = transition('START', { reopen: true });
+      expect(() => service.applyPhaseTransition(reopen)).toThrow(
+        'Reopen is not allowed',
+      );
+
+      service.applyPhaseTransition(transition('START'));
+      service.applyPhaseTransition(transition('END'));
+
+      expect(service.applyPhaseTransition(reopen)).toEqual({
+        from: 'CLOSED',
+        to: 'OPEN',
+      });
+    });
+
+    it('applies every extension of an open phase', () => {
+      const extension = transition('START', { extendedBy: 3600000 });
+      service.applyPhaseTransition(transition('START'));
+
+      expect(service.applyPhaseTransition(extension)).toEqual({
+        from: 'OPEN',
+        to: 'OPEN',
+      });
+      expect(service.applyPhaseTransition(extension)).toEqual({
+        from: 'OPEN',
+        to: 'OPEN',
+      });
+
+      service.applyPhaseTransition(transition('END'));
+      expect(() => service.applyPhaseTransition(extension)).toThrow(
+        'Extension is not allowed',
+      );
+    });
+  });
+
+  describe('challenges', () => {
+    it('follows the allowed status changes', () => {
+      expect(service.applyChallengeUpdate(update('Draft'))).toEqual({
+        from: undefined,
+        to: 'DRAFT',
+      });
+      expect(service.applyChallengeUpdate(update('Active'))).toEqual({
+        from: 'DRAFT',
+        to: 'ACTIVE',
+      });
+      expect(service.applyChallengeUpdate(update('Active'))).toEqual({
+        from: 'ACTIVE',
+        to: 'ACTIVE',
+      });
+      expect(service.applyChallengeUpdate(update('Completed'))).toEqual({
+        from: 'ACTIVE',
+        to: 'COMPLETED',
+      });
+      expect(service.getChallengeStatus(100)).toBe('COMPLETED');
+    });
+
+    it('rejects moving back or out of a final status', () => {
+      service.applyChallengeUpdate(update('Active'));
+      expect(() => service.applyChallengeUpdate(update('Draft'))).toThrow(
+        'challenge 100 cannot move from ACTIVE to DRAFT',
+      );
+
+      service.applyChallengeUpdate(update('Cancelled'));
+      expect(() => service.applyChallengeUpdate(update('Active'))).toThrow(
+        IllegalTransitionException,
+      );
+      expect(service.getChallengeStatus(100)).toBe('CANCELLED');
+    });
+
+    it('reads upstream status variants', () => {
+      expect(
+        service.applyChallengeUpdate(update('Cancelled - Failed Review')).to,
+      ).toBe('CANCELLED');
+      expect(ChallengeStateService.normalizeStatus(' active ')).toBe('ACTIVE');
+      expect(() => service.applyChallengeUpdate(update('Paused'))).toThrow(
+        'unknown status "Paused" for challenge 100',
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('loads stored views and treats phases awaiting END as open', async () => {
+      await views.save({
+        challengeId: 100,
+        projectId: 1,
+        status: 'ACTIVE',
+        projectStatus: 'ACTIVE',
+        phases: [
+          {
+            phaseId: 10,
+            phaseTypeName: 'Submission',
+            state: 'CLOSED',
+            lastOperator: 'autopilot',
+            updatedAt: '2025-01-05T10:00:00.000Z',
+          },
+        ],
+        lastOperator: 'autopilot',
+        createdAt: '2025-01-01T10:00:00.000Z',
+        updatedAt: '2025-01-05T10:00:00.000Z',
+      });
+      await schedule.save('2:20:END', {
+        projectId: 2,
+        phaseId: 20,
+        phaseTypeName: 'Review',
+        state: 'END',
+        projectStatus: 'ACTIVE',
+        fireAt: '2025-01-07T10:00:00.000Z',
+      });
+      await schedule.save('3:30:END', {
+        projectId: 3,
+        phaseId: 30,
+        phaseTypeName: 'Review',
+        state: 'END',
+        projectStatus: 'ACTIVE',
+        fireAt: '2025-01-07T10:00:00.000Z',
+      });
+
+      await service.restore((projectId) => projectId !== 3);
+
+      expect(service.getChallengeStatus(100)).toBe('ACTIVE');
+      expect(service.getPhaseState(1, 10)).toBe('CLOSED');
+      expect(service.getPhaseState(2, 20)).toBe('OPEN');
+      expect(service.getPhaseState(3, 30)).toBe('NOT_STARTED');
+      expect(() =>
+        service.applyPhaseTransition(
+          transition('END', { projectId: 2, phaseId: 20 }),
+        ),
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { LoggerService } from '../../common/services/logger.service';
+import { IllegalTransitionException } from '../../common/exceptions/autopilot.exception';
+import { Clock } from '../../common/services/clock.service';
+import {
+  CHALLENGE_STATUS_TRANSITIONS,
+  PHASE_EXTEND_TRANSITION,
+  PHASE_REOPEN_TRANSITION,
+  PHASE_STATE_TRANSITIONS,
+} from '../constants/state-machine';
+import {
+  ChallengeStatus,
+  ChallengeUpdatePayload,
+  PhaseState,
+  PhaseStateRecord,
+  PhaseTransitionPayload,
+  StateChange,
+} from '../interfaces/autopilot.interface';
+import {
+  SCHEDULE_REPOSITORY,
+  ScheduleRepository,
+} from '../repositories/schedule.repository';
+import {
+  CHALLENGE_VIEW_REPOSITORY,
+  ChallengeViewRepository,
+} from '../repositories/challenge-view.repository';
+
+@Injectable()
+export class ChallengeStateService implements OnModuleInit {
+  private readonly logger = new LoggerService(ChallengeStateService.name);
+  private readonly challenges = new Map<number, ChallengeStatus>();
+  private readonly phases = new Map<string, PhaseStateRecord>();
+
+  constructor(
+    @Inject(SCHEDULE_REPOSITORY)
+    private readonly scheduleRepository: ScheduleRepository,
+    @Inject(CHALLENGE_VIEW_REPOSITORY)
+    private readonly challengeViewRepository: ChallengeViewRepository,
+    private readonly clock: Clock,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.restore(() => true);
+  }
+
+  /**
+   * Loads the states of the projects `includes` picks from the stored
+   * challenge views, replacing what is held for them. The replica that
+   * owned a project before a rebalance handled its events, so without this
+   * the new owner would find its phases NOT_STARTED and reject their END.
+   * Phases with a pending END but no view were open when the schedule was
+   * written, so they are seeded as such.
+   */
+  async restore(includes: (projectId: number) => boolean): Promise<void> {
+    const views = (await this.challengeViewRepository.findAll()).filter(
+      (view) => includes(view.projectId),
+    );
+    const pending = Array.from(
+      (await this.scheduleRepository.findAll()).values(),
+    ).filter((transition) => includes(transition.projectId));
+
+    const projectIds = new Set([
+      ...views.map((view) => view.projectId),
+      ...pending.map((transition) => transition.projectId),
+    ]);
+    for (const [key, phase] of this.phases) {
+      if (projectIds.has(phase.projectId)) {
+        this.phases.delete(key);
+      }
+    }
+
+    for (const view of views) {
+      if (view.status) {
+        this.challenges.set(view.challengeId, view.status);
+      }
+      for (const phase of view.phases) {
+        this.phases.set(this.getPhaseKey(view.projectId, phase.phaseId), {
+          projectId: view.projectId,
+          phaseId: phase.phaseId,
+          phaseTypeName: phase.phaseTypeName,
+          projectStatus: view.projectStatus ?? '',
+          state: phase.state,
+          updatedAt: phase.updatedAt,
+        });
+      }
+    }
+    for (const transition of pending) {
+      const key = this.getPhaseKey(transition.projectId, transition.phaseId);
+      if (transition.state !== 'END' || this.phases.has(key)) {
+        continue;
+      }
+      this.phases.set(key, {
+        projectId: transition.projectId,
+        phaseId: transition.phaseId,
+        phaseTypeName: transition.phaseTypeName,
+        projectStatus: transition.projectStatus,
+        state: 'OPEN',
+        updatedAt: this.clock.toISOString(),
+      });
+    }
+
+    this.logger.info('Restored challenge and phase states', {
+      projects: projectIds.size,
+    });
+  }
+
+  static normalizeStatus(status: string): ChallengeStatus | undefined {
+    const normalized = status.trim().toUpperCase();
+    // Upstream sends variants such as "Cancelled - Failed Review"
+    if (normalized.startsWith('CANCELLED')) {
+      return 'CANCELLED';
+    }
+    return normalized in CHALLENGE_STATUS_TRANSITIONS
+      ? (normalized as ChallengeStatus)
+      : undefined;
+  }
+
+  applyChallengeUpdate(
+    message: ChallengeUpdatePayload,
+  ): StateChange<ChallengeStatus> {
+    const to = ChallengeStateService.normalizeStatus(message.status);
+    if (!to) {
+      throw new IllegalTransitionException(
+        `unknown status "${message.status}" for challenge ${message.challengeId}`,
+        { challengeId: message.challengeId, status: message.status },
+      );
+    }
+
+    const from = this.challenges.get(message.challengeId);
+    if (
+      from &&
+      from !== to &&
+      !CHALLENGE_STATUS_TRANSITIONS[from].includes(to)
+    ) {
+      throw new IllegalTransitionException(
+        `challenge ${message.challengeId} cannot move from ${from} to ${to}`,
+        { challengeId: message.challengeId, from, to },
+      );
+    }
+
+    this.challenges.set(message.challengeId, to);
+    if (from !== to) {
+      this.logger.info('Challenge status changed', {
+        challengeId: message.challengeId,
+        from,
+        to,
+      });
+    }
+    return { from, to };
+  }
+
+  applyPhaseTransition(
+    message: PhaseTransitionPayload,
+  ): StateChange<PhaseState> {
+    const key = this.getPhaseKey(message.projectId, message.phaseId);
+    const from = this.phases.get(key)?.state ?? 'NOT_STARTED';
+    const event =
+      message.state === 'START' && message.reopen
+        ? 'Reopen'
+        : message.state === 'START' && message.extendedBy
+          ? 'Extension'
+          : message.state;
+    const rule =
+      event === 'Reopen'
+        ? PHASE_REOPEN_TRANSITION
+        : event === 'Extension'
+          ? PHASE_EXTEND_TRANSITION
+          : PHASE_STATE_TRANSITIONS[message.state];
+
+    // A transition redelivered after a later step failed finds the phase
+    // already moved; the caller still has to finish the remaining steps
+    if (from === rule.to && event !== 'Extension') {
+      this.logger.info('Phase already in target state', {
+        projectId: message.projectId,
+        phaseId: message.phaseId,
+        state: from,
+        event,
+      });
+      return { from, to: rule.to, repeated: true };
+    }
+
+    if (!rule.from.includes(from)) {
+      throw new IllegalTransitionException(
+        `${event} is not allowed for phase ${message.phaseId} of project ${message.projectId} in state ${from}`,
+        {
+          projectId: message.projectId,
+          phaseId: message.phaseId,
+          from,
+          event,
+        },
+      );
+    }
+
+    this.phases.set(key, {
+      projectId: message.projectId,
+      phaseId: message.phaseId,
+      phaseTypeName: message.phaseTypeName,
+      projectStatus: message.projectStatus,
+      state: rule.to,
+      updatedAt: message.date || this.clock.toISOString(),
+    });
+    this.logger.info('Phase state changed', {
+      projectId: message.projectId,
+      phaseId: message.phaseId,
+      from,
+      to: rule.to,
+    });
+    return { from, to: rule.to };
+  }
+
+  /** Takes on every challenge and phase state of `rebuilt`, e.g. by replay. */
+  replaceWith(rebuilt: ChallengeStateService): void {
+    this.challenges.clear();
+    rebuilt.challenges.forEach((status, id) => this.challenges.set(id, status));
+    this.phases.clear();
+    rebuilt.phases.forEach((phase, key) => this.phases.set(key, { ...phase }));
+    this.logger.info('Challenge and phase states replaced', {
+      challenges: this.challenges.size,
+      phases: this.phases.size,
+    });
+  }
+
+  getChallengeStatus(challengeId: number): ChallengeStatus | undefined {
+    return this.challenges.get(challengeId);
+  }
+
+  getPhaseState(projectId: number, phaseId: number): PhaseState {
+    return (
+      this.phases.get(this.getPhaseKey(projectId, phaseId))?.state ??
+      'NOT_STARTED'
+    );
+  }
+
+  getPhases(projectId: number): PhaseStateRecord[] {
+    return Array.from(this.phases.values()).filter(
+      (phase) => phase.projectId === projectId,
+    );
+  }
+
+  private getPhaseKey(projectId: number, phaseId: number): string {
+    return `${projectId}:${phaseId}`;
+  }
+}
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { LoggerService } from '../../common/services/logger.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import {
+  CommandPayload,
+  CommandResultPayload,
+  NotificationPayload,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+
+/**
+ * Tells downstream services, in plain words, what autopilot just did.
+ * Notifications are best effort: a failure to publish one is logged and
+ * never fails the action it describes.
+ */
+@Injectable()
+export class NotificationService {
+  private readonly logger = new LoggerService(NotificationService.name);
+
+  constructor(private readonly autopilotProducer: AutopilotProducer) {}
+
+  /** Announces a phase transition that was applied. */
+  async notifyPhaseTransition(message: PhaseTransitionPayload): Promise<void> {
+    const phase = `${message.phaseTypeName} (phase ${message.phaseId}) of project ${message.projectId}`;
+    const until = message.scheduledEndDate
+      ? ` until ${message.scheduledEndDate}`
+      : '';
+    const base = {
+      audience: 'ALL' as const,
+      projectId: message.projectId,
+      phaseId: message.phaseId,
+      phaseTypeName: message.phaseTypeName,
+      operator: message.operator,
+      reason: message.reason,
+    };
+
+    if (message.state === 'END') {
+      await this.send({
+        ...base,
+        type: 'PHASE_ENDED',
+        title: `${message.phaseTypeName} phase ended`,
+        message: `${phase} has closed.`,
+      });
+    } else if (message.extendedBy) {
+      await this.send({
+        ...base,
+        type: 'DEADLINE_EXTENDED',
+        title: `${message.phaseTypeName} deadline extended`,
+        message: `${phase} was extended by ${formatDuration(message.extendedBy)} and now runs${until}.`,
+      });
+    } else if (message.reopen) {
+      await this.send({
+        ...base,
+        type: 'PHASE_REOPENED',
+        title: `${message.phaseTypeName} phase reopened`,
+        message: `${phase} is open again${until}.`,
+      });
+    } else {
+      await this.send({
+        ...base,
+        type: 'PHASE_STARTED',
+        title: `${message.phaseTypeName} phase started`,
+        message: `${phase} is open${until}.`,
+      });
+    }
+  }
+
+  /** Warns operators about a command autopilot refused to run. */
+  async notifyCommandRejected(
+    command: CommandPayload,
+    result: CommandResultPayload,
+  ): Promise<void> {
+    if (command.projectId === undefined) {
+      // Nothing to reference; the command result still reports it
+      return;
+    }
+    await this.send({
+      type: 'COMMAND_REJECTED',
+      audience: 'OPERATORS',
+      projectId: command.projectId,
+      operator: command.operator,
+      reason: command.reason,
+      title: `Command ${command.command} rejected`,
+      message: `Command ${command.command} from ${command.operator} for project ${command.projectId} was rejected: ${result.message}.`,
+    });
+  }
+
+  /** Sends the notice a rule's `notify` action asked for. */
+  async notifyRule(
+    payload: Omit<NotificationPayload, 'type' | 'operator'>,
+  ): Promise<void> {
+    await this.send({
+      ...payload,
+      type: 'RULE_TRIGGERED',
+      operator: CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+    });
+  }
+
+  private async send(payload: NotificationPayload): Promise<void> {
+    try {
+      await this.autopilotProducer.sendNotification(payload);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error('Failed to publish notification', {
+        error: err.message,
+        type: payload.type,
+        projectId: payload.projectId,
+      });
+    }
+  }
+}
+
+function formatDuration(ms: number): string {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours >= 1) {
+    return `${+hours.toFixed(1)} hour${hours === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.round(ms / (60 * 1000));
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
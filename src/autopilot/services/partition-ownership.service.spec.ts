@@ -0,0 +1,129 @@
+import { TestingModule } from '@nestjs/testing';
+import { PartitionOwnershipService } from './partition-ownership.service';
+import { SchedulerService } from './scheduler.service';
+import { ChallengeStateService } from './challenge-state.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { PhaseDependencyService } from './phase-dependency.service';
+import { BusinessCalendarService } from './business-calendar.service';
+import { KafkaService } from '../../kafka/kafka.service';
+import { KAFKA_TOPICS } from '../../kafka/constants/topics';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { FakeClock } from '../../common/services/clock.service';
+import {
+  SCHEDULE_REPOSITORY,
+  ScheduleRepository,
+} from '../repositories/schedule.repository';
+import { ScheduledTransition } from '../interfaces/autopilot.interface';
+import {
+  createClock,
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+} from '../../testing/fixtures';
+
+describe('PartitionOwnershipService', () => {
+  const TOPIC = KAFKA_TOPICS.PHASE_TRANSITION;
+
+  let clock: FakeClock;
+  let kafka: jest.Mocked<Pick<KafkaService, 'getPartitionCount'>>;
+  let producer: FakeProducer;
+  let module: TestingModule;
+  let ownership: PartitionOwnershipService;
+
+  /** First project, counting from 1, that hashes to `partition`. */
+  const projectOn = (partition: number): number => {
+    let projectId = 1;
+    while (ownership.partitionFor(projectId) !== partition) {
+      projectId++;
+    }
+    return projectId;
+  };
+  const transition = (projectId: number): ScheduledTransition => ({
+    projectId,
+    phaseId: 10,
+    phaseTypeName: 'Registration',
+    state: 'START',
+    projectStatus: 'ACTIVE',
+    fireAt: new Date(clock.now() + 60_000).toISOString(),
+  });
+
+  beforeEach(async () => {
+    clock = createClock();
+    kafka = { getPartitionCount: jest.fn().mockResolvedValue(2) };
+    producer = createProducer();
+    module = await createTestingModule({
+      providers: [
+        PartitionOwnershipService,
+        SchedulerService,
+        ChallengeStateService,
+        ChallengeProjectionService,
+        PhaseDependencyService,
+        BusinessCalendarService,
+        { provide: KafkaService, useValue: kafka },
+        { provide: AutopilotProducer, useValue: producer },
+      ],
+      config: { 'autopilot.scheduler.coordination': 'partitions' },
+      clock,
+    });
+    ownership = module.get(PartitionOwnershipService);
+  });
+
+  afterEach(() => module.close());
+
+  it('owns only the projects of its assigned partitions', async () => {
+    expect(ownership.owns(1)).toBe(false);
+
+    await ownership.assign({ [TOPIC]: [0] });
+
+    expect(ownership.owns(projectOn(0))).toBe(true);
+    expect(ownership.owns(projectOn(1))).toBe(false);
+    expect(ownership.getStatus()).toMatchObject({
+      assigned: true,
+      partitions: [0],
+      partitionCount: 2,
+    });
+  });
+
+  it('ignores an assignment a revoke overtook', async () => {
+    let count!: (partitions: number) => void;
+    kafka.getPartitionCount.mockReturnValueOnce(
+      new Promise((resolve) => (count = resolve)),
+    );
+
+    const assigned = ownership.assign({ [TOPIC]: [0, 1] });
+    await ownership.revoke();
+    count(2);
+    await assigned;
+
+    expect(ownership.getStatus().partitions).toEqual([]);
+  });
+
+  it('hands pending timers over with their partition', async () => {
+    await module.init();
+    await ownership.assign({ [TOPIC]: [] });
+    const mine = transition(projectOn(0));
+    const theirs = transition(projectOn(1));
+    const schedule = module.get<ScheduleRepository>(SCHEDULE_REPOSITORY);
+    await schedule.save(SchedulerService.getKey(mine), mine);
+    await schedule.save(SchedulerService.getKey(theirs), theirs);
+
+    await ownership.assign({ [TOPIC]: [0] });
+    clock.advance(60_000);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(producer.sendPhaseTransition).toHaveBeenCalledTimes(1);
+    expect(producer.sendPhaseTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: mine.projectId }),
+    );
+
+    await ownership.revoke();
+    await ownership.assign({ [TOPIC]: [1] });
+    clock.advance(1);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(producer.sendPhaseTransition).toHaveBeenCalledTimes(2);
+    expect(producer.sendPhaseTransition).toHaveBeenLastCalledWith(
+      expect.objectContaining({ projectId: theirs.projectId }),
+    );
+  });
+});
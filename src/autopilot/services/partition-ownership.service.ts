@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Partitioners } from 'kafkajs';
+import { KafkaService } from '../../kafka/kafka.service';
+import { KAFKA_TOPICS } from '../../kafka/constants/topics';
+import { LoggerService } from '../../common/services/logger.service';
+import { IPartitionAssignment } from '../../common/types/kafka.types';
+
+export interface OwnershipStatus {
+  coordinated: boolean;
+  topic: string;
+  assigned: boolean;
+  partitions: number[];
+  partitionCount: number;
+}
+
+/**
+ * Decides which replica schedules a project's timers. A project belongs to the
+ * partition its id hashes to on the phase transition topic, using the same
+ * partitioner as the producer, and is owned by whichever group member holds
+ * that partition. With coordination off every project is owned locally.
+ */
+@Injectable()
+export class PartitionOwnershipService {
+  private readonly logger = new LoggerService(PartitionOwnershipService.name);
+  private readonly topic = KAFKA_TOPICS.PHASE_TRANSITION;
+  private readonly partitioner = Partitioners.LegacyPartitioner();
+  private readonly listeners: Array<() => Promise<void>> = [];
+  private readonly coordinated: boolean;
+  // Undefined until the first assignment; owns nothing in the meantime
+  private partitions?: Set<number>;
+  private partitionCount = 0;
+  // Bumped on every revoke so a slow assign cannot apply a stale assignment
+  private generation = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly kafkaService: KafkaService,
+  ) {
+    this.coordinated =
+      this.configService.get<string>(
+        'autopilot.scheduler.coordination',
+        'partitions',
+      ) === 'partitions';
+  }
+
+  isCoordinated(): boolean {
+    return this.coordinated;
+  }
+
+  owns(projectId: number): boolean {
+    if (!this.coordinated) {
+      return true;
+    }
+    const partition = this.partitionFor(projectId);
+    return partition !== undefined && !!this.partitions?.has(partition);
+  }
+
+  /** Undefined until the topic's partition count is known. */
+  partitionFor(projectId: number): number | undefined {
+    if (!this.partitionCount) {
+      return undefined;
+    }
+    return this.partitioner({
+      topic: this.topic,
+      partitionMetadata: Array.from(
+        { length: this.partitionCount },
+        (_, partitionId) => ({
+          partitionId,
+          partitionErrorCode: 0,
+          leader: 0,
+          replicas: [],
+          isr: [],
+        }),
+      ),
+      message: { key: String(projectId), value: null },
+    });
+  }
+
+  /** Registers a callback run after ownership changes in either direction. */
+  onChange(listener: () => Promise<void>): void {
+    this.listeners.push(listener);
+  }
+
+  async assign(assignment: IPartitionAssignment): Promise<void> {
+    if (!this.coordinated) {
+      return;
+    }
+
+    const generation = this.generation;
+    const partitionCount = await this.kafkaService.getPartitionCount(
+      this.topic,
+    );
+    if (generation !== this.generation) {
+      return;
+    }
+
+    this.partitionCount = partitionCount;
+    this.partitions = new Set(assignment[this.topic] ?? []);
+    this.logger.info('Took ownership of partitions', {
+      topic: this.topic,
+      partitions: Array.from(this.partitions),
+      partitionCount,
+    });
+    await this.notify();
+  }
+
+  async revoke(): Promise<void> {
+    if (!this.coordinated) {
+      return;
+    }
+
+    this.generation++;
+    if (!this.partitions?.size) {
+      this.partitions = new Set();
+      return;
+    }
+    this.logger.info('Released ownership of partitions', {
+      topic: this.topic,
+      partitions: Array.from(this.partitions),
+    });
+    this.partitions = new Set();
+    await this.notify();
+  }
+
+  getStatus(): OwnershipStatus {
+    return {
+      coordinated: this.coordinated,
+      topic: this.topic,
+      assigned: this.partitions !== undefined,
+      partitions: Array.from(this.partitions ?? []),
+      partitionCount: this.partitionCount,
+    };
+  }
+
+  private async notify(): Promise<void> {
+    for (const listener of this.listeners) {
+      await listener();
+    }
+  }
+}
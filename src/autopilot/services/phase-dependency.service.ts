@@ -0,0 +1,121 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { LoggerService } from '../../common/services/logger.service';
+import { InvalidTimelineException } from '../../common/exceptions/autopilot.exception';
+import {
+  PhaseDefinition,
+  ProjectTimeline,
+} from '../interfaces/autopilot.interface';
+import {
+  TIMELINE_REPOSITORY,
+  TimelineRepository,
+} from '../repositories/timeline.repository';
+
+@Injectable()
+export class PhaseDependencyService implements OnModuleInit {
+  private readonly logger = new LoggerService(PhaseDependencyService.name);
+  private readonly timelines = new Map<number, ProjectTimeline>();
+
+  constructor(
+    @Inject(TIMELINE_REPOSITORY)
+    private readonly timelineRepository: TimelineRepository,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.restore();
+    this.logger.info('Restored project timelines', {
+      count: this.timelines.size,
+    });
+  }
+
+  /** Re-reads every timeline, including those other replicas loaded. */
+  async restore(): Promise<void> {
+    const timelines = await this.timelineRepository.findAll();
+    this.timelines.clear();
+    for (const timeline of timelines) {
+      this.timelines.set(timeline.projectId, timeline);
+    }
+  }
+
+  /**
+   * Checks that phase ids are unique, predecessors exist and the
+   * predecessor links form no cycle.
+   */
+  static validate(timeline: ProjectTimeline): void {
+    const phases = new Map<number, PhaseDefinition>();
+    for (const phase of timeline.phases) {
+      if (phases.has(phase.phaseId)) {
+        throw new InvalidTimelineException(`duplicate phase ${phase.phaseId}`, {
+          projectId: timeline.projectId,
+        });
+      }
+      phases.set(phase.phaseId, phase);
+    }
+
+    for (const phase of timeline.phases) {
+      const visited = new Set<number>([phase.phaseId]);
+      let current = phase;
+      while (current.predecessorId !== undefined) {
+        const predecessor = phases.get(current.predecessorId);
+        if (!predecessor) {
+          throw new InvalidTimelineException(
+            `phase ${current.phaseId} depends on unknown phase ${current.predecessorId}`,
+            { projectId: timeline.projectId },
+          );
+        }
+        if (visited.has(predecessor.phaseId)) {
+          throw new InvalidTimelineException(
+            `phase ${phase.phaseId} is part of a dependency cycle`,
+            { projectId: timeline.projectId },
+          );
+        }
+        visited.add(predecessor.phaseId);
+        current = predecessor;
+      }
+    }
+  }
+
+  async setTimeline(timeline: ProjectTimeline): Promise<void> {
+    PhaseDependencyService.validate(timeline);
+    await this.timelineRepository.save(timeline);
+    this.timelines.set(timeline.projectId, timeline);
+    this.logger.info('Loaded project timeline', {
+      projectId: timeline.projectId,
+      phases: timeline.phases.length,
+    });
+  }
+
+  async removeTimeline(projectId: number): Promise<boolean> {
+    await this.timelineRepository.remove(projectId);
+    return this.timelines.delete(projectId);
+  }
+
+  getTimeline(projectId: number): ProjectTimeline | undefined {
+    return this.timelines.get(projectId);
+  }
+
+  getPhase(projectId: number, phaseId: number): PhaseDefinition | undefined {
+    return this.timelines
+      .get(projectId)
+      ?.phases.find((phase) => phase.phaseId === phaseId);
+  }
+
+  getDependents(projectId: number, phaseId: number): PhaseDefinition[] {
+    return (
+      this.timelines
+        .get(projectId)
+        ?.phases.filter((phase) => phase.predecessorId === phaseId) ?? []
+    );
+  }
+
+  /** Every phase that follows `phaseId`, directly or transitively. */
+  getDescendants(projectId: number, phaseId: number): PhaseDefinition[] {
+    const descendants: PhaseDefinition[] = [];
+    const pending = this.getDependents(projectId, phaseId);
+    while (pending.length) {
+      const phase = pending.shift() as PhaseDefinition;
+      descendants.push(phase);
+      pending.push(...this.getDependents(projectId, phase.phaseId));
+    }
+    return descendants;
+  }
+}
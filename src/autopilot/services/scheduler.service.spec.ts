@@ -0,0 +1,200 @@
+import { TestingModule } from '@nestjs/testing';
+import { SchedulerService } from './scheduler.service';
+import { PartitionOwnershipService } from './partition-ownership.service';
+import { ChallengeStateService } from './challenge-state.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { PhaseDependencyService } from './phase-dependency.service';
+import { BusinessCalendarService } from './business-calendar.service';
+import { KafkaService } from '../../kafka/kafka.service';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { FakeClock } from '../../common/services/clock.service';
+import {
+  SCHEDULE_REPOSITORY,
+  ScheduleRepository,
+} from '../repositories/schedule.repository';
+import { ScheduledTransition } from '../interfaces/autopilot.interface';
+import {
+  createClock,
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+} from '../../testing/fixtures';
+
+describe('SchedulerService', () => {
+  const MINUTE = 60_000;
+
+  let clock: FakeClock;
+  let producer: FakeProducer;
+  let module: TestingModule;
+  let schedule: ScheduleRepository;
+  let scheduler: SchedulerService;
+
+  const end = (phaseId: number, inMinutes: number): ScheduledTransition => ({
+    projectId: 1,
+    phaseId,
+    phaseTypeName: 'Submission',
+    state: 'END',
+    projectStatus: 'ACTIVE',
+    fireAt: new Date(clock.now() + inMinutes * MINUTE).toISOString(),
+  });
+  // Timers publish asynchronously; in memory that settles in one turn
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+  const sentPhases = () =>
+    producer.sendPhaseTransition.mock.calls.map(([{ phaseId }]) => phaseId);
+
+  /** A scheduler over `store`, or a fresh in-memory store. */
+  const start = async (store?: ScheduleRepository) => {
+    module = await createTestingModule({
+      providers: [
+        SchedulerService,
+        PartitionOwnershipService,
+        ChallengeStateService,
+        ChallengeProjectionService,
+        PhaseDependencyService,
+        BusinessCalendarService,
+        { provide: KafkaService, useValue: {} },
+        { provide: AutopilotProducer, useValue: producer },
+        ...(store ? [{ provide: SCHEDULE_REPOSITORY, useValue: store }] : []),
+      ],
+      clock,
+    });
+    schedule = module.get<ScheduleRepository>(SCHEDULE_REPOSITORY);
+    scheduler = module.get(SchedulerService);
+  };
+
+  beforeEach(async () => {
+    clock = createClock();
+    producer = createProducer();
+    await start();
+  });
+
+  afterEach(() => module.close());
+
+  it('publishes a scheduled END once it is due', async () => {
+    await scheduler.schedule(end(10, 1));
+
+    clock.advance(MINUTE - 1);
+    await settle();
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    await settle();
+    expect(producer.sendPhaseTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectId: 1,
+        phaseId: 10,
+        state: 'END',
+        operator: 'autopilot',
+      }),
+    );
+    expect((await schedule.findAll()).size).toBe(0);
+    expect(scheduler.getScheduled()).toEqual([]);
+  });
+
+  it('publishes nothing for a cancelled phase', async () => {
+    await scheduler.schedule(end(10, 1));
+    await scheduler.schedule(end(11, 1));
+
+    await expect(scheduler.cancel(1, 10)).resolves.toBe(true);
+    clock.advance(MINUTE);
+    await settle();
+
+    expect(sentPhases()).toEqual([11]);
+  });
+
+  it('catches up what fell due while it was down and arms the rest', async () => {
+    const overdue = end(10, -5);
+    const later = end(11, 5);
+    await schedule.save(SchedulerService.getKey(overdue), overdue);
+    await schedule.save(SchedulerService.getKey(later), later);
+
+    await module.init();
+    clock.advance(0);
+    await settle();
+
+    expect(sentPhases()).toEqual([10]);
+    expect(scheduler.getScheduled()).toEqual([later]);
+
+    clock.advance(5 * MINUTE);
+    await settle();
+    expect(sentPhases()).toEqual([10, 11]);
+  });
+
+  it('fires on the next start what it failed to publish', async () => {
+    producer.sendPhaseTransition.mockRejectedValueOnce(
+      new Error('broker down'),
+    );
+    await scheduler.schedule(end(10, 1));
+    clock.advance(MINUTE);
+    await settle();
+    expect((await schedule.findAll()).size).toBe(1);
+
+    await module.close();
+    await start(schedule);
+    await module.init();
+    clock.advance(0);
+    await settle();
+
+    expect(sentPhases()).toEqual([10, 10]);
+    expect((await schedule.findAll()).size).toBe(0);
+  });
+
+  it('holds a paused project and shifts its deadlines by the time paused', async () => {
+    await scheduler.schedule(end(10, 1));
+
+    await scheduler.pauseProject(1, 'ops');
+    clock.advance(10 * MINUTE);
+    await settle();
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+
+    await expect(scheduler.resumeProject(1, 'ops')).resolves.toMatchObject({
+      shiftedBy: 10 * MINUTE,
+    });
+    expect(scheduler.isPaused(1)).toBe(false);
+    clock.advance(MINUTE - 1);
+    await settle();
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    await settle();
+    expect(sentPhases()).toEqual([10]);
+  });
+
+  it('stays paused across a restart', async () => {
+    await scheduler.schedule(end(10, 1));
+    await scheduler.pauseProject(1, 'ops');
+
+    await module.close();
+    await start(schedule);
+    await module.init();
+    clock.advance(MINUTE);
+    await settle();
+
+    expect(scheduler.getPause(1)).toMatchObject({ operator: 'ops' });
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+  });
+
+  it('applies the pauses and transitions other replicas stored', async () => {
+    await module.init();
+    const stored = end(10, 1);
+    await schedule.save(SchedulerService.getKey(stored), stored);
+    await schedule.savePause({
+      projectId: 1,
+      pausedAt: clock.toISOString(),
+      operator: 'ops',
+    });
+
+    await scheduler.sync();
+    clock.advance(MINUTE);
+    await settle();
+    expect(scheduler.getScheduled()).toEqual([stored]);
+    expect(scheduler.isPaused(1)).toBe(true);
+    expect(producer.sendPhaseTransition).not.toHaveBeenCalled();
+
+    await schedule.removePause(1);
+    await scheduler.sync();
+    clock.advance(0);
+    await settle();
+    expect(sentPhases()).toEqual([10]);
+  });
+});
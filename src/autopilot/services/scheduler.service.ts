@@ -0,0 +1,679 @@
+import {
+  Inject,
+  Injectable,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { LoggerService } from '../../common/services/logger.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { Clock, TimerHandle } from '../../common/services/clock.service';
+import { runWithCorrelationId } from '../../common/utils/correlation-context';
+import { AuditService } from '../../audit/services/audit.service';
+import { PartitionOwnershipService } from './partition-ownership.service';
+import { BusinessCalendarService } from './business-calendar.service';
+import { ChallengeStateService } from './challenge-state.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { PhaseDependencyService } from './phase-dependency.service';
+import {
+  ProjectPause,
+  ProjectResume,
+  ScheduledTransition,
+} from '../interfaces/autopilot.interface';
+import {
+  SCHEDULE_REPOSITORY,
+  ScheduleRepository,
+} from '../repositories/schedule.repository';
+
+function shiftDate(date: string, by: number): string {
+  return new Date(new Date(date).getTime() + by).toISOString();
+}
+
+interface ScheduledTimer {
+  transition: ScheduledTransition;
+  // Unset while the project is paused or owned by another replica
+  timer?: TimerHandle;
+}
+
+@Injectable()
+export class SchedulerService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new LoggerService(SchedulerService.name);
+  private readonly timers = new Map<string, ScheduledTimer>();
+  private readonly pausedProjects = new Map<number, ProjectPause>();
+  private readonly syncInterval: number;
+  private syncTimer?: TimerHandle;
+  // The store's transitions as last read, to spot what other replicas changed
+  private stored = new Map<string, string>();
+  // Transitions fired here, kept until the store no longer has them
+  private readonly fired = new Map<string, string>();
+  private pendingChange: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly autopilotProducer: AutopilotProducer,
+    @Inject(SCHEDULE_REPOSITORY)
+    private readonly scheduleRepository: ScheduleRepository,
+    private readonly clock: Clock,
+    private readonly auditService: AuditService,
+    private readonly ownershipService: PartitionOwnershipService,
+    private readonly calendarService: BusinessCalendarService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly challengeProjectionService: ChallengeProjectionService,
+    private readonly phaseDependencyService: PhaseDependencyService,
+  ) {
+    this.syncInterval = this.configService.get<number>(
+      'autopilot.scheduler.syncInterval',
+      5000,
+    );
+  }
+
+  static getKey(
+    transition: Pick<ScheduledTransition, 'projectId' | 'phaseId' | 'state'>,
+  ): string {
+    return `${transition.projectId}:${transition.phaseId}:${transition.state}`;
+  }
+
+  async onModuleInit(): Promise<void> {
+    this.ownershipService.onChange(() => this.rebalance());
+    await this.restore();
+    if (this.ownershipService.isCoordinated()) {
+      this.armSync();
+    }
+  }
+
+  /**
+   * Re-reads the stores after partition ownership changed, so timers of
+   * projects that moved here are armed and those that moved away are not.
+   * The states and timelines those timers act on were kept up to date by
+   * the previous owner, so they are loaded first.
+   */
+  rebalance(): Promise<void> {
+    return this.serialize(async () => {
+      const owns = (projectId: number) => this.ownershipService.owns(projectId);
+      await this.challengeProjectionService.restore(owns);
+      await this.challengeStateService.restore(owns);
+      await this.phaseDependencyService.restore();
+
+      for (const { timer } of this.timers.values()) {
+        if (timer) {
+          this.clock.clearTimeout(timer);
+        }
+      }
+      this.timers.clear();
+      this.pausedProjects.clear();
+      await this.restore();
+    });
+  }
+
+  /**
+   * Applies what other replicas changed in the shared store since it was
+   * last read, for instance while ownership moved: transitions they
+   * scheduled, moved or cancelled, projects they paused or resumed, and
+   * timelines they loaded. Runs every `syncInterval` while coordinating.
+   */
+  sync(): Promise<void> {
+    return this.serialize(async () => {
+      // Timelines loaded elsewhere decide which phases follow here
+      await this.phaseDependencyService.restore();
+      const pauses = new Map(
+        (await this.scheduleRepository.findPauses()).map((pause) => [
+          pause.projectId,
+          pause,
+        ]),
+      );
+      const pending = await this.scheduleRepository.findAll();
+
+      const held: number[] = [];
+      const released: number[] = [];
+      for (const [projectId, pause] of pauses) {
+        if (!this.pausedProjects.has(projectId)) {
+          this.pausedProjects.set(projectId, pause);
+          held.push(projectId);
+        }
+      }
+      for (const projectId of this.pausedProjects.keys()) {
+        if (!pauses.has(projectId)) {
+          this.pausedProjects.delete(projectId);
+          released.push(projectId);
+        }
+      }
+
+      const stored = new Map<string, string>();
+      let armed = 0;
+      let cancelled = 0;
+      for (const [key, transition] of pending) {
+        const serialized = JSON.stringify(transition);
+        stored.set(key, serialized);
+        if (
+          this.stored.get(key) !== serialized &&
+          this.fired.get(key) !== serialized
+        ) {
+          this.arm(key, transition);
+          armed++;
+        }
+      }
+      for (const key of this.stored.keys()) {
+        if (!stored.has(key) && this.clearTimer(key)) {
+          cancelled++;
+        }
+      }
+      for (const key of this.fired.keys()) {
+        if (!stored.has(key)) {
+          this.fired.delete(key);
+        }
+      }
+      this.stored = stored;
+
+      for (const [key, entry] of this.timers) {
+        const { projectId } = entry.transition;
+        if (held.includes(projectId) && entry.timer) {
+          this.clock.clearTimeout(entry.timer);
+          entry.timer = undefined;
+        } else if (released.includes(projectId)) {
+          this.arm(key, entry.transition);
+        }
+      }
+
+      if (armed || cancelled || held.length || released.length) {
+        this.logger.info('Applied schedule changes from the store', {
+          armed,
+          cancelled,
+          paused: held,
+          resumed: released,
+        });
+      }
+    });
+  }
+
+  private async restore(): Promise<void> {
+    for (const pause of await this.scheduleRepository.findPauses()) {
+      this.pausedProjects.set(pause.projectId, pause);
+    }
+
+    const pending = await this.scheduleRepository.findAll();
+    this.stored = new Map(
+      Array.from(pending, ([key, transition]) => [
+        key,
+        JSON.stringify(transition),
+      ]),
+    );
+    let overdue = 0;
+    let armed = 0;
+
+    for (const [key, transition] of pending) {
+      // Still in the store while it is being fired
+      if (this.fired.get(key) === JSON.stringify(transition)) {
+        continue;
+      }
+      this.arm(key, transition);
+      if (!this.timers.get(key)?.timer) {
+        continue;
+      }
+      armed++;
+      const fireAt = new Date(transition.fireAt).getTime();
+      if (fireAt <= this.clock.now()) {
+        overdue++;
+        this.logger.warn(`Catching up overdue ${transition.state} for phase`, {
+          projectId: transition.projectId,
+          phaseId: transition.phaseId,
+          fireAt: transition.fireAt,
+          overdueBy: this.clock.now() - fireAt,
+        });
+      }
+    }
+
+    this.logger.info('Restored scheduled transitions', {
+      count: pending.size,
+      armed,
+      overdue,
+      pausedProjects: this.pausedProjects.size,
+    });
+  }
+
+  /**
+   * Persists and arms a transition, moving END deadlines onto business time
+   * first. Returns the transition as scheduled.
+   */
+  async schedule(
+    requested: ScheduledTransition,
+    operator: string = CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+  ): Promise<ScheduledTransition | undefined> {
+    const fireAt = new Date(requested.fireAt).getTime();
+    if (Number.isNaN(fireAt)) {
+      this.logger.warn('Ignoring transition with invalid fire time', {
+        transition: requested,
+      });
+      return undefined;
+    }
+    const transition =
+      requested.state === 'END' ? this.applyCalendar(requested) : requested;
+
+    const key = SchedulerService.getKey(transition);
+    const previous = this.clearTimer(key);
+    await this.scheduleRepository.save(key, transition);
+    this.arm(key, transition);
+
+    this.logger.info(`Scheduled ${transition.state} for phase`, {
+      projectId: transition.projectId,
+      phaseId: transition.phaseId,
+      fireAt: transition.fireAt,
+    });
+    await this.auditService.record({
+      type: 'TIMER_SCHEDULED',
+      projectId: transition.projectId,
+      phaseId: transition.phaseId,
+      operator,
+      before: previous?.fireAt,
+      after: transition.fireAt,
+      reason: [
+        `${previous ? 'Rescheduled' : 'Scheduled'} ${transition.state} for phase ${transition.phaseTypeName}`,
+        transition.adjustmentReason,
+      ]
+        .filter(Boolean)
+        .join('. '),
+      details: transition.originalFireAt
+        ? { originalFireAt: transition.originalFireAt }
+        : undefined,
+    });
+    return transition;
+  }
+
+  async cancel(
+    projectId: number,
+    phaseId: number,
+    operator: string = CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+  ): Promise<boolean> {
+    let cancelled = false;
+    for (const state of ['START', 'END'] as const) {
+      const key = SchedulerService.getKey({ projectId, phaseId, state });
+      const transition = this.clearTimer(key);
+      await this.scheduleRepository.remove(key);
+      if (transition) {
+        cancelled = true;
+        this.logger.info(`Cancelled scheduled ${state} for phase`, {
+          projectId,
+          phaseId,
+        });
+        await this.auditCancellation(transition, operator);
+      }
+    }
+    return cancelled;
+  }
+
+  async cancelProject(
+    projectId: number,
+    operator: string = CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+  ): Promise<number> {
+    const keys = Array.from(this.timers.entries())
+      .filter(([, { transition }]) => transition.projectId === projectId)
+      .map(([key]) => key);
+
+    for (const key of keys) {
+      const transition = this.clearTimer(key);
+      await this.scheduleRepository.remove(key);
+      if (transition) {
+        await this.auditCancellation(transition, operator);
+      }
+    }
+    if (keys.length) {
+      this.logger.info('Cancelled scheduled transitions for project', {
+        projectId,
+        count: keys.length,
+      });
+    }
+    return keys.length;
+  }
+
+  async reschedule(
+    projectId: number,
+    phaseId: number,
+    state: ScheduledTransition['state'],
+    fireAt: string,
+    operator: string = CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+  ): Promise<ScheduledTransition | undefined> {
+    const existing = this.timers.get(
+      SchedulerService.getKey({ projectId, phaseId, state }),
+    );
+    if (!existing) {
+      return undefined;
+    }
+
+    return this.schedule({ ...existing.transition, fireAt }, operator);
+  }
+
+  /**
+   * Moves the phase's scheduled START and END, and the deadline a scheduled
+   * START carries, `delta` ms later. Returns the transitions as rescheduled.
+   */
+  async shift(
+    projectId: number,
+    phaseId: number,
+    delta: number,
+    operator: string = CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+  ): Promise<ScheduledTransition[]> {
+    const shifted: ScheduledTransition[] = [];
+    for (const state of ['START', 'END'] as const) {
+      const existing = this.timers.get(
+        SchedulerService.getKey({ projectId, phaseId, state }),
+      );
+      if (!existing) {
+        continue;
+      }
+
+      const { transition } = existing;
+      const moved = await this.schedule(
+        {
+          ...transition,
+          fireAt: shiftDate(transition.fireAt, delta),
+          scheduledEndDate:
+            transition.scheduledEndDate &&
+            shiftDate(transition.scheduledEndDate, delta),
+        },
+        operator,
+      );
+      if (moved) {
+        shifted.push(moved);
+      }
+    }
+    return shifted;
+  }
+
+  /**
+   * Holds the project's transitions until it is resumed. Returns undefined if
+   * the project is already paused.
+   */
+  async pauseProject(
+    projectId: number,
+    operator: string,
+  ): Promise<ProjectPause | undefined> {
+    if (this.pausedProjects.has(projectId)) {
+      return undefined;
+    }
+
+    const pause: ProjectPause = {
+      projectId,
+      pausedAt: this.clock.toISOString(),
+      operator,
+    };
+    await this.scheduleRepository.savePause(pause);
+    this.pausedProjects.set(projectId, pause);
+
+    for (const entry of this.timers.values()) {
+      if (entry.transition.projectId === projectId && entry.timer) {
+        this.clock.clearTimeout(entry.timer);
+        entry.timer = undefined;
+      }
+    }
+    this.logger.info('Holding scheduled transitions for paused project', {
+      projectId,
+      operator,
+    });
+    await this.auditService.record({
+      type: 'PROJECT_PAUSED',
+      projectId,
+      operator,
+      after: pause.pausedAt,
+      reason: 'Scheduled transitions held until the project is resumed',
+    });
+    return pause;
+  }
+
+  /**
+   * Releases a paused project, shifting each held transition by the time the
+   * project spent paused. Returns undefined if the project is not paused.
+   */
+  async resumeProject(
+    projectId: number,
+    operator: string,
+  ): Promise<ProjectResume | undefined> {
+    const pause = this.pausedProjects.get(projectId);
+    if (!pause) {
+      return undefined;
+    }
+
+    const resumedAt = this.clock.date();
+    const shiftedBy = Math.max(
+      resumedAt.getTime() - new Date(pause.pausedAt).getTime(),
+      0,
+    );
+
+    const held = Array.from(this.timers.entries()).filter(
+      ([, { transition }]) => transition.projectId === projectId,
+    );
+    for (const [key, entry] of held) {
+      // Shifted from the requested deadline, then put on business time again
+      const shifted: ScheduledTransition = {
+        ...entry.transition,
+        fireAt: shiftDate(
+          entry.transition.originalFireAt ?? entry.transition.fireAt,
+          shiftedBy,
+        ),
+        scheduledEndDate:
+          entry.transition.scheduledEndDate &&
+          shiftDate(entry.transition.scheduledEndDate, shiftedBy),
+      };
+      entry.transition =
+        shifted.state === 'END' ? this.applyCalendar(shifted) : shifted;
+      await this.scheduleRepository.save(key, entry.transition);
+    }
+
+    await this.scheduleRepository.removePause(projectId);
+    this.pausedProjects.delete(projectId);
+    for (const [key, entry] of held) {
+      this.arm(key, entry.transition);
+    }
+
+    this.logger.info('Released scheduled transitions for resumed project', {
+      projectId,
+      operator,
+      shiftedBy,
+      count: held.length,
+    });
+    await this.auditService.record({
+      type: 'PROJECT_RESUMED',
+      projectId,
+      operator,
+      before: pause.pausedAt,
+      after: resumedAt.toISOString(),
+      reason: `Held transitions shifted by ${shiftedBy}ms`,
+      details: { shiftedBy, count: held.length },
+    });
+    return {
+      ...pause,
+      operator,
+      resumedAt: resumedAt.toISOString(),
+      shiftedBy,
+    };
+  }
+
+  getPause(projectId: number): ProjectPause | undefined {
+    return this.pausedProjects.get(projectId);
+  }
+
+  isPaused(projectId: number): boolean {
+    return this.pausedProjects.has(projectId);
+  }
+
+  getScheduled(projectId?: number): ScheduledTransition[] {
+    return Array.from(this.timers.values())
+      .map(({ transition }) => transition)
+      .filter(
+        (transition) =>
+          projectId === undefined || transition.projectId === projectId,
+      );
+  }
+
+  onApplicationShutdown(): void {
+    if (this.syncTimer) {
+      this.clock.clearTimeout(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+    for (const { timer } of this.timers.values()) {
+      if (timer) {
+        this.clock.clearTimeout(timer);
+      }
+    }
+    this.logger.info('Released in-memory timers, pending transitions persist', {
+      count: this.timers.size,
+    });
+    this.timers.clear();
+  }
+
+  private arm(key: string, transition: ScheduledTransition): void {
+    const existing = this.timers.get(key)?.timer;
+    if (existing) {
+      this.clock.clearTimeout(existing);
+    }
+
+    if (
+      this.pausedProjects.has(transition.projectId) ||
+      !this.ownershipService.owns(transition.projectId)
+    ) {
+      this.timers.set(key, { transition });
+      return;
+    }
+
+    const remaining = new Date(transition.fireAt).getTime() - this.clock.now();
+    // Long phases exceed the setTimeout limit, so re-arm until they are due
+    const delay = Math.min(
+      Math.max(remaining, 0),
+      CONFIG.AUTOPILOT.MAX_TIMER_DELAY,
+    );
+
+    const timer = this.clock.setTimeout(() => {
+      if (new Date(transition.fireAt).getTime() > this.clock.now()) {
+        this.arm(key, transition);
+        return;
+      }
+      this.timers.delete(key);
+      this.fired.set(key, JSON.stringify(transition));
+      void runWithCorrelationId(uuidv4(), () => this.fire(key, transition));
+    }, delay);
+
+    this.timers.set(key, { transition, timer });
+  }
+
+  private async fire(
+    key: string,
+    transition: ScheduledTransition,
+  ): Promise<void> {
+    try {
+      await this.auditService.record({
+        type: 'TIMER_FIRED',
+        projectId: transition.projectId,
+        phaseId: transition.phaseId,
+        operator: CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+        before: transition.fireAt,
+        after: transition.state,
+        reason: `Scheduled ${transition.state} for phase ${transition.phaseTypeName} is due`,
+      });
+      await this.autopilotProducer.sendPhaseTransition({
+        projectId: transition.projectId,
+        phaseId: transition.phaseId,
+        phaseTypeName: transition.phaseTypeName,
+        state: transition.state,
+        operator: CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+        projectStatus: transition.projectStatus,
+        date: this.clock.toISOString(),
+        scheduledEndDate: transition.scheduledEndDate,
+        reason: transition.adjustmentReason,
+      });
+      await this.scheduleRepository.remove(key);
+      this.logger.info(`Fired scheduled ${transition.state} for phase`, {
+        projectId: transition.projectId,
+        phaseId: transition.phaseId,
+      });
+    } catch (error) {
+      const err = error as Error;
+      // The entry stays persisted so the next startup catches it up
+      this.fired.delete(key);
+      this.logger.error('Failed to fire scheduled transition', {
+        error: err.stack || err.message,
+        transition,
+      });
+    }
+  }
+
+  private armSync(): void {
+    this.syncTimer = this.clock.setTimeout(() => {
+      void runWithCorrelationId(uuidv4(), async () => {
+        try {
+          await this.sync();
+        } catch (error) {
+          const err = error as Error;
+          this.logger.error('Failed to apply schedule changes from the store', {
+            error: err.stack || err.message,
+          });
+        }
+        this.armSync();
+      });
+    }, this.syncInterval);
+  }
+
+  /** Runs `change` once the rebalance or sync before it has finished. */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const next = this.pendingChange.then(change, change);
+    this.pendingChange = next.catch(() => undefined);
+    return next;
+  }
+
+  private applyCalendar(transition: ScheduledTransition): ScheduledTransition {
+    // A rescheduled deadline is judged afresh from what was asked for
+    const requested: ScheduledTransition = {
+      ...transition,
+      originalFireAt: undefined,
+      adjustmentReason: undefined,
+    };
+    const adjustment = this.calendarService.adjustDeadline(
+      new Date(requested.fireAt),
+      requested.phaseTypeName,
+      requested.startedAt ? new Date(requested.startedAt) : this.clock.date(),
+    );
+    if (!adjustment.adjusted) {
+      return requested;
+    }
+
+    this.logger.info('Moved phase deadline onto business time', {
+      projectId: requested.projectId,
+      phaseId: requested.phaseId,
+      requested: adjustment.originalDeadline,
+      fireAt: adjustment.deadline,
+      reason: adjustment.reason,
+    });
+    return {
+      ...requested,
+      fireAt: adjustment.deadline,
+      originalFireAt: adjustment.originalDeadline,
+      adjustmentReason: adjustment.reason,
+    };
+  }
+
+  private auditCancellation(
+    transition: ScheduledTransition,
+    operator: string,
+  ): Promise<void> {
+    return this.auditService.record({
+      type: 'TIMER_CANCELLED',
+      projectId: transition.projectId,
+      phaseId: transition.phaseId,
+      operator,
+      before: transition.fireAt,
+      reason: `Cancelled scheduled ${transition.state} for phase ${transition.phaseTypeName}`,
+    });
+  }
+
+  /** Stops the timer for `key`, returning the transition it held. */
+  private clearTimer(key: string): ScheduledTransition | undefined {
+    const existing = this.timers.get(key);
+    if (!existing) {
+      return undefined;
+    }
+    if (existing.timer) {
+      this.clock.clearTimeout(existing.timer);
+    }
+    this.timers.delete(key);
+    return existing.transition;
+  }
+}
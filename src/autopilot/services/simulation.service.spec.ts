@@ -0,0 +1,101 @@
+import { SimulationService } from './simulation.service';
+import { BusinessCalendarService } from './business-calendar.service';
+import { SimulationRequest } from '../interfaces/autopilot.interface';
+import { KAFKA_TOPICS } from '../../kafka/constants/topics';
+import { createTestingModule, NOW } from '../../testing/fixtures';
+
+describe('SimulationService', () => {
+  const HOUR = 3_600_000;
+  const request: SimulationRequest = {
+    projectId: 1,
+    projectStatus: 'ACTIVE',
+    phases: [
+      { phaseId: 10, phaseTypeName: 'Registration', duration: HOUR },
+      {
+        phaseId: 11,
+        phaseTypeName: 'Submission',
+        duration: 2 * HOUR,
+        predecessorId: 10,
+      },
+    ],
+    events: [
+      {
+        at: NOW,
+        type: 'PHASE_TRANSITION',
+        phaseId: 10,
+        state: 'START',
+        scheduledEndDate: new Date(Date.parse(NOW) + HOUR).toISOString(),
+      },
+    ],
+  };
+
+  let service: SimulationService;
+
+  beforeEach(async () => {
+    const module = await createTestingModule({
+      providers: [SimulationService, BusinessCalendarService],
+      config: {
+        'autopilot.scheduler.store': 'file',
+        'autopilot.rules.path': 'spec/no-rules',
+      },
+    });
+    service = module.get(SimulationService);
+  });
+
+  const at = (hours: number) =>
+    new Date(Date.parse(NOW) + hours * HOUR).toISOString();
+
+  it('plays the timeline out on its virtual clock', async () => {
+    const result = await service.run(request);
+
+    expect(result).toMatchObject({ startedAt: at(0), finishedAt: at(3) });
+    expect(
+      result.transitions.map(({ at, id, to, source }) => [at, id, to, source]),
+    ).toEqual([
+      [at(0), 10, 'OPEN', 'event'],
+      [at(1), 10, 'CLOSED', 'autopilot'],
+      [at(1), 11, 'OPEN', 'autopilot'],
+      [at(3), 11, 'CLOSED', 'autopilot'],
+    ]);
+    expect(
+      result.messages
+        .filter(({ topic }) => topic === KAFKA_TOPICS.PHASE_TRANSITION)
+        .map(({ at, payload }) => [at, payload]),
+    ).toEqual([
+      [at(1), expect.objectContaining({ phaseId: 10, state: 'END' })],
+      [at(1), expect.objectContaining({ phaseId: 11, state: 'START' })],
+      [at(3), expect.objectContaining({ phaseId: 11, state: 'END' })],
+    ]);
+    expect(result.pending).toEqual([]);
+  });
+
+  it('reports rejected events and leaves what lies past until pending', async () => {
+    const result = await service.run({
+      ...request,
+      events: [
+        ...request.events,
+        { at: at(0.5), type: 'PHASE_TRANSITION', phaseId: 11, state: 'END' },
+      ],
+      until: at(0.5),
+    });
+
+    expect(result.rejections).toEqual([
+      expect.objectContaining({
+        at: at(0.5),
+        event: expect.objectContaining({
+          phaseId: 11,
+          state: 'END',
+        }) as unknown,
+      }),
+    ]);
+    expect(result.pending).toEqual([
+      expect.objectContaining({ phaseId: 10, state: 'END', fireAt: at(1) }),
+    ]);
+  });
+
+  it('starts every run afresh', async () => {
+    const first = await service.run(request);
+
+    await expect(service.run(request)).resolves.toEqual(first);
+  });
+});
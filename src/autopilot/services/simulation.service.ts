@@ -0,0 +1,402 @@
+import { INestApplicationContext, Injectable, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock, FakeClock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { IllegalTransitionException } from '../../common/exceptions/autopilot.exception';
+import { KafkaService } from '../../kafka/kafka.service';
+import {
+  AUTOPILOT_INBOUND_TOPICS,
+  KAFKA_TOPICS,
+} from '../../kafka/constants/topics';
+import { KafkaMessageTemplate } from '../../kafka/templates/kafka.template';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { WebhookDeliveryService } from '../../webhooks/services/webhook-delivery.service';
+import { AuditService } from '../../audit/services/audit.service';
+import { AUDIT_REPOSITORY } from '../../audit/repositories/audit.repository';
+import { InMemoryAuditRepository } from '../../audit/repositories/in-memory-audit.repository';
+import { AutopilotService } from './autopilot.service';
+import { ChallengeStateService } from './challenge-state.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { PhaseDependencyService } from './phase-dependency.service';
+import { BusinessCalendarService } from './business-calendar.service';
+import { NotificationService } from './notification.service';
+import { PartitionOwnershipService } from './partition-ownership.service';
+import { SchedulerService } from './scheduler.service';
+import { RulesEngineService } from '../rules/rules-engine.service';
+import { CommandRegistryService } from '../commands/command-registry.service';
+import { CancelScheduleHandler } from '../commands/handlers/cancel-schedule.handler';
+import { ReschedulePhaseHandler } from '../commands/handlers/reschedule-phase.handler';
+import { PauseProjectHandler } from '../commands/handlers/pause-project.handler';
+import { ResumeProjectHandler } from '../commands/handlers/resume-project.handler';
+import { ForceClosePhaseHandler } from '../commands/handlers/force-close-phase.handler';
+import { LoadTimelineHandler } from '../commands/handlers/load-timeline.handler';
+import { ReopenPhaseHandler } from '../commands/handlers/reopen-phase.handler';
+import { SkipPhaseHandler } from '../commands/handlers/skip-phase.handler';
+import { ExtendPhaseHandler } from '../commands/handlers/extend-phase.handler';
+import { SCHEDULE_REPOSITORY } from '../repositories/schedule.repository';
+import { InMemoryScheduleRepository } from '../repositories/in-memory-schedule.repository';
+import { CHALLENGE_VIEW_REPOSITORY } from '../repositories/challenge-view.repository';
+import { InMemoryChallengeViewRepository } from '../repositories/in-memory-challenge-view.repository';
+import { TIMELINE_REPOSITORY } from '../repositories/timeline.repository';
+import { InMemoryTimelineRepository } from '../repositories/in-memory-timeline.repository';
+import { COMMAND_RESULT_REPOSITORY } from '../repositories/command-result.repository';
+import { InMemoryCommandResultRepository } from '../repositories/in-memory-command-result.repository';
+import {
+  ChallengeUpdatePayload,
+  CommandPayload,
+  PhaseTransitionPayload,
+  SimulatedMessage,
+  SimulationEvent,
+  SimulationRequest,
+  SimulationResult,
+} from '../interfaces/autopilot.interface';
+
+type SimulatedPayload = SimulatedMessage['payload'];
+
+/** A message waiting to be consumed by the simulated autopilot. */
+interface Delivery {
+  source: 'event' | 'autopilot';
+  topic: string;
+  payload: SimulatedPayload;
+}
+
+// Providers are given per run, when the module is compiled
+@Module({})
+class SimulatedAutopilotModule {}
+
+/** One simulation's own autopilot, wired as `AutopilotModule` wires it. */
+interface SimulatedAutopilot {
+  context: INestApplicationContext;
+  autopilotService: AutopilotService;
+  schedulerService: SchedulerService;
+  phaseDependencyService: PhaseDependencyService;
+  auditRepository: InMemoryAuditRepository;
+  // Audit entries already turned into transitions
+  audited: number;
+}
+
+/**
+ * Runs hypothetical events through the autopilot's own handlers on a virtual
+ * clock. Each run compiles its own scheduler, state, projection, timeline,
+ * rules engine and command handlers over in-memory stores, with a producer
+ * that records what would be published instead of sending it. Inbound
+ * messages it records are consumed again, as Kafka would deliver them, so
+ * early closures, rule actions, commands and their results all happen as
+ * they would live.
+ */
+@Injectable()
+export class SimulationService {
+  private readonly logger = new LoggerService(SimulationService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clock: Clock,
+    private readonly calendarService: BusinessCalendarService,
+  ) {}
+
+  async run(request: SimulationRequest): Promise<SimulationResult> {
+    const events = request.events
+      .map((event) => ({ at: new Date(event.at).getTime(), event }))
+      .sort((a, b) => a.at - b.at);
+
+    // Events may lie in the past, so the virtual clock starts at the first one
+    const virtualClock = new FakeClock(events[0]?.at ?? this.clock.now());
+    const result: SimulationResult = {
+      projectId: request.projectId,
+      startedAt: virtualClock.toISOString(),
+      finishedAt: '',
+      transitions: [],
+      messages: [],
+      rejections: [],
+      pending: [],
+    };
+    const deliveries: Delivery[] = [];
+    const autopilot = await this.createAutopilot(
+      request,
+      virtualClock,
+      (topic, payload) => {
+        result.messages.push({
+          at: virtualClock.toISOString(),
+          topic,
+          payload,
+        });
+        if ((AUTOPILOT_INBOUND_TOPICS as readonly string[]).includes(topic)) {
+          deliveries.push({ source: 'autopilot', topic, payload });
+        }
+      },
+    );
+
+    try {
+      await this.simulate(
+        request,
+        events,
+        virtualClock,
+        autopilot,
+        deliveries,
+        result,
+      );
+    } finally {
+      await autopilot.context.close();
+    }
+    return result;
+  }
+
+  private async simulate(
+    request: SimulationRequest,
+    events: { at: number; event: SimulationEvent }[],
+    virtualClock: FakeClock,
+    autopilot: SimulatedAutopilot,
+    deliveries: Delivery[],
+    result: SimulationResult,
+  ): Promise<void> {
+    const until = request.until ? new Date(request.until).getTime() : Infinity;
+    let steps = 0;
+
+    for (;;) {
+      const eventAt = events[0]?.at ?? Infinity;
+      const timerAt = virtualClock.getNextTimerAt() ?? Infinity;
+      if (
+        !deliveries.length &&
+        (Math.min(eventAt, timerAt) === Infinity ||
+          Math.min(eventAt, timerAt) > until)
+      ) {
+        break;
+      }
+      if (++steps > CONFIG.AUTOPILOT.SIMULATION_MAX_STEPS) {
+        this.logger.warn('Simulation stopped at the step limit', {
+          projectId: request.projectId,
+          steps: CONFIG.AUTOPILOT.SIMULATION_MAX_STEPS,
+        });
+        break;
+      }
+
+      // What autopilot published is consumed before time moves on
+      const delivery = deliveries.shift();
+      if (delivery) {
+        await this.deliver(autopilot, delivery, virtualClock, result);
+      } else if (timerAt <= eventAt) {
+        virtualClock.setTime(timerAt);
+        // Timers publish asynchronously; in memory that settles in one turn
+        await new Promise((resolve) => setImmediate(resolve));
+      } else {
+        const { at, event } = events.shift()!;
+        virtualClock.setTime(at);
+        await this.deliver(
+          autopilot,
+          this.toDelivery(request, event, autopilot),
+          virtualClock,
+          result,
+        );
+      }
+    }
+
+    result.finishedAt = virtualClock.toISOString();
+    result.pending = autopilot.schedulerService.getScheduled();
+  }
+
+  private async createAutopilot(
+    request: SimulationRequest,
+    clock: FakeClock,
+    capture: (topic: string, payload: SimulatedPayload) => void,
+  ): Promise<SimulatedAutopilot> {
+    // Every project is owned here, so its timers are armed on this clock
+    const autopilotConfig = this.configService.get<{
+      scheduler?: Record<string, unknown>;
+    }>('autopilot', {});
+    const configService = new ConfigService({
+      autopilot: {
+        ...autopilotConfig,
+        scheduler: { ...autopilotConfig.scheduler, coordination: 'none' },
+      },
+    });
+
+    const auditRepository = new InMemoryAuditRepository(Infinity);
+    const context = await NestFactory.createApplicationContext({
+      module: SimulatedAutopilotModule,
+      providers: [
+        AutopilotService,
+        SchedulerService,
+        ChallengeStateService,
+        PhaseDependencyService,
+        PartitionOwnershipService,
+        NotificationService,
+        ChallengeProjectionService,
+        RulesEngineService,
+        CommandRegistryService,
+        CancelScheduleHandler,
+        ReschedulePhaseHandler,
+        PauseProjectHandler,
+        ResumeProjectHandler,
+        ForceClosePhaseHandler,
+        LoadTimelineHandler,
+        ReopenPhaseHandler,
+        SkipPhaseHandler,
+        ExtendPhaseHandler,
+        AutopilotProducer,
+        AuditService,
+        { provide: ConfigService, useValue: configService },
+        { provide: Clock, useValue: clock },
+        { provide: BusinessCalendarService, useValue: this.calendarService },
+        {
+          provide: KafkaService,
+          useValue: {
+            produce: (
+              topic: string,
+              message: KafkaMessageTemplate<SimulatedPayload>,
+            ): Promise<void> => {
+              capture(topic, message.payload);
+              return Promise.resolve();
+            },
+          },
+        },
+        {
+          provide: WebhookDeliveryService,
+          useValue: { dispatch: (): Promise<void> => Promise.resolve() },
+        },
+        { provide: AUDIT_REPOSITORY, useValue: auditRepository },
+        { provide: SCHEDULE_REPOSITORY, useClass: InMemoryScheduleRepository },
+        { provide: TIMELINE_REPOSITORY, useClass: InMemoryTimelineRepository },
+        {
+          provide: CHALLENGE_VIEW_REPOSITORY,
+          useClass: InMemoryChallengeViewRepository,
+        },
+        {
+          provide: COMMAND_RESULT_REPOSITORY,
+          useClass: InMemoryCommandResultRepository,
+        },
+      ],
+    });
+
+    const dependencies = context.get(PhaseDependencyService);
+    await dependencies.setTimeline({
+      projectId: request.projectId,
+      projectStatus: request.projectStatus,
+      phases: request.phases,
+    });
+
+    return {
+      context,
+      autopilotService: context.get(AutopilotService),
+      schedulerService: context.get(SchedulerService),
+      phaseDependencyService: dependencies,
+      auditRepository,
+      audited: 0,
+    };
+  }
+
+  private async deliver(
+    autopilot: SimulatedAutopilot,
+    { source, topic, payload }: Delivery,
+    clock: Clock,
+    result: SimulationResult,
+  ): Promise<void> {
+    const at = clock.toISOString();
+    try {
+      switch (topic) {
+        case KAFKA_TOPICS.PHASE_TRANSITION:
+          await autopilot.autopilotService.handlePhaseTransition(
+            payload as PhaseTransitionPayload,
+          );
+          break;
+        case KAFKA_TOPICS.CHALLENGE_UPDATE:
+          await autopilot.autopilotService.handleChallengeUpdate(
+            payload as ChallengeUpdatePayload,
+          );
+          break;
+        case KAFKA_TOPICS.COMMAND:
+          await autopilot.autopilotService.handleCommand(
+            payload as CommandPayload,
+          );
+          break;
+      }
+    } catch (error) {
+      if (!(error instanceof IllegalTransitionException)) {
+        throw error;
+      }
+      result.rejections.push({
+        at,
+        reason: error.message,
+        event: payload as PhaseTransitionPayload | ChallengeUpdatePayload,
+      });
+    }
+
+    // The handlers audit every state they change
+    const entries = Array.from(autopilot.auditRepository.scan());
+    for (const entry of entries.slice(autopilot.audited)) {
+      if (entry.type !== 'STATE_CHANGED') {
+        continue;
+      }
+      result.transitions.push({
+        at,
+        entity: entry.phaseId === undefined ? 'CHALLENGE' : 'PHASE',
+        id: entry.phaseId ?? (payload as ChallengeUpdatePayload).challengeId,
+        from: entry.before,
+        to: entry.after as string,
+        source,
+      });
+    }
+    autopilot.audited = entries.length;
+  }
+
+  private toDelivery(
+    request: SimulationRequest,
+    event: SimulationEvent,
+    autopilot: SimulatedAutopilot,
+  ): Delivery {
+    const operator = event.operator || 'simulation';
+
+    if (event.type === 'COMMAND') {
+      return {
+        source: 'event',
+        topic: KAFKA_TOPICS.COMMAND,
+        payload: {
+          command: event.command ?? '',
+          operator,
+          projectId: request.projectId,
+          parameters: event.parameters,
+          date: event.at,
+        },
+      };
+    }
+
+    if (event.type === 'CHALLENGE_UPDATE') {
+      return {
+        source: 'event',
+        topic: KAFKA_TOPICS.CHALLENGE_UPDATE,
+        payload: {
+          projectId: request.projectId,
+          challengeId: event.challengeId ?? request.projectId,
+          status: event.status ?? '',
+          operator,
+          date: event.at,
+          phaseId: event.phaseId,
+          submissionCount: event.submissionCount,
+          reviewCount: event.reviewCount,
+          requiredReviewCount: event.requiredReviewCount,
+          workComplete: event.workComplete,
+          challengeType: event.challengeType,
+        },
+      };
+    }
+
+    const phaseId = event.phaseId as number;
+    return {
+      source: 'event',
+      topic: KAFKA_TOPICS.PHASE_TRANSITION,
+      payload: {
+        projectId: request.projectId,
+        phaseId,
+        phaseTypeName:
+          autopilot.phaseDependencyService.getPhase(request.projectId, phaseId)
+            ?.phaseTypeName ?? 'Unknown',
+        state: event.state ?? 'START',
+        operator,
+        projectStatus: request.projectStatus,
+        date: event.at,
+        scheduledEndDate: event.scheduledEndDate,
+      },
+    };
+  }
+}
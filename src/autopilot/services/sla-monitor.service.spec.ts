@@ -0,0 +1,154 @@
+import { TestingModule } from '@nestjs/testing';
+import { SlaMonitorService } from './sla-monitor.service';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { SchedulerService } from './scheduler.service';
+import { PartitionOwnershipService } from './partition-ownership.service';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { FakeClock } from '../../common/services/clock.service';
+import { PhaseTransitionPayload } from '../interfaces/autopilot.interface';
+import {
+  createClock,
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+} from '../../testing/fixtures';
+
+describe('SlaMonitorService', () => {
+  const MINUTE = 60_000;
+  const GRACE = 15 * MINUTE;
+
+  let clock: FakeClock;
+  let producer: FakeProducer;
+  let scheduler: jest.Mocked<
+    Pick<SchedulerService, 'getScheduled' | 'isPaused'>
+  >;
+  let module: TestingModule;
+  let projection: ChallengeProjectionService;
+  let monitor: SlaMonitorService;
+
+  const inMinutes = (minutes: number) =>
+    new Date(clock.now() + minutes * MINUTE).toISOString();
+  const transition = (
+    state: 'START' | 'END',
+    scheduledEndDate?: string,
+  ): PhaseTransitionPayload => ({
+    projectId: 1,
+    phaseId: 10,
+    phaseTypeName: 'Review',
+    state,
+    operator: 'autopilot',
+    projectStatus: 'ACTIVE',
+    date: clock.toISOString(),
+    scheduledEndDate,
+  });
+  const alerts = () =>
+    producer.sendSlaAlert.mock.calls.map(([{ type }]) => type);
+
+  beforeEach(async () => {
+    clock = createClock();
+    producer = createProducer();
+    scheduler = {
+      getScheduled: jest.fn().mockReturnValue([]),
+      isPaused: jest.fn().mockReturnValue(false),
+    };
+    module = await createTestingModule({
+      providers: [
+        SlaMonitorService,
+        ChallengeProjectionService,
+        { provide: SchedulerService, useValue: scheduler },
+        { provide: PartitionOwnershipService, useValue: { owns: () => true } },
+        { provide: AutopilotProducer, useValue: producer },
+      ],
+      config: {
+        'autopilot.sla.gracePeriod': GRACE,
+        'autopilot.sla.checkInterval': MINUTE,
+      },
+      clock,
+    });
+    projection = module.get(ChallengeProjectionService);
+    monitor = module.get(SlaMonitorService);
+
+    await projection.applyPhaseTransition(transition('START', inMinutes(60)), {
+      from: 'NOT_STARTED',
+      to: 'OPEN',
+    });
+  });
+
+  afterEach(() => module.close());
+
+  it('alerts once for a phase open past its grace period', async () => {
+    clock.advance(60 * MINUTE + GRACE);
+    await expect(monitor.check()).resolves.toEqual([]);
+
+    clock.advance(1);
+    await expect(monitor.check()).resolves.toEqual([
+      expect.objectContaining({
+        projectId: 1,
+        phaseId: 10,
+        overdueBy: GRACE + 1,
+      }),
+    ]);
+    await monitor.check();
+
+    expect(alerts()).toEqual(['PHASE_OVERDUE']);
+  });
+
+  it('resolves the alert once the phase closes', async () => {
+    clock.advance(90 * MINUTE);
+    await monitor.check();
+
+    await projection.applyPhaseTransition(transition('END'), {
+      from: 'OPEN',
+      to: 'CLOSED',
+    });
+    await monitor.check();
+
+    expect(alerts()).toEqual(['PHASE_OVERDUE', 'PHASE_OVERDUE_RESOLVED']);
+    expect(monitor.getViolations()).toEqual([]);
+  });
+
+  it('goes by the scheduled END, even after it fired', async () => {
+    scheduler.getScheduled.mockReturnValueOnce([
+      {
+        projectId: 1,
+        phaseId: 10,
+        phaseTypeName: 'Review',
+        state: 'END',
+        projectStatus: 'ACTIVE',
+        fireAt: inMinutes(120),
+      },
+    ]);
+    await monitor.check();
+
+    clock.advance(90 * MINUTE);
+    await monitor.check();
+    expect(alerts()).toEqual([]);
+
+    clock.advance(60 * MINUTE);
+    await monitor.check();
+    expect(alerts()).toEqual(['PHASE_OVERDUE']);
+  });
+
+  it('checks no paused project', async () => {
+    scheduler.isPaused.mockReturnValue(true);
+    clock.advance(90 * MINUTE);
+
+    await expect(monitor.check()).resolves.toEqual([]);
+    expect(producer.sendSlaAlert).not.toHaveBeenCalled();
+  });
+
+  it('checks every interval once started', async () => {
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+    await module.init();
+
+    clock.advance(90 * MINUTE);
+    await settle();
+    expect(alerts()).toEqual([]);
+
+    // The next check is armed once the last one finished
+    clock.advance(MINUTE);
+    await settle();
+    expect(alerts()).toEqual(['PHASE_OVERDUE']);
+    expect(monitor.getStatus().lastCheckedAt).toBe(clock.toISOString());
+  });
+});
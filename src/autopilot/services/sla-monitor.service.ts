@@ -0,0 +1,223 @@
+import {
+  Injectable,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { AutopilotProducer } from '../../kafka/producers/autopilot.producer';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock, TimerHandle } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { runWithCorrelationId } from '../../common/utils/correlation-context';
+import { SlaAlertType, SlaViolation } from '../interfaces/autopilot.interface';
+import { ChallengeProjectionService } from './challenge-projection.service';
+import { SchedulerService } from './scheduler.service';
+import { PartitionOwnershipService } from './partition-ownership.service';
+
+/**
+ * Watches for phases that stay open past their expected end, which happens
+ * when the END autopilot publishes, or the one an external system owes, never
+ * arrives. Each phase overdue by more than the grace period raises one
+ * `PHASE_OVERDUE` alert, and a `PHASE_OVERDUE_RESOLVED` once it closes, its
+ * deadline moves or its project is paused.
+ */
+@Injectable()
+export class SlaMonitorService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new LoggerService(SlaMonitorService.name);
+  private readonly enabled: boolean;
+  private readonly gracePeriod: number;
+  private readonly checkInterval: number;
+  private readonly violations = new Map<string, SlaViolation>();
+  // Deadlines of scheduled ENDs, kept after they fire in case the END is lost
+  private readonly deadlines = new Map<string, string>();
+  private timer?: TimerHandle;
+  private lastCheckedAt?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly challengeProjectionService: ChallengeProjectionService,
+    private readonly schedulerService: SchedulerService,
+    private readonly ownershipService: PartitionOwnershipService,
+    private readonly autopilotProducer: AutopilotProducer,
+    private readonly clock: Clock,
+  ) {
+    this.enabled = this.configService.get<boolean>(
+      'autopilot.sla.enabled',
+      true,
+    );
+    this.gracePeriod = this.configService.get<number>(
+      'autopilot.sla.gracePeriod',
+      15 * 60 * 1000,
+    );
+    this.checkInterval = this.configService.get<number>(
+      'autopilot.sla.checkInterval',
+      60 * 1000,
+    );
+  }
+
+  onModuleInit(): void {
+    if (!this.enabled) {
+      this.logger.info('SLA monitor disabled');
+      return;
+    }
+    this.logger.info('SLA monitor started', {
+      gracePeriod: this.gracePeriod,
+      checkInterval: this.checkInterval,
+    });
+    this.arm();
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Current violations, most overdue first. */
+  getViolations(): SlaViolation[] {
+    return Array.from(this.violations.values()).sort(
+      (a, b) =>
+        new Date(a.expectedEnd).getTime() - new Date(b.expectedEnd).getTime(),
+    );
+  }
+
+  getStatus() {
+    return {
+      enabled: this.enabled,
+      gracePeriod: this.gracePeriod,
+      checkInterval: this.checkInterval,
+      lastCheckedAt: this.lastCheckedAt,
+      violations: this.getViolations(),
+    };
+  }
+
+  /** Compares every open phase with its expected end and publishes alerts. */
+  async check(): Promise<SlaViolation[]> {
+    const now = this.clock.now();
+    for (const transition of this.schedulerService.getScheduled()) {
+      if (transition.state === 'END') {
+        this.deadlines.set(
+          this.getKey(transition.projectId, transition.phaseId),
+          transition.fireAt,
+        );
+      }
+    }
+
+    const open = new Set<string>();
+    const current = new Map<string, SlaViolation>();
+    for (const view of this.challengeProjectionService.list()) {
+      if (
+        this.schedulerService.isPaused(view.projectId) ||
+        !this.ownershipService.owns(view.projectId)
+      ) {
+        continue;
+      }
+      for (const phase of view.phases) {
+        if (phase.state !== 'OPEN') {
+          continue;
+        }
+        const key = this.getKey(view.projectId, phase.phaseId);
+        open.add(key);
+        const expectedEnd = this.deadlines.get(key) ?? phase.scheduledEndDate;
+        if (!expectedEnd) {
+          continue;
+        }
+        const overdueBy = now - new Date(expectedEnd).getTime();
+        if (overdueBy <= this.gracePeriod) {
+          continue;
+        }
+        current.set(key, {
+          projectId: view.projectId,
+          challengeId:
+            view.challengeId === view.projectId ? undefined : view.challengeId,
+          phaseId: phase.phaseId,
+          phaseTypeName: phase.phaseTypeName,
+          expectedEnd,
+          overdueBy,
+          detectedAt:
+            this.violations.get(key)?.detectedAt ?? this.clock.toISOString(),
+        });
+      }
+    }
+
+    for (const [key, violation] of current) {
+      if (!this.violations.has(key)) {
+        this.logger.warn('Phase is overdue', { ...violation });
+        await this.alert('PHASE_OVERDUE', violation);
+      }
+    }
+    for (const [key, violation] of this.violations) {
+      if (!current.has(key)) {
+        this.logger.info('Phase is no longer overdue', { ...violation });
+        await this.alert('PHASE_OVERDUE_RESOLVED', violation);
+      }
+    }
+
+    this.violations.clear();
+    current.forEach((violation, key) => this.violations.set(key, violation));
+    for (const key of this.deadlines.keys()) {
+      if (!open.has(key)) {
+        this.deadlines.delete(key);
+      }
+    }
+    this.lastCheckedAt = this.clock.toISOString();
+    return this.getViolations();
+  }
+
+  private arm(): void {
+    this.timer = this.clock.setTimeout(() => {
+      void runWithCorrelationId(uuidv4(), async () => {
+        try {
+          await this.check();
+        } catch (error) {
+          const err = error as Error;
+          this.logger.error('SLA check failed', {
+            error: err.stack || err.message,
+          });
+        }
+        this.arm();
+      });
+    }, this.checkInterval);
+  }
+
+  private async alert(
+    type: SlaAlertType,
+    violation: SlaViolation,
+  ): Promise<void> {
+    const minutes = Math.round(violation.overdueBy / 60000);
+    try {
+      await this.autopilotProducer.sendSlaAlert({
+        type,
+        projectId: violation.projectId,
+        challengeId: violation.challengeId,
+        phaseId: violation.phaseId,
+        phaseTypeName: violation.phaseTypeName,
+        expectedEnd: violation.expectedEnd,
+        overdueBy: violation.overdueBy,
+        operator: CONFIG.AUTOPILOT.DEFAULT_OPERATOR,
+        reason:
+          type === 'PHASE_OVERDUE'
+            ? `${violation.phaseTypeName} was due at ${violation.expectedEnd} and is still open ${minutes} minutes later`
+            : `${violation.phaseTypeName} is no longer overdue`,
+      });
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error('Failed to publish SLA alert', {
+        error: err.message,
+        type,
+        projectId: violation.projectId,
+        phaseId: violation.phaseId,
+      });
+    }
+  }
+
+  private getKey(projectId: number, phaseId: number): string {
+    return `${projectId}:${phaseId}`;
+  }
+}
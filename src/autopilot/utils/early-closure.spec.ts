@@ -0,0 +1,86 @@
+import { planEarlyClosures } from './early-closure';
+import {
+  ChallengeUpdatePayload,
+  PhaseState,
+  PhaseStateRecord,
+} from '../interfaces/autopilot.interface';
+import { createClock } from '../../testing/fixtures';
+
+describe('planEarlyClosures', () => {
+  const clock = createClock();
+  const phase = (
+    phaseId: number,
+    phaseTypeName: string,
+    state: PhaseState = 'OPEN',
+  ): PhaseStateRecord => ({
+    projectId: 1,
+    phaseId,
+    phaseTypeName,
+    projectStatus: 'ACTIVE',
+    state,
+    updatedAt: clock.toISOString(),
+  });
+  const update = (
+    extra: Partial<ChallengeUpdatePayload> = {},
+  ): ChallengeUpdatePayload => ({
+    projectId: 1,
+    challengeId: 100,
+    status: 'ACTIVE',
+    operator: 'autopilot',
+    ...extra,
+  });
+  const phases = [
+    phase(10, 'Submission'),
+    phase(11, 'Review'),
+    phase(12, 'Appeals Response'),
+    phase(13, 'Review', 'CLOSED'),
+  ];
+
+  const closed = (message: ChallengeUpdatePayload) =>
+    planEarlyClosures(message, phases).map(
+      ({ phase: { phaseId }, reason }) => ({
+        phaseId,
+        reason,
+      }),
+    );
+
+  it('closes open review phases once every required review is in', () => {
+    expect(closed(update({ reviewCount: 3, requiredReviewCount: 3 }))).toEqual([
+      { phaseId: 11, reason: 'All 3 required reviews are in' },
+    ]);
+    expect(closed(update({ reviewCount: 2, requiredReviewCount: 3 }))).toEqual(
+      [],
+    );
+  });
+
+  it('closes review when there is nothing to review', () => {
+    expect(closed(update({ submissionCount: 0 }))).toEqual([
+      { phaseId: 11, reason: 'No submissions to review' },
+    ]);
+  });
+
+  it('closes review and appeals response once the work is reported complete', () => {
+    expect(closed(update({ workComplete: true }))).toEqual([
+      { phaseId: 11, reason: 'Review work reported complete' },
+      { phaseId: 12, reason: 'Appeals Response work reported complete' },
+    ]);
+  });
+
+  it('only closes the phase an update names', () => {
+    expect(closed(update({ phaseId: 12, workComplete: true }))).toEqual([
+      { phaseId: 12, reason: 'Appeals Response work reported complete' },
+    ]);
+    expect(
+      closed(update({ phaseId: 10, reviewCount: 3, requiredReviewCount: 3 })),
+    ).toEqual([]);
+  });
+
+  it('leaves other phase types and updates without a signal alone', () => {
+    expect(closed(update({ submissionCount: 4 }))).toEqual([]);
+    expect(
+      planEarlyClosures(update({ workComplete: true }), [
+        phase(10, 'Submission'),
+      ]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  ChallengeUpdatePayload,
+  PhaseStateRecord,
+} from '../interfaces/autopilot.interface';
+
+/** Phase types autopilot closes as soon as their work is done. */
+export const EARLY_CLOSE_PHASE_TYPES = ['review', 'appeals response'];
+
+export interface EarlyClosure {
+  phase: PhaseStateRecord;
+  reason: string;
+}
+
+/**
+ * Picks the open review and appeals-response phases a challenge update shows
+ * to be finished: upstream reports the work complete or, for reviews, every
+ * required review is in or there was nothing to review. An update naming a
+ * phase only ever closes that phase.
+ */
+export function planEarlyClosures(
+  message: ChallengeUpdatePayload,
+  phases: PhaseStateRecord[],
+): EarlyClosure[] {
+  return phases
+    .filter(
+      (phase) =>
+        phase.state === 'OPEN' &&
+        EARLY_CLOSE_PHASE_TYPES.includes(phase.phaseTypeName.toLowerCase()) &&
+        (message.phaseId === undefined || message.phaseId === phase.phaseId),
+    )
+    .map((phase) => ({ phase, reason: completionReason(message, phase) }))
+    .filter((closure): closure is EarlyClosure => !!closure.reason);
+}
+
+function completionReason(
+  message: ChallengeUpdatePayload,
+  phase: PhaseStateRecord,
+): string | undefined {
+  if (message.workComplete) {
+    return `${phase.phaseTypeName} work reported complete`;
+  }
+  if (phase.phaseTypeName.toLowerCase() !== 'review') {
+    return undefined;
+  }
+  if (message.submissionCount === 0) {
+    return 'No submissions to review';
+  }
+  if (
+    message.requiredReviewCount &&
+    message.reviewCount !== undefined &&
+    message.reviewCount >= message.requiredReviewCount
+  ) {
+    return `All ${message.requiredReviewCount} required reviews are in`;
+  }
+  return undefined;
+}
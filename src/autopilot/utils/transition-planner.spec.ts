@@ -0,0 +1,108 @@
+import { planFollowUpTransitions } from './transition-planner';
+import {
+  PhaseDefinition,
+  PhaseState,
+  PhaseTransitionPayload,
+} from '../interfaces/autopilot.interface';
+import { createClock } from '../../testing/fixtures';
+
+describe('planFollowUpTransitions', () => {
+  const clock = createClock();
+  const dependents: PhaseDefinition[] = [
+    { phaseId: 11, phaseTypeName: 'Review', duration: 3600000, offset: 600000 },
+    { phaseId: 12, phaseTypeName: 'Screening', duration: 7200000 },
+  ];
+  const message = (
+    state: 'START' | 'END',
+    extra: Partial<PhaseTransitionPayload> = {},
+  ): PhaseTransitionPayload => ({
+    projectId: 1,
+    phaseId: 10,
+    phaseTypeName: 'Submission',
+    state,
+    operator: 'autopilot',
+    projectStatus: 'ACTIVE',
+    ...extra,
+  });
+  const notStarted = (): PhaseState => 'NOT_STARTED';
+
+  it('schedules the END deadline of a started phase', () => {
+    expect(
+      planFollowUpTransitions(
+        message('START', {
+          date: '2025-01-06T09:00:00.000Z',
+          scheduledEndDate: '2025-01-07T09:00:00.000Z',
+        }),
+        dependents,
+        notStarted,
+        clock.date(),
+      ),
+    ).toEqual([
+      {
+        projectId: 1,
+        phaseId: 10,
+        phaseTypeName: 'Submission',
+        state: 'END',
+        projectStatus: 'ACTIVE',
+        fireAt: '2025-01-07T09:00:00.000Z',
+        startedAt: '2025-01-06T09:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('counts an undated START from now', () => {
+    const [end] = planFollowUpTransitions(
+      message('START', { scheduledEndDate: '2025-01-07T09:00:00.000Z' }),
+      [],
+      notStarted,
+      clock.date(),
+    );
+    expect(end.startedAt).toBe(clock.toISOString());
+  });
+
+  it('plans nothing for a START without a deadline', () => {
+    expect(
+      planFollowUpTransitions(
+        message('START'),
+        dependents,
+        notStarted,
+        clock.date(),
+      ),
+    ).toEqual([]);
+  });
+
+  it('starts dependents after their offset once a phase ends', () => {
+    expect(
+      planFollowUpTransitions(
+        message('END', { date: '2025-01-06T09:00:00.000Z' }),
+        dependents,
+        notStarted,
+        clock.date(),
+      ),
+    ).toEqual([
+      expect.objectContaining({
+        phaseId: 11,
+        state: 'START',
+        fireAt: '2025-01-06T09:10:00.000Z',
+        scheduledEndDate: '2025-01-06T10:10:00.000Z',
+      }),
+      expect.objectContaining({
+        phaseId: 12,
+        state: 'START',
+        fireAt: '2025-01-06T09:00:00.000Z',
+        scheduledEndDate: '2025-01-06T11:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('leaves dependents that already started alone', () => {
+    const planned = planFollowUpTransitions(
+      message('END'),
+      dependents,
+      (phaseId) => (phaseId === 11 ? 'OPEN' : 'NOT_STARTED'),
+      clock.date(),
+    );
+    expect(planned.map(({ phaseId }) => phaseId)).toEqual([12]);
+    expect(planned[0].fireAt).toBe(clock.toISOString());
+  });
+});
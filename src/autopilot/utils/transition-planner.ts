@@ -0,0 +1,56 @@
+import {
+  PhaseDefinition,
+  PhaseState,
+  PhaseTransitionPayload,
+  ScheduledTransition,
+} from '../interfaces/autopilot.interface';
+
+/**
+ * Works out which transitions autopilot owes after a phase transition has
+ * been applied: the END deadline of a started phase, or the START of every
+ * not-yet-started phase that follows an ended one. `now` stands in for
+ * messages that carry no date.
+ */
+export function planFollowUpTransitions(
+  message: PhaseTransitionPayload,
+  dependents: PhaseDefinition[],
+  getPhaseState: (phaseId: number) => PhaseState,
+  now: Date,
+): ScheduledTransition[] {
+  if (message.state === 'START') {
+    return message.scheduledEndDate
+      ? [
+          {
+            projectId: message.projectId,
+            phaseId: message.phaseId,
+            phaseTypeName: message.phaseTypeName,
+            state: 'END',
+            projectStatus: message.projectStatus,
+            fireAt: message.scheduledEndDate,
+            startedAt: (message.date
+              ? new Date(message.date)
+              : now
+            ).toISOString(),
+          },
+        ]
+      : [];
+  }
+
+  const endedAt = message.date ? new Date(message.date) : now;
+  return dependents
+    .filter((phase) => getPhaseState(phase.phaseId) === 'NOT_STARTED')
+    .map((phase) => {
+      // Dependents without an offset fire right away; the END deadline rides
+      // along so the START handler can schedule it in turn
+      const startAt = endedAt.getTime() + (phase.offset ?? 0);
+      return {
+        projectId: message.projectId,
+        phaseId: phase.phaseId,
+        phaseTypeName: phase.phaseTypeName,
+        state: 'START',
+        projectStatus: message.projectStatus,
+        fireAt: new Date(startAt).toISOString(),
+        scheduledEndDate: new Date(startAt + phase.duration).toISOString(),
+      };
+    });
+}
@@ -3,6 +3,9 @@ export interface AppConfig {
   DEFAULT_NODE_ENV: 'development' | 'production' | 'test';
   DEFAULT_LOG_LEVEL: 'error' | 'warn' | 'info' | 'debug' | 'verbose';
   DEFAULT_LOG_DIR: string;
+  FILE_LOCK_TIMEOUT: number;
+  FILE_LOCK_STALE_AFTER: number;
+  FILE_LOCK_RETRY_DELAY: number;
 }
 
 export interface KafkaConfig {
@@ -19,6 +22,14 @@ export interface KafkaConfig {
   DEFAULT_CONCURRENCY_LIMIT: number;
   DEFAULT_TRANSACTION_TIMEOUT: number;
   DEFAULT_MAX_IN_FLIGHT_REQUESTS: number;
+  DEFAULT_DEDUP_WINDOW: number;
+  DEFAULT_DEDUP_MAX_KEYS: number;
+  REPLAY_GROUP_PREFIX: string;
+  REPLAY_PROGRESS_INTERVAL: number;
+  MAX_REPLAY_JOBS: number;
+  DLQ_GROUP_PREFIX: string;
+  DEFAULT_DLQ_MAX_INDEXED: number;
+  RETRY_HEARTBEAT_INTERVAL: number;
 }
 
 export interface SchemaConfig {
@@ -37,12 +48,33 @@ export interface HealthConfig {
   DEFAULT_RETRIES: number;
 }
 
+export interface AutopilotConfig {
+  DEFAULT_OPERATOR: string;
+  MAX_TIMER_DELAY: number;
+  SIMULATION_MAX_STEPS: number;
+  AUDIT_MAX_ENTRIES: number;
+  AUDIT_MAX_FILE_SIZE: number;
+  AUDIT_MAX_FILES: number;
+  COMMAND_RESULT_RETENTION: number;
+}
+
+export interface WebhookConfig {
+  DEFAULT_MAX_ATTEMPTS: number;
+  DEFAULT_INITIAL_BACKOFF: number;
+  MAX_BACKOFF: number;
+  DEFAULT_TIMEOUT: number;
+  DEFAULT_DISABLE_AFTER: number;
+  MAX_STORED_ATTEMPTS: number;
+}
+
 export interface Config {
   APP: AppConfig;
   KAFKA: KafkaConfig;
   SCHEMA: SchemaConfig;
   CIRCUIT_BREAKER: CircuitBreakerConfig;
   HEALTH: HealthConfig;
+  AUTOPILOT: AutopilotConfig;
+  WEBHOOK: WebhookConfig;
 }
 
 export const CONFIG: Config = {
@@ -51,6 +83,9 @@ export const CONFIG: Config = {
     DEFAULT_NODE_ENV: 'development',
     DEFAULT_LOG_LEVEL: 'info',
     DEFAULT_LOG_DIR: 'logs',
+    FILE_LOCK_TIMEOUT: 10000,
+    FILE_LOCK_STALE_AFTER: 30000, // a holder that died is assumed after this
+    FILE_LOCK_RETRY_DELAY: 20,
   },
   KAFKA: {
     DEFAULT_CLIENT_ID: 'autopilot-service',
@@ -66,6 +101,14 @@ export const CONFIG: Config = {
     DEFAULT_CONCURRENCY_LIMIT: 5,
     DEFAULT_TRANSACTION_TIMEOUT: 30000,
     DEFAULT_MAX_IN_FLIGHT_REQUESTS: 5,
+    DEFAULT_DEDUP_WINDOW: 3600000,
+    DEFAULT_DEDUP_MAX_KEYS: 100000,
+    REPLAY_GROUP_PREFIX: 'autopilot-replay',
+    REPLAY_PROGRESS_INTERVAL: 1000, // messages between progress logs
+    MAX_REPLAY_JOBS: 20, // finished replays kept for inspection
+    DLQ_GROUP_PREFIX: 'autopilot-dlq',
+    DEFAULT_DLQ_MAX_INDEXED: 10000, // newest dead letters kept per DLQ
+    RETRY_HEARTBEAT_INTERVAL: 3000, // heartbeat while waiting for a retry
   },
   SCHEMA: {
     DEFAULT_CACHE_TTL: 3600000, // 1 hour in milliseconds
@@ -80,4 +123,21 @@ export const CONFIG: Config = {
     DEFAULT_INTERVAL: 30000,
     DEFAULT_RETRIES: 3,
   },
+  AUTOPILOT: {
+    DEFAULT_OPERATOR: 'autopilot',
+    MAX_TIMER_DELAY: 2147483647, // setTimeout upper bound (~24.8 days)
+    SIMULATION_MAX_STEPS: 1000,
+    AUDIT_MAX_ENTRIES: 10000,
+    AUDIT_MAX_FILE_SIZE: 10 * 1024 * 1024, // 10 MB
+    AUDIT_MAX_FILES: 10, // rotated files kept besides the current one
+    COMMAND_RESULT_RETENTION: 24 * 60 * 60 * 1000, // 1 day
+  },
+  WEBHOOK: {
+    DEFAULT_MAX_ATTEMPTS: 5,
+    DEFAULT_INITIAL_BACKOFF: 1000,
+    MAX_BACKOFF: 3600000, // 1 hour
+    DEFAULT_TIMEOUT: 5000,
+    DEFAULT_DISABLE_AFTER: 5,
+    MAX_STORED_ATTEMPTS: 100, // per subscription
+  },
 } as const;
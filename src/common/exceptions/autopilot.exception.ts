@@ -0,0 +1,47 @@
+import { BaseException } from './base.exception';
+
+export class AutopilotException extends BaseException {
+  constructor(
+    message: string,
+    code: string = 'AUTOPILOT_ERROR',
+    statusCode: number = 500,
+    details?: Record<string, unknown>,
+  ) {
+    super(message, code, statusCode, details);
+  }
+}
+
+export class IllegalTransitionException extends AutopilotException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(`Illegal transition: ${message}`, 'ILLEGAL_TRANSITION', 409, details);
+  }
+}
+
+export class CommandRejectedException extends AutopilotException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(`Command rejected: ${message}`, 'COMMAND_REJECTED', 400, details);
+  }
+}
+
+export class ProjectNotOwnedException extends AutopilotException {
+  constructor(projectId: number, details?: Record<string, unknown>) {
+    super(
+      `Project ${projectId} is owned by another replica`,
+      'PROJECT_NOT_OWNED',
+      503,
+      details,
+    );
+  }
+}
+
+export class InvalidTimelineException extends AutopilotException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(`Invalid timeline: ${message}`, 'INVALID_TIMELINE', 400, details);
+  }
+}
+
+export class InvalidRuleSetException extends AutopilotException {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(`Invalid rule set: ${message}`, 'INVALID_RULE_SET', 400, details);
+  }
+}
@@ -7,6 +7,7 @@ import {
 } from '@nestjs/common';
 import { Response } from 'express';
 import { IApiResponse } from '../interfaces/api-response.interface';
+import { BaseException } from '../exceptions/base.exception';
 
 interface HttpExceptionResponse {
   message?: string | string[];
@@ -39,6 +40,10 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       } else if (typeof exceptionResponse === 'string') {
         message = exceptionResponse;
       }
+    } else if (exception instanceof BaseException) {
+      status = exception.statusCode;
+      message = exception.message;
+      data = exception.details ?? {};
     } else if (exception instanceof Error) {
       message = exception.message;
       data = {
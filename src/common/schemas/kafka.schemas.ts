@@ -1,3 +1,29 @@
+// Every `<topic>.dlq` topic shares one record, naming its source topic
+const deadLetterSchema = (topic: string) => ({
+  type: 'record',
+  name: 'DeadLetter',
+  namespace: 'com.autopilot.events',
+  fields: [
+    { name: 'originalTopic', type: 'string', default: topic },
+    { name: 'originalPartition', type: 'int' },
+    { name: 'originalOffset', type: 'string' },
+    { name: 'originalKey', type: ['null', 'string'], default: null },
+    {
+      name: 'originalHeaders',
+      type: { type: 'map', values: 'string' },
+      default: {},
+    },
+    { name: 'originalMessage', type: 'bytes' },
+    { name: 'consumerGroup', type: 'string' },
+    { name: 'correlationId', type: ['null', 'string'], default: null },
+    { name: 'errorClass', type: 'string' },
+    { name: 'errorMessage', type: 'string' },
+    { name: 'errorStack', type: ['null', 'string'], default: null },
+    { name: 'attempts', type: 'int', default: 1 },
+    { name: 'failedAt', type: 'string' },
+  ],
+});
+
 export const KAFKA_SCHEMAS = {
   'autopilot.phase.transition': {
     type: 'record',
@@ -28,6 +54,14 @@ export const KAFKA_SCHEMAS = {
             { name: 'operator', type: 'string' },
             { name: 'projectStatus', type: 'string' },
             { name: 'date', type: 'string' },
+            {
+              name: 'scheduledEndDate',
+              type: ['null', 'string'],
+              default: null,
+            },
+            { name: 'reason', type: ['null', 'string'], default: null },
+            { name: 'reopen', type: ['null', 'boolean'], default: null },
+            { name: 'extendedBy', type: ['null', 'long'], default: null },
           ],
         },
       },
@@ -53,6 +87,16 @@ export const KAFKA_SCHEMAS = {
             { name: 'status', type: 'string' },
             { name: 'operator', type: 'string' },
             { name: 'date', type: 'string' },
+            { name: 'phaseId', type: ['null', 'long'], default: null },
+            { name: 'submissionCount', type: ['null', 'int'], default: null },
+            { name: 'reviewCount', type: ['null', 'int'], default: null },
+            {
+              name: 'requiredReviewCount',
+              type: ['null', 'int'],
+              default: null,
+            },
+            { name: 'workComplete', type: ['null', 'boolean'], default: null },
+            { name: 'challengeType', type: ['null', 'string'], default: null },
           ],
         },
       },
@@ -77,9 +121,153 @@ export const KAFKA_SCHEMAS = {
             { name: 'operator', type: 'string' },
             { name: 'projectId', type: ['null', 'long'], default: null },
             { name: 'date', type: ['null', 'string'], default: null },
+            { name: 'commandId', type: ['null', 'string'], default: null },
+            {
+              name: 'parameters',
+              type: [
+                'null',
+                {
+                  type: 'map',
+                  values: ['null', 'string', 'double', 'boolean'],
+                },
+              ],
+              default: null,
+            },
+            { name: 'reason', type: ['null', 'string'], default: null },
+          ],
+        },
+      },
+    ],
+  },
+  'autopilot.command.result': {
+    type: 'record',
+    name: 'CommandResult',
+    namespace: 'com.autopilot.events',
+    fields: [
+      { name: 'topic', type: 'string', default: 'autopilot.command.result' },
+      { name: 'originator', type: 'string', default: 'auto_pilot' },
+      { name: 'timestamp', type: 'string' },
+      { name: 'mimeType', type: 'string', default: 'application/json' },
+      {
+        name: 'payload',
+        type: {
+          type: 'record',
+          name: 'CommandResultPayload',
+          fields: [
+            { name: 'commandId', type: 'string' },
+            { name: 'command', type: 'string' },
+            {
+              name: 'status',
+              type: {
+                type: 'enum',
+                name: 'CommandResultStatus',
+                symbols: ['SUCCEEDED', 'REJECTED', 'FAILED'],
+              },
+            },
+            { name: 'message', type: 'string' },
+            { name: 'operator', type: 'string' },
+            { name: 'projectId', type: ['null', 'long'], default: null },
+            { name: 'result', type: ['null', 'string'], default: null },
+            { name: 'date', type: 'string' },
+          ],
+        },
+      },
+    ],
+  },
+  'autopilot.notification': {
+    type: 'record',
+    name: 'Notification',
+    namespace: 'com.autopilot.events',
+    fields: [
+      { name: 'topic', type: 'string', default: 'autopilot.notification' },
+      { name: 'originator', type: 'string', default: 'auto_pilot' },
+      { name: 'timestamp', type: 'string' },
+      { name: 'mimeType', type: 'string', default: 'application/json' },
+      {
+        name: 'payload',
+        type: {
+          type: 'record',
+          name: 'NotificationPayload',
+          fields: [
+            {
+              name: 'type',
+              type: {
+                type: 'enum',
+                name: 'NotificationType',
+                symbols: [
+                  'PHASE_STARTED',
+                  'PHASE_ENDED',
+                  'PHASE_REOPENED',
+                  'DEADLINE_EXTENDED',
+                  'COMMAND_REJECTED',
+                  'RULE_TRIGGERED',
+                ],
+              },
+            },
+            {
+              name: 'audience',
+              type: {
+                type: 'enum',
+                name: 'NotificationAudience',
+                symbols: ['ALL', 'OPERATORS'],
+              },
+            },
+            { name: 'projectId', type: 'long' },
+            { name: 'phaseId', type: ['null', 'long'], default: null },
+            { name: 'phaseTypeName', type: ['null', 'string'], default: null },
+            { name: 'title', type: 'string' },
+            { name: 'message', type: 'string' },
+            { name: 'operator', type: 'string' },
+            { name: 'reason', type: ['null', 'string'], default: null },
+            { name: 'date', type: 'string' },
+          ],
+        },
+      },
+    ],
+  },
+  'autopilot.sla.alert': {
+    type: 'record',
+    name: 'SlaAlert',
+    namespace: 'com.autopilot.events',
+    fields: [
+      { name: 'topic', type: 'string', default: 'autopilot.sla.alert' },
+      { name: 'originator', type: 'string', default: 'auto_pilot' },
+      { name: 'timestamp', type: 'string' },
+      { name: 'mimeType', type: 'string', default: 'application/json' },
+      {
+        name: 'payload',
+        type: {
+          type: 'record',
+          name: 'SlaAlertPayload',
+          fields: [
+            {
+              name: 'type',
+              type: {
+                type: 'enum',
+                name: 'SlaAlertType',
+                symbols: ['PHASE_OVERDUE', 'PHASE_OVERDUE_RESOLVED'],
+              },
+            },
+            { name: 'projectId', type: 'long' },
+            { name: 'challengeId', type: ['null', 'long'], default: null },
+            { name: 'phaseId', type: 'long' },
+            { name: 'phaseTypeName', type: 'string' },
+            { name: 'expectedEnd', type: 'string' },
+            { name: 'overdueBy', type: 'long' },
+            { name: 'operator', type: 'string' },
+            { name: 'reason', type: ['null', 'string'], default: null },
+            { name: 'date', type: 'string' },
           ],
         },
       },
     ],
   },
+  'autopilot.phase.transition.dlq': deadLetterSchema(
+    'autopilot.phase.transition',
+  ),
+  'autopilot.challenge.update.dlq': deadLetterSchema(
+    'autopilot.challenge.update',
+  ),
+  'autopilot.command.dlq': deadLetterSchema('autopilot.command'),
+  'autopilot.message.dlq': deadLetterSchema('autopilot.message'),
 };
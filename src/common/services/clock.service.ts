@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+
+export type TimerHandle = NodeJS.Timeout | number;
+
+/**
+ * Source of the current time and of timers. Inject it instead of calling
+ * `Date.now()` or `setTimeout` directly so time-based behaviour can be driven
+ * by a FakeClock.
+ */
+export abstract class Clock {
+  abstract now(): number;
+
+  abstract setTimeout(callback: () => void, delay: number): TimerHandle;
+
+  abstract clearTimeout(handle: TimerHandle): void;
+
+  date(): Date {
+    return new Date(this.now());
+  }
+
+  toISOString(): string {
+    return this.date().toISOString();
+  }
+}
+
+@Injectable()
+export class SystemClock extends Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return setTimeout(callback, delay);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    clearTimeout(handle);
+  }
+}
+
+/** Shared instance for code constructed outside the Nest container. */
+export const systemClock = new SystemClock();
+
+interface FakeTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+/**
+ * Clock that only moves when told to. Timers fire in due order while time is
+ * advanced, including timers registered by callbacks within the same window.
+ */
+export class FakeClock extends Clock {
+  private currentTime: number;
+  private nextId = 1;
+  private timers: FakeTimer[] = [];
+
+  constructor(start: number | Date = 0) {
+    super();
+    this.currentTime = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const timer = {
+      id: this.nextId++,
+      dueAt: this.currentTime + Math.max(delay, 0),
+      callback,
+    };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter((timer) => timer.id !== handle);
+  }
+
+  advance(ms: number): void {
+    this.setTime(this.currentTime + ms);
+  }
+
+  setTime(time: number | Date): void {
+    const target = typeof time === 'number' ? time : time.getTime();
+    if (target < this.currentTime) {
+      throw new Error('FakeClock cannot move backwards');
+    }
+
+    for (;;) {
+      const next = this.timers
+        .filter((timer) => timer.dueAt <= target)
+        .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+      if (!next) {
+        break;
+      }
+      this.timers = this.timers.filter((timer) => timer !== next);
+      this.currentTime = next.dueAt;
+      next.callback();
+    }
+    this.currentTime = target;
+  }
+
+  getPendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /** When the earliest pending timer is due, if any is pending. */
+  getNextTimerAt(): number | undefined {
+    return this.timers.length
+      ? Math.min(...this.timers.map((timer) => timer.dueAt))
+      : undefined;
+  }
+}
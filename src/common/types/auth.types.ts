@@ -10,6 +10,13 @@ export interface IValidatedUser {
   username: string;
 }
 
+/** An operator allowed to log in, from `AUTH_OPERATORS`. */
+export interface IOperatorAccount {
+  username: string;
+  /** `<salt>:<hash>`, see `hashPassword`. */
+  passwordHash: string;
+}
+
 export interface IJwtConfig {
   secret: string;
   expiresIn?: string;
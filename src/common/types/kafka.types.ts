@@ -36,3 +36,43 @@ export interface IKafkaConfig {
     maxRetryTime: number;
   };
 }
+
+export interface IProduceOptions {
+  /** Messages with the same key land on the same partition, in order. */
+  key?: string;
+  headers?: Record<string, string>;
+}
+
+export interface IBatchMessage extends IProduceOptions {
+  value: unknown;
+}
+
+export interface IConsumedMessageContext {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  headers: Record<string, string>;
+}
+
+/** Partitions held by this member, by topic. */
+export type IPartitionAssignment = Record<string, number[]>;
+
+export interface IConsumerHooks {
+  /** Called after the consumer joins its group with the new assignment. */
+  onAssign?: (assignment: IPartitionAssignment) => Promise<void> | void;
+  /** Called when a rebalance starts or the consumer stops. */
+  onRevoke?: () => Promise<void> | void;
+}
+
+export interface IReplayPartitionProgress {
+  topic: string;
+  partition: number;
+  startOffset: string;
+  /** High watermark when the replay started; the replay stops there. */
+  endOffset: string;
+  /** Next offset to read. */
+  offset: string;
+  consumed: number;
+  failed: number;
+}
@@ -1,6 +1,9 @@
+import { Clock, systemClock } from '../services/clock.service';
+
 export interface CircuitBreakerOptions {
   failureThreshold: number;
   resetTimeout: number;
+  clock?: Clock;
 }
 
 export class CircuitBreaker {
@@ -8,10 +11,12 @@ export class CircuitBreaker {
   private lastFailureTime: number = 0;
   private readonly failureThreshold: number;
   private readonly resetTimeout: number;
+  private readonly clock: Clock;
 
   constructor(options: CircuitBreakerOptions) {
     this.failureThreshold = options.failureThreshold;
     this.resetTimeout = options.resetTimeout;
+    this.clock = options.clock ?? systemClock;
   }
 
   async execute<T>(fn: () => Promise<T>): Promise<T> {
@@ -38,7 +43,7 @@ export class CircuitBreaker {
   }
 
   private shouldReset(): boolean {
-    return Date.now() - this.lastFailureTime >= this.resetTimeout;
+    return this.clock.now() - this.lastFailureTime >= this.resetTimeout;
   }
 
   private reset(): void {
@@ -52,6 +57,6 @@ export class CircuitBreaker {
 
   private recordFailure(): void {
     this.failures++;
-    this.lastFailureTime = Date.now();
+    this.lastFailureTime = this.clock.now();
   }
 }
@@ -0,0 +1,62 @@
+import { AssignerProtocol, Assignment, PartitionAssigner } from 'kafkajs';
+
+const NAME = 'AutopilotCoPartitioned';
+const VERSION = 1;
+
+/**
+ * Hands partition `n` of every subscribed topic to the same member, taking
+ * members in the order of their replica ids. Every group a replica joins
+ * then gives it the same partitions, so a project's messages on all topics,
+ * and on their retry tiers, reach the replica that owns the project as long
+ * as the topics have the same number of partitions.
+ */
+export function coPartitionedAssigner(replicaId: string): PartitionAssigner {
+  return ({ cluster }) => ({
+    name: NAME,
+    version: VERSION,
+    protocol: ({ topics }) => ({
+      name: NAME,
+      metadata: AssignerProtocol.MemberMetadata.encode({
+        version: VERSION,
+        topics,
+        userData: Buffer.from(replicaId),
+      }),
+    }),
+    assign: ({ members, topics }) => {
+      const replicas = members
+        .map(({ memberId, memberMetadata }) => ({
+          memberId,
+          replicaId:
+            AssignerProtocol.MemberMetadata.decode(
+              memberMetadata,
+            )?.userData.toString() || memberId,
+        }))
+        .sort(
+          (a, b) =>
+            a.replicaId.localeCompare(b.replicaId) ||
+            a.memberId.localeCompare(b.memberId),
+        );
+      const assignments = new Map<string, Assignment>(
+        replicas.map(({ memberId }) => [memberId, {}]),
+      );
+      for (const topic of topics) {
+        for (const { partitionId } of cluster.findTopicPartitionMetadata(
+          topic,
+        )) {
+          const { memberId } = replicas[partitionId % replicas.length];
+          (assignments.get(memberId)![topic] ??= []).push(partitionId);
+        }
+      }
+      return Promise.resolve(
+        Array.from(assignments, ([memberId, assignment]) => ({
+          memberId,
+          memberAssignment: AssignerProtocol.MemberAssignment.encode({
+            version: VERSION,
+            assignment,
+            userData: Buffer.alloc(0),
+          }),
+        })),
+      );
+    },
+  });
+}
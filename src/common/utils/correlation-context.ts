@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface CorrelationContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<CorrelationContext>();
+
+/**
+ * Runs `fn` with the given correlation id attached to everything it awaits,
+ * so audit entries and produced messages can be tied back to their cause.
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return storage.run({ correlationId }, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { CONFIG } from '../constants/config.constants';
+
+/**
+ * Reads and atomically rewrites a JSON document on disk. Writes are chained so
+ * concurrent callers never interleave partial files.
+ */
+export class JsonFile<T> {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async read(): Promise<T | undefined> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  write(contents: T): Promise<void> {
+    const write = () => this.replace(contents);
+    this.pendingWrite = this.pendingWrite.then(write, write);
+    return this.pendingWrite;
+  }
+
+  /**
+   * Applies `change` to the document as it is on disk and writes the result,
+   * holding `<file>.lock` meanwhile, so processes sharing the file each
+   * change only what they meant to instead of overwriting the others. Only
+   * processes on the same filesystem see each other's lock and changes.
+   */
+  update(change: (contents: T | undefined) => T): Promise<void> {
+    const update = () =>
+      this.withLock(async () => this.replace(change(await this.read())));
+    this.pendingWrite = this.pendingWrite.then(update, update);
+    return this.pendingWrite;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  private async replace(contents: T): Promise<void> {
+    // Unique so writers in other processes never share a temp file
+    const tempPath = `${this.filePath}.${uuidv4()}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(contents, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async withLock(action: () => Promise<void>): Promise<void> {
+    const lockPath = `${this.filePath}.lock`;
+    const giveUpAt = Date.now() + CONFIG.APP.FILE_LOCK_TIMEOUT;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Left behind by a process that died while holding it
+      const heldFor = await fs
+        .stat(lockPath)
+        .then(({ mtimeMs }) => Date.now() - mtimeMs)
+        .catch(() => 0);
+      if (heldFor > CONFIG.APP.FILE_LOCK_STALE_AFTER) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > giveUpAt) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, CONFIG.APP.FILE_LOCK_RETRY_DELAY),
+      );
+    }
+
+    try {
+      await action();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+}
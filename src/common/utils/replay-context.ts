@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const storage = new AsyncLocalStorage<boolean>();
+
+/**
+ * Runs `fn` in replay mode. Replayed events already had their effects when
+ * they were first handled, so nothing may leave the service again.
+ */
+export function runInReplay<T>(fn: () => T): T {
+  return storage.run(true, fn);
+}
+
+export function isReplaying(): boolean {
+  return storage.getStore() === true;
+}
@@ -0,0 +1,31 @@
+import { isRetryable } from './retry-policy';
+import {
+  KafkaProducerException,
+  SchemaRegistryException,
+  SchemaValidationException,
+} from '../exceptions/kafka.exception';
+import {
+  CommandRejectedException,
+  IllegalTransitionException,
+} from '../exceptions/autopilot.exception';
+
+describe('isRetryable', () => {
+  it('retries outages and unexpected errors', () => {
+    expect(isRetryable(new KafkaProducerException('topic'))).toBe(true);
+    expect(isRetryable(new SchemaRegistryException('unavailable'))).toBe(true);
+    expect(isRetryable(new Error('socket hang up'))).toBe(true);
+  });
+
+  it('does not retry errors that fail the same way every time', () => {
+    expect(isRetryable(new IllegalTransitionException('END on CLOSED'))).toBe(
+      false,
+    );
+    expect(isRetryable(new CommandRejectedException('unknown command'))).toBe(
+      false,
+    );
+    expect(isRetryable(new SchemaValidationException('missing field'))).toBe(
+      false,
+    );
+    expect(isRetryable(new SyntaxError('Unexpected token'))).toBe(false);
+  });
+});
@@ -0,0 +1,16 @@
+import { BaseException } from '../exceptions/base.exception';
+import { SchemaValidationException } from '../exceptions/kafka.exception';
+
+/**
+ * Whether handling a message again might succeed. 4xx, schema and parse errors
+ * fail the same way every time; anything else is assumed to be transient.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof SchemaValidationException) {
+    return false;
+  }
+  if (error instanceof BaseException) {
+    return error.statusCode >= 500;
+  }
+  return !(error instanceof SyntaxError);
+}
@@ -1,10 +1,22 @@
 import { SchemaRegistry, SchemaType } from '@kafkajs/confluent-schema-registry';
 import { Injectable } from '@nestjs/common';
-import { SchemaRegistryException } from '../exceptions/kafka.exception';
+import {
+  SchemaRegistryException,
+  SchemaValidationException,
+} from '../exceptions/kafka.exception';
 import { LoggerService } from '../services/logger.service';
 import { KAFKA_SCHEMAS } from '../schemas/kafka.schemas';
 import { Schema } from '@kafkajs/confluent-schema-registry/dist/@types';
 
+/**
+ * Registry calls fail with a `ResponseError` carrying the HTTP status. Any
+ * other encode or decode error comes from the payload itself, which will not
+ * get any better by trying again.
+ */
+function isRegistryError(error: unknown): boolean {
+  return typeof (error as { status?: unknown }).status === 'number';
+}
+
 @Injectable()
 export class SchemaUtils {
   private readonly registry: SchemaRegistry;
@@ -23,6 +35,12 @@ export class SchemaUtils {
       this.logger.error(`Failed to encode message with schema ID ${schemaId}`, {
         error: err.stack,
       });
+      if (!isRegistryError(error)) {
+        throw new SchemaValidationException(
+          `Message does not match schema ID ${schemaId}: ${err.message}`,
+          { error: err.stack || err.message },
+        );
+      }
       throw new SchemaRegistryException(
         `Failed to encode message with schema ID ${schemaId}`,
         {
@@ -38,6 +56,12 @@ export class SchemaUtils {
     } catch (error) {
       const err = error as Error;
       this.logger.error('Failed to decode message', { error: err.stack });
+      if (!isRegistryError(error)) {
+        throw new SchemaValidationException(
+          `Failed to decode message: ${err.message}`,
+          { error: err.stack || err.message },
+        );
+      }
       throw new SchemaRegistryException('Failed to decode message', {
         error: err.stack || err.message,
       });
@@ -1,7 +1,13 @@
 import appConfig from './sections/app.config';
 import kafkaConfig from './sections/kafka.config';
+import autopilotConfig from './sections/autopilot.config';
+import jwtConfig from './sections/jwt.config';
+import webhooksConfig from './sections/webhooks.config';
 
 export default () => ({
   app: appConfig(),
   kafka: kafkaConfig(),
+  autopilot: autopilotConfig(),
+  jwt: jwtConfig(),
+  webhooks: webhooksConfig(),
 });
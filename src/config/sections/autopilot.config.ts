@@ -0,0 +1,73 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('autopilot', () => ({
+  scheduler: {
+    store: process.env.AUTOPILOT_SCHEDULE_STORE || 'file',
+    filePath:
+      process.env.AUTOPILOT_SCHEDULE_FILE || 'data/scheduled-transitions.json',
+    coordination: process.env.AUTOPILOT_SCHEDULE_COORDINATION || 'partitions',
+    syncInterval: parseInt(
+      process.env.AUTOPILOT_SCHEDULE_SYNC_INTERVAL ?? '5000',
+      10,
+    ),
+  },
+  timelines: {
+    filePath:
+      process.env.AUTOPILOT_TIMELINE_FILE || 'data/project-timelines.json',
+  },
+  challenges: {
+    filePath: process.env.AUTOPILOT_CHALLENGE_FILE || 'data/challenges.json',
+  },
+  commands: {
+    filePath:
+      process.env.AUTOPILOT_COMMAND_RESULT_FILE || 'data/command-results.json',
+  },
+  rules: {
+    path: process.env.AUTOPILOT_RULES_PATH || 'config/rules',
+  },
+  audit: {
+    filePath: process.env.AUTOPILOT_AUDIT_FILE || 'data/audit-log.jsonl',
+    maxEntries: parseInt(
+      process.env.AUTOPILOT_AUDIT_MAX_ENTRIES ?? '10000',
+      10,
+    ),
+    maxFileSize: parseInt(
+      process.env.AUTOPILOT_AUDIT_MAX_FILE_SIZE ?? '10485760',
+      10,
+    ),
+    maxFiles: parseInt(process.env.AUTOPILOT_AUDIT_MAX_FILES ?? '10', 10),
+  },
+  calendar: {
+    enabled: process.env.AUTOPILOT_CALENDAR_ENABLED === 'true',
+    timezone: process.env.AUTOPILOT_CALENDAR_TIMEZONE || 'UTC',
+    workingDays: (process.env.AUTOPILOT_CALENDAR_WORKING_DAYS || '1,2,3,4,5')
+      .split(',')
+      .map((day) => parseInt(day, 10)),
+    workingHours: process.env.AUTOPILOT_CALENDAR_WORKING_HOURS || '09:00-17:00',
+    holidays: (process.env.AUTOPILOT_CALENDAR_HOLIDAYS || '')
+      .split(',')
+      .map((holiday) => holiday.trim())
+      .filter(Boolean),
+    // e.g. "Review=48,Appeals Response=24"
+    minWorkingHours: Object.fromEntries(
+      (process.env.AUTOPILOT_CALENDAR_MIN_WORKING_HOURS || '')
+        .split(',')
+        .filter((rule) => rule.includes('='))
+        .map((rule) => {
+          const [phaseTypeName, hours] = rule.split('=');
+          return [phaseTypeName.trim(), parseFloat(hours)];
+        }),
+    ),
+  },
+  sla: {
+    enabled: process.env.AUTOPILOT_SLA_ENABLED !== 'false',
+    gracePeriod: parseInt(
+      process.env.AUTOPILOT_SLA_GRACE_PERIOD ?? '900000',
+      10,
+    ),
+    checkInterval: parseInt(
+      process.env.AUTOPILOT_SLA_CHECK_INTERVAL ?? '60000',
+      10,
+    ),
+  },
+}));
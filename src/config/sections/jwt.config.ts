@@ -0,0 +1,15 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('jwt', () => ({
+  secret: process.env.JWT_SECRET,
+  expiresIn: process.env.JWT_EXPIRES_IN || '1h',
+  // e.g. "alice:<salt>:<scrypt hash>,bob:<salt>:<scrypt hash>"
+  operators: (process.env.AUTH_OPERATORS || '')
+    .split(',')
+    .map((operator) => operator.trim())
+    .filter(Boolean)
+    .map((operator) => {
+      const [username, ...password] = operator.split(':');
+      return { username, passwordHash: password.join(':') };
+    }),
+}));
@@ -18,4 +18,18 @@ export default registerAs('kafka', () => ({
     ),
     retries: parseInt(process.env.KAFKA_RETRIES ?? '5', 10),
   },
+  deduplication: {
+    window: parseInt(process.env.KAFKA_DEDUP_WINDOW ?? '3600000', 10),
+    maxKeys: parseInt(process.env.KAFKA_DEDUP_MAX_KEYS ?? '100000', 10),
+    filePath: process.env.KAFKA_DEDUP_FILE || 'data/handled-messages.json',
+  },
+  // Delay of each retry tier in ms; empty to dead-letter on the first failure
+  retryDelays: (process.env.KAFKA_RETRY_DELAYS ?? '5000,60000,600000')
+    .split(',')
+    .filter(Boolean)
+    .map((delay) => parseInt(delay, 10)),
+  deadLetters: {
+    filePath: process.env.KAFKA_DLQ_FILE || 'data/dead-letters.json',
+    maxIndexed: parseInt(process.env.KAFKA_DLQ_MAX_INDEXED ?? '10000', 10),
+  },
 }));
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('webhooks', () => ({
+  filePath: process.env.WEBHOOK_FILE || 'data/webhooks.json',
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '5', 10),
+  initialBackoff: parseInt(process.env.WEBHOOK_INITIAL_BACKOFF ?? '1000', 10),
+  timeout: parseInt(process.env.WEBHOOK_TIMEOUT ?? '5000', 10),
+  disableAfter: parseInt(process.env.WEBHOOK_DISABLE_AFTER ?? '5', 10),
+}));
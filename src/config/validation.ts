@@ -17,9 +17,77 @@ export const validationSchema = Joi.object({
   KAFKA_MAX_RETRY_TIME: Joi.number().default(30000),
   KAFKA_INITIAL_RETRY_TIME: Joi.number().default(300),
   KAFKA_RETRIES: Joi.number().default(5),
+  KAFKA_DEDUP_WINDOW: Joi.number().integer().min(0).default(3600000),
+  KAFKA_DEDUP_MAX_KEYS: Joi.number().integer().min(1).default(100000),
+  KAFKA_DEDUP_FILE: Joi.string().default('data/handled-messages.json'),
+  KAFKA_RETRY_DELAYS: Joi.string()
+    .pattern(/^\d+(,\d+)*$/)
+    .allow('')
+    .default('5000,60000,600000'),
+  KAFKA_DLQ_FILE: Joi.string().default('data/dead-letters.json'),
+  KAFKA_DLQ_MAX_INDEXED: Joi.number().integer().min(1).default(10000),
 
   // Schema Registry Configuration
   SCHEMA_REGISTRY_URL: Joi.string().required(),
   SCHEMA_REGISTRY_USER: Joi.string().optional(),
   SCHEMA_REGISTRY_PASSWORD: Joi.string().optional(),
+
+  // Auth Configuration
+  JWT_SECRET: Joi.string().required(),
+  JWT_EXPIRES_IN: Joi.string().default('1h'),
+  AUTH_OPERATORS: Joi.string()
+    .pattern(/^[^:,]+:[0-9a-f]+:[0-9a-f]+(,\s*[^:,]+:[0-9a-f]+:[0-9a-f]+)*$/)
+    .allow(''),
+
+  // Webhook Configuration
+  WEBHOOK_FILE: Joi.string().default('data/webhooks.json'),
+  WEBHOOK_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
+  WEBHOOK_INITIAL_BACKOFF: Joi.number().integer().min(0).default(1000),
+  WEBHOOK_TIMEOUT: Joi.number().integer().min(1).default(5000),
+  WEBHOOK_DISABLE_AFTER: Joi.number().integer().min(1).default(5),
+
+  // Autopilot Configuration
+  AUTOPILOT_SCHEDULE_STORE: Joi.string()
+    .valid('file', 'memory')
+    .default('file'),
+  AUTOPILOT_SCHEDULE_FILE: Joi.string().default(
+    'data/scheduled-transitions.json',
+  ),
+  AUTOPILOT_SCHEDULE_COORDINATION: Joi.string()
+    .valid('partitions', 'none')
+    .default('partitions'),
+  AUTOPILOT_SCHEDULE_SYNC_INTERVAL: Joi.number()
+    .integer()
+    .min(100)
+    .default(5000),
+  AUTOPILOT_TIMELINE_FILE: Joi.string().default('data/project-timelines.json'),
+  AUTOPILOT_CHALLENGE_FILE: Joi.string().default('data/challenges.json'),
+  AUTOPILOT_COMMAND_RESULT_FILE: Joi.string().default(
+    'data/command-results.json',
+  ),
+  AUTOPILOT_RULES_PATH: Joi.string().default('config/rules'),
+  AUTOPILOT_AUDIT_FILE: Joi.string().default('data/audit-log.jsonl'),
+  AUTOPILOT_AUDIT_MAX_ENTRIES: Joi.number().integer().min(1).default(10000),
+  AUTOPILOT_AUDIT_MAX_FILE_SIZE: Joi.number()
+    .integer()
+    .min(1024)
+    .default(10485760),
+  AUTOPILOT_AUDIT_MAX_FILES: Joi.number().integer().min(0).default(10),
+  AUTOPILOT_CALENDAR_ENABLED: Joi.boolean().default(false),
+  AUTOPILOT_CALENDAR_TIMEZONE: Joi.string().default('UTC'),
+  AUTOPILOT_CALENDAR_WORKING_DAYS: Joi.string()
+    .pattern(/^[1-7](,[1-7])*$/)
+    .default('1,2,3,4,5'),
+  AUTOPILOT_CALENDAR_WORKING_HOURS: Joi.string()
+    .pattern(/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-4]):[0-5]\d$/)
+    .default('09:00-17:00'),
+  AUTOPILOT_CALENDAR_HOLIDAYS: Joi.string()
+    .pattern(/^\d{4}-\d{2}-\d{2}(,\s*\d{4}-\d{2}-\d{2})*$/)
+    .allow(''),
+  AUTOPILOT_CALENDAR_MIN_WORKING_HOURS: Joi.string()
+    .pattern(/^[^=,]+=\d+(\.\d+)?(,[^=,]+=\d+(\.\d+)?)*$/)
+    .allow(''),
+  AUTOPILOT_SLA_ENABLED: Joi.boolean().default(true),
+  AUTOPILOT_SLA_GRACE_PERIOD: Joi.number().integer().min(0).default(900000),
+  AUTOPILOT_SLA_CHECK_INTERVAL: Joi.number().integer().min(1000).default(60000),
 });
@@ -1,12 +1,14 @@
 import { Controller, Get } from '@nestjs/common';
 import { HealthCheck, HealthCheckService } from '@nestjs/terminus';
 import { KafkaHealthIndicator } from './kafka.health';
+import { SlaHealthIndicator } from './sla.health';
 
 @Controller('health')
 export class HealthController {
   constructor(
     private health: HealthCheckService,
     private kafkaHealth: KafkaHealthIndicator,
+    private slaHealth: SlaHealthIndicator,
   ) {}
 
   @Get()
@@ -21,6 +23,12 @@ export class HealthController {
     return this.health.check([() => this.kafkaHealth.isHealthy('kafka')]);
   }
 
+  @Get('sla')
+  @HealthCheck()
+  checkSla() {
+    return this.health.check([() => this.slaHealth.isHealthy('sla')]);
+  }
+
   @Get('app')
   @HealthCheck()
   checkApp() {
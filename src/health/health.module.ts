@@ -2,11 +2,13 @@ import { Module } from '@nestjs/common';
 import { TerminusModule } from '@nestjs/terminus';
 import { HealthController } from './health.controller';
 import { KafkaHealthIndicator } from './kafka.health';
+import { SlaHealthIndicator } from './sla.health';
 import { KafkaModule } from '../kafka/kafka.module';
+import { AutopilotModule } from '../autopilot/autopilot.module';
 
 @Module({
-  imports: [TerminusModule, KafkaModule],
+  imports: [TerminusModule, KafkaModule, AutopilotModule],
   controllers: [HealthController],
-  providers: [KafkaHealthIndicator],
+  providers: [KafkaHealthIndicator, SlaHealthIndicator],
 })
 export class HealthModule {}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { HealthIndicator, HealthCheckError } from '@nestjs/terminus';
+import { SlaMonitorService } from '../autopilot/services/sla-monitor.service';
+
+@Injectable()
+export class SlaHealthIndicator extends HealthIndicator {
+  constructor(private readonly slaMonitorService: SlaMonitorService) {
+    super();
+  }
+
+  isHealthy(key: string) {
+    const { enabled, lastCheckedAt, violations } =
+      this.slaMonitorService.getStatus();
+
+    if (violations.length) {
+      throw new HealthCheckError(
+        'SlaHealthCheck failed',
+        this.getStatus(key, false, {
+          error: `${violations.length} phase(s) overdue`,
+          lastCheckedAt,
+          violations,
+        }),
+      );
+    }
+
+    return this.getStatus(key, true, {
+      status: 'up',
+      enabled,
+      lastCheckedAt,
+      violations,
+    });
+  }
+}
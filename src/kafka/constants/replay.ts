@@ -0,0 +1,15 @@
+import { KAFKA_TOPICS } from './topics';
+
+/** What a replay can rebuild, and the topics each one is built from. */
+export const REPLAY_TARGETS = {
+  'challenge-projection': [
+    KAFKA_TOPICS.PHASE_TRANSITION,
+    KAFKA_TOPICS.CHALLENGE_UPDATE,
+  ],
+  'challenge-state': [
+    KAFKA_TOPICS.PHASE_TRANSITION,
+    KAFKA_TOPICS.CHALLENGE_UPDATE,
+  ],
+} as const;
+
+export type ReplayTargetName = keyof typeof REPLAY_TARGETS;
@@ -0,0 +1,12 @@
+/** Headers added to a message sent to a retry tier. */
+export const RETRY_HEADERS = {
+  /** Topic the message was first consumed from. */
+  TOPIC: 'retry-original-topic',
+  PARTITION: 'retry-original-partition',
+  OFFSET: 'retry-original-offset',
+  /** Times the message has been handled so far. */
+  ATTEMPT: 'retry-attempt',
+  /** Epoch ms before which the retry consumer holds the message back. */
+  DUE_AT: 'retry-due-at',
+  ERROR: 'retry-error',
+} as const;
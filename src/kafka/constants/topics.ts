@@ -2,6 +2,29 @@ export const KAFKA_TOPICS = {
   PHASE_TRANSITION: 'autopilot.phase.transition',
   CHALLENGE_UPDATE: 'autopilot.challenge.update',
   COMMAND: 'autopilot.command',
+  COMMAND_RESULT: 'autopilot.command.result',
+  NOTIFICATION: 'autopilot.notification',
+  SLA_ALERT: 'autopilot.sla.alert',
 } as const;
 
+/** Topics the autopilot consumes; the rest are only produced. */
+export const AUTOPILOT_INBOUND_TOPICS = [
+  KAFKA_TOPICS.PHASE_TRANSITION,
+  KAFKA_TOPICS.CHALLENGE_UPDATE,
+  KAFKA_TOPICS.COMMAND,
+] as const;
+
 export type KafkaTopic = (typeof KAFKA_TOPICS)[keyof typeof KAFKA_TOPICS];
+
+export const DEAD_LETTER_SUFFIX = '.dlq';
+export const RETRY_SUFFIX = '.retry';
+
+/** Where messages from `topic` go once they cannot be handled. */
+export function getDeadLetterTopic(topic: string): string {
+  return `${topic}${DEAD_LETTER_SUFFIX}`;
+}
+
+/** Retry tier `tier` (from 1) of `topic`. */
+export function getRetryTopic(topic: string, tier: number): string {
+  return `${topic}${RETRY_SUFFIX}.${tier}`;
+}
@@ -0,0 +1,104 @@
+import { AutopilotConsumer } from './autopilot.consumer';
+import { KafkaService } from '../kafka.service';
+import { KAFKA_TOPICS } from '../constants/topics';
+import { DeduplicationService } from '../services/deduplication.service';
+import { AutopilotService } from '../../autopilot/services/autopilot.service';
+import { PartitionOwnershipService } from '../../autopilot/services/partition-ownership.service';
+import { ProjectNotOwnedException } from '../../common/exceptions/autopilot.exception';
+import { IConsumedMessageContext } from '../../common/types/kafka.types';
+import { isRetryable } from '../../common/utils/retry-policy';
+import { createTestingModule, NOW } from '../../testing/fixtures';
+
+describe('AutopilotConsumer', () => {
+  const context: IConsumedMessageContext = {
+    topic: KAFKA_TOPICS.CHALLENGE_UPDATE,
+    partition: 1,
+    offset: '4',
+    headers: {},
+  };
+  const update = {
+    topic: KAFKA_TOPICS.CHALLENGE_UPDATE,
+    originator: 'spec',
+    timestamp: NOW,
+    'mime-type': 'application/json',
+    payload: {
+      projectId: 1,
+      challengeId: 100,
+      status: 'ACTIVE',
+      operator: 'ops',
+    },
+  };
+
+  let handle: (
+    message: unknown,
+    context: IConsumedMessageContext,
+  ) => Promise<void>;
+  let autopilot: jest.Mocked<
+    Pick<
+      AutopilotService,
+      'handlePhaseTransition' | 'handleChallengeUpdate' | 'handleCommand'
+    >
+  >;
+  let ownership: jest.Mocked<
+    Pick<PartitionOwnershipService, 'owns' | 'assign' | 'revoke'>
+  >;
+
+  beforeEach(async () => {
+    autopilot = {
+      handlePhaseTransition: jest.fn().mockResolvedValue(undefined),
+      handleChallengeUpdate: jest.fn().mockResolvedValue(undefined),
+      handleCommand: jest.fn().mockResolvedValue(undefined),
+    };
+    ownership = {
+      owns: jest.fn().mockReturnValue(true),
+      assign: jest.fn().mockResolvedValue(undefined),
+      revoke: jest.fn().mockResolvedValue(undefined),
+    };
+    const kafka: jest.Mocked<Pick<KafkaService, 'consume'>> = {
+      consume: jest.fn((groupId, topics, onMessage) => {
+        handle = onMessage;
+        return Promise.resolve();
+      }),
+    };
+    const module = await createTestingModule({
+      providers: [
+        AutopilotConsumer,
+        { provide: KafkaService, useValue: kafka },
+        { provide: AutopilotService, useValue: autopilot },
+        { provide: PartitionOwnershipService, useValue: ownership },
+        {
+          provide: DeduplicationService,
+          useValue: {
+            handleOnce: (
+              message: unknown,
+              context: IConsumedMessageContext,
+              handler: () => Promise<void>,
+            ) => handler().then(() => true),
+          },
+        },
+      ],
+    });
+    await module.get(AutopilotConsumer).startConsumer('autopilot');
+  });
+
+  it('hands the project owner its challenge updates', async () => {
+    await handle(update, context);
+
+    expect(ownership.owns).toHaveBeenCalledWith(1);
+    expect(autopilot.handleChallengeUpdate).toHaveBeenCalledWith(
+      update.payload,
+    );
+  });
+
+  it('retries what reaches a replica that does not own the project', async () => {
+    ownership.owns.mockReturnValue(false);
+
+    const error = await handle(update, context).catch(
+      (error: unknown) => error,
+    );
+
+    expect(error).toBeInstanceOf(ProjectNotOwnedException);
+    expect(isRetryable(error)).toBe(true);
+    expect(autopilot.handleChallengeUpdate).not.toHaveBeenCalled();
+  });
+});
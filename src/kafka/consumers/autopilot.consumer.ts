@@ -1,16 +1,25 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { KafkaService } from '../kafka.service';
 import { AutopilotService } from '../../autopilot/services/autopilot.service';
-import { KAFKA_TOPICS, KafkaTopic } from '../constants/topics';
+import {
+  AUTOPILOT_INBOUND_TOPICS,
+  KAFKA_TOPICS,
+  KafkaTopic,
+} from '../constants/topics';
 import { KafkaMessage } from '../interfaces/kafka-message.interface';
 import { TopicPayloadMap } from '../types/topic-payload-map.type';
+import { AuditService } from '../../audit/services/audit.service';
+import { DeduplicationService } from '../services/deduplication.service';
+import { PartitionOwnershipService } from '../../autopilot/services/partition-ownership.service';
+import { IConsumedMessageContext } from '../../common/types/kafka.types';
+import { ProjectNotOwnedException } from '../../common/exceptions/autopilot.exception';
 
 @Injectable()
 export class AutopilotConsumer {
   private readonly logger = new Logger(AutopilotConsumer.name);
 
   private readonly topicHandlers: {
-    [K in keyof TopicPayloadMap]: (
+    [K in (typeof AUTOPILOT_INBOUND_TOPICS)[number]]: (
       message: TopicPayloadMap[K],
     ) => Promise<void>;
   };
@@ -18,6 +27,9 @@ export class AutopilotConsumer {
   constructor(
     private readonly kafkaService: KafkaService,
     private readonly autopilotService: AutopilotService,
+    private readonly auditService: AuditService,
+    private readonly deduplicationService: DeduplicationService,
+    private readonly ownershipService: PartitionOwnershipService,
   ) {
     this.topicHandlers = {
       [KAFKA_TOPICS.PHASE_TRANSITION]:
@@ -43,41 +55,101 @@ export class AutopilotConsumer {
   }
 
   async startConsumer(groupId: string): Promise<void> {
-    const topics = Object.values(KAFKA_TOPICS);
+    const topics = [...AUTOPILOT_INBOUND_TOPICS];
 
     await this.kafkaService.consume(
       groupId,
       topics,
-      async (message: KafkaMessage<KafkaTopic>) => {
-        try {
-          switch (message.topic) {
-            case KAFKA_TOPICS.PHASE_TRANSITION:
-              await this.topicHandlers[KAFKA_TOPICS.PHASE_TRANSITION](
-                message.payload as TopicPayloadMap[typeof KAFKA_TOPICS.PHASE_TRANSITION],
-              );
-              break;
-            case KAFKA_TOPICS.CHALLENGE_UPDATE:
-              await this.topicHandlers[KAFKA_TOPICS.CHALLENGE_UPDATE](
-                message.payload as TopicPayloadMap[typeof KAFKA_TOPICS.CHALLENGE_UPDATE],
-              );
-              break;
-            case KAFKA_TOPICS.COMMAND:
-              await this.topicHandlers[KAFKA_TOPICS.COMMAND](
-                message.payload as TopicPayloadMap[typeof KAFKA_TOPICS.COMMAND],
-              );
-              break;
-          }
-        } catch (error: unknown) {
-          const err = error as Error;
-          this.logger.error(
-            `Error processing message for topic ${message.topic}`,
-            {
-              error: err.stack,
-              message,
-            },
-          );
+      async (
+        message: KafkaMessage<KafkaTopic>,
+        context: IConsumedMessageContext,
+      ) => {
+        const payload = message.payload as {
+          projectId?: number;
+          phaseId?: number;
+          operator?: string;
+        };
+        const audit = {
+          topic: message.topic,
+          projectId: payload.projectId,
+          phaseId: payload.phaseId,
+          operator: payload.operator,
+        };
+
+        const handled = await this.deduplicationService.handleOnce(
+          message,
+          context,
+          async () => {
+            await this.auditService.record({
+              ...audit,
+              type: 'EVENT_CONSUMED',
+              reason: `Consumed from ${message.topic}`,
+              details: { payload: message.payload },
+            });
+            await this.dispatch(message, context);
+          },
+        );
+        if (!handled) {
+          await this.auditService.record({
+            ...audit,
+            type: 'DUPLICATE_SKIPPED',
+            reason: 'Already handled within the deduplication window',
+            details: { partition: context.partition, offset: context.offset },
+          });
         }
       },
+      {
+        onAssign: (assignment) => this.ownershipService.assign(assignment),
+        onRevoke: () => this.ownershipService.revoke(),
+      },
     );
   }
+
+  private async dispatch(
+    message: KafkaMessage<KafkaTopic>,
+    context: IConsumedMessageContext,
+  ): Promise<void> {
+    try {
+      // Only the owner holds the project's state. Topics are co-partitioned,
+      // so this only fails while a rebalance settles; retried, the message
+      // reaches the new owner
+      const { projectId } = message.payload as { projectId?: number };
+      if (projectId !== undefined && !this.ownershipService.owns(projectId)) {
+        throw new ProjectNotOwnedException(projectId, {
+          topic: context.topic,
+          partition: context.partition,
+        });
+      }
+      switch (message.topic) {
+        case KAFKA_TOPICS.PHASE_TRANSITION:
+          await this.topicHandlers[KAFKA_TOPICS.PHASE_TRANSITION](
+            message.payload as TopicPayloadMap[typeof KAFKA_TOPICS.PHASE_TRANSITION],
+          );
+          break;
+        case KAFKA_TOPICS.CHALLENGE_UPDATE:
+          await this.topicHandlers[KAFKA_TOPICS.CHALLENGE_UPDATE](
+            message.payload as TopicPayloadMap[typeof KAFKA_TOPICS.CHALLENGE_UPDATE],
+          );
+          break;
+        case KAFKA_TOPICS.COMMAND: {
+          const command =
+            message.payload as TopicPayloadMap[typeof KAFKA_TOPICS.COMMAND];
+          await this.topicHandlers[KAFKA_TOPICS.COMMAND]({
+            ...command,
+            // Stable across retries, so a command without an id still runs once
+            commandId: command.commandId || context.headers['event-id'],
+          });
+          break;
+        }
+      }
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(`Error processing message for topic ${message.topic}`, {
+        error: err.stack,
+        message,
+      });
+      // Let KafkaService route the message to the DLQ with the reason
+      throw err;
+    }
+  }
 }
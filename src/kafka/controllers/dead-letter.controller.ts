@@ -0,0 +1,91 @@
+import {
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DeadLetterService } from '../services/dead-letter.service';
+import {
+  DeadLetterActionDto,
+  DeadLetterQueryDto,
+} from '../dto/dead-letter.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { IValidatedUser } from '../../common/types/auth.types';
+
+@Controller('kafka/dlq')
+@UseGuards(JwtAuthGuard)
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get(':topic')
+  async list(
+    @Param('topic') topic: string,
+    @Query() query: DeadLetterQueryDto,
+  ) {
+    this.assertTopic(topic);
+    return {
+      success: true,
+      message: 'Dead letters retrieved successfully',
+      data: await this.deadLetterService.list(topic, query),
+    };
+  }
+
+  @Get(':topic/:id')
+  async get(@Param('topic') topic: string, @Param('id') id: string) {
+    this.assertTopic(topic);
+    const letter = await this.deadLetterService.get(topic, id);
+    if (!letter) {
+      throw new NotFoundException(`Dead letter ${id} of ${topic} not found`);
+    }
+    return {
+      success: true,
+      message: 'Dead letter retrieved successfully',
+      data: letter,
+    };
+  }
+
+  @Post(':topic/replay')
+  async replay(
+    @Param('topic') topic: string,
+    @Body() body: DeadLetterActionDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    this.assertTopic(topic);
+    return {
+      success: true,
+      message: 'Dead letters replayed successfully',
+      data: await this.deadLetterService.replay(topic, {
+        ...body,
+        operator: user.username,
+      }),
+    };
+  }
+
+  @Post(':topic/discard')
+  async discard(
+    @Param('topic') topic: string,
+    @Body() body: DeadLetterActionDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    this.assertTopic(topic);
+    return {
+      success: true,
+      message: 'Dead letters discarded successfully',
+      data: await this.deadLetterService.discard(topic, {
+        ...body,
+        operator: user.username,
+      }),
+    };
+  }
+
+  private assertTopic(topic: string): void {
+    if (!this.deadLetterService.hasDeadLetterTopic(topic)) {
+      throw new NotFoundException(`${topic} has no dead-letter topic`);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { KafkaController } from './kafka.controller';
+import { AutopilotProducer } from '../producers/autopilot.producer';
+import { DeduplicationService } from '../services/deduplication.service';
+import { SimulationService } from '../../autopilot/services/simulation.service';
+import { JwtStrategy } from '../../auth/strategies/jwt.strategy';
+import {
+  createProducer,
+  createTestingModule,
+  FakeProducer,
+  NOW,
+} from '../../testing/fixtures';
+
+describe('KafkaController', () => {
+  const SECRET = 'spec-secret';
+  const command = {
+    topic: 'autopilot.command',
+    timestamp: NOW,
+    payload: { command: 'pause-project', projectId: 1, operator: 'someone' },
+  };
+
+  let producer: FakeProducer;
+  let app: INestApplication<App>;
+  let token: string;
+
+  beforeEach(async () => {
+    producer = createProducer();
+    const module = await createTestingModule({
+      providers: [
+        JwtStrategy,
+        { provide: AutopilotProducer, useValue: producer },
+        { provide: SimulationService, useValue: {} },
+        { provide: DeduplicationService, useValue: {} },
+      ],
+      config: { 'jwt.secret': SECRET },
+      controllers: [KafkaController],
+    });
+    app = module.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({ transform: true, whitelist: true }),
+    );
+    await app.init();
+    token = new JwtService({ secret: SECRET }).sign({
+      sub: 1,
+      username: 'jane.doe',
+    });
+  });
+
+  afterEach(() => app.close());
+
+  it('produces nothing without a bearer token', async () => {
+    await request(app.getHttpServer())
+      .post('/kafka/command')
+      .send(command)
+      .expect(401);
+
+    expect(producer.sendCommand).not.toHaveBeenCalled();
+  });
+
+  it('produces as the authenticated operator, whatever the body says', async () => {
+    await request(app.getHttpServer())
+      .post('/kafka/command')
+      .set('Authorization', `Bearer ${token}`)
+      .send(command)
+      .expect(201);
+
+    expect(producer.sendCommand).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: 'pause-project',
+        operator: 'jane.doe',
+      }),
+    );
+  });
+});
@@ -1,18 +1,35 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
 import { AutopilotProducer } from '../producers/autopilot.producer';
+import { SimulationService } from '../../autopilot/services/simulation.service';
+import { SimulationRequestDto } from '../../autopilot/dto/autopilot.dto';
+import { DeduplicationService } from '../services/deduplication.service';
 import {
   PhaseTransitionMessageDto,
   ChallengeUpdateMessageDto,
   CommandMessageDto,
 } from '../dto/produce-message.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { IValidatedUser } from '../../common/types/auth.types';
 
 @Controller('kafka')
 export class KafkaController {
-  constructor(private readonly autopilotProducer: AutopilotProducer) {}
+  constructor(
+    private readonly autopilotProducer: AutopilotProducer,
+    private readonly simulationService: SimulationService,
+    private readonly deduplicationService: DeduplicationService,
+  ) {}
 
   @Post('phase-transition')
-  async producePhaseTransition(@Body() message: PhaseTransitionMessageDto) {
-    await this.autopilotProducer.sendPhaseTransition(message.payload);
+  @UseGuards(JwtAuthGuard)
+  async producePhaseTransition(
+    @Body() message: PhaseTransitionMessageDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    await this.autopilotProducer.sendPhaseTransition({
+      ...message.payload,
+      operator: user.username,
+    });
     return {
       success: true,
       message: 'Phase transition message produced successfully',
@@ -26,8 +43,15 @@ export class KafkaController {
   }
 
   @Post('challenge-update')
-  async produceChallengeUpdate(@Body() message: ChallengeUpdateMessageDto) {
-    await this.autopilotProducer.sendChallengeUpdate(message.payload);
+  @UseGuards(JwtAuthGuard)
+  async produceChallengeUpdate(
+    @Body() message: ChallengeUpdateMessageDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    await this.autopilotProducer.sendChallengeUpdate({
+      ...message.payload,
+      operator: user.username,
+    });
     return {
       success: true,
       message: 'Challenge update message produced successfully',
@@ -40,8 +64,15 @@ export class KafkaController {
   }
 
   @Post('command')
-  async produceCommand(@Body() message: CommandMessageDto) {
-    await this.autopilotProducer.sendCommand(message.payload);
+  @UseGuards(JwtAuthGuard)
+  async produceCommand(
+    @Body() message: CommandMessageDto,
+    @CurrentUser() user: IValidatedUser,
+  ) {
+    await this.autopilotProducer.sendCommand({
+      ...message.payload,
+      operator: user.username,
+    });
     return {
       success: true,
       message: 'Command message produced successfully',
@@ -52,4 +83,23 @@ export class KafkaController {
       },
     };
   }
+
+  @Post('simulate')
+  async simulate(@Body() request: SimulationRequestDto) {
+    const result = await this.simulationService.run(request);
+    return {
+      success: true,
+      message: 'Simulation completed without producing messages',
+      data: result,
+    };
+  }
+
+  @Get('deduplication')
+  async getDeduplicationStats() {
+    return {
+      success: true,
+      message: 'Deduplication stats retrieved successfully',
+      data: await this.deduplicationService.getStats(),
+    };
+  }
 }
@@ -0,0 +1,80 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ReplayService } from '../services/replay.service';
+import { ReplayRequestDto } from '../dto/replay.dto';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { IValidatedUser } from '../../common/types/auth.types';
+
+@Controller('kafka/replays')
+@UseGuards(JwtAuthGuard)
+export class ReplayController {
+  constructor(private readonly replayService: ReplayService) {}
+
+  @Post()
+  start(@Body() body: ReplayRequestDto, @CurrentUser() user: IValidatedUser) {
+    const topics = this.replayService.getTopics(body.target);
+    const unsupported = body.topics?.filter((topic) => !topics.includes(topic));
+    if (unsupported?.length) {
+      throw new BadRequestException(
+        `${body.target} is not built from ${unsupported.join(', ')}`,
+      );
+    }
+    // Every target is rebuilt from nothing, so leaving out a topic would
+    // leave out everything it contributed
+    const missing = body.topics?.length
+      ? topics.filter((topic) => !body.topics!.includes(topic))
+      : [];
+    if (missing.length) {
+      throw new BadRequestException(
+        `${body.target} is rebuilt from scratch, so it also needs ${missing.join(', ')}`,
+      );
+    }
+    if (this.replayService.isRunning(body.target)) {
+      throw new ConflictException(
+        `A replay into ${body.target} is already running`,
+      );
+    }
+
+    return {
+      success: true,
+      message: 'Replay started successfully',
+      data: this.replayService.start({
+        target: body.target,
+        topics: body.topics,
+        operator: user.username,
+      }),
+    };
+  }
+
+  @Get()
+  list() {
+    return {
+      success: true,
+      message: 'Replays retrieved successfully',
+      data: this.replayService.list(),
+    };
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string) {
+    const job = this.replayService.get(id);
+    if (!job) {
+      throw new NotFoundException(`Replay ${id} not found`);
+    }
+    return {
+      success: true,
+      message: 'Replay retrieved successfully',
+      data: job,
+    };
+  }
+}
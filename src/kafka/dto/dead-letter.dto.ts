@@ -0,0 +1,74 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { DeadLetterStatus } from '../interfaces/dead-letter.interface';
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = [
+  'PENDING',
+  'REPLAYED',
+  'DISCARDED',
+];
+
+class DeadLetterFilterDto {
+  @IsOptional()
+  @IsString()
+  errorClass?: string;
+
+  @IsOptional()
+  @IsString()
+  consumerGroup?: string;
+
+  @IsOptional()
+  @IsString()
+  key?: string;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class DeadLetterQueryDto extends DeadLetterFilterDto {
+  @IsOptional()
+  @IsIn(DEAD_LETTER_STATUSES)
+  status?: DeadLetterStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit: number = 50;
+}
+
+export class DeadLetterActionDto extends DeadLetterFilterDto {
+  // Omitted to act on every pending dead letter matching the filter
+  @IsOptional()
+  @IsArray()
+  @Matches(/^\d+:\d+$/, { each: true })
+  ids?: string[];
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  reason?: string;
+}
@@ -7,6 +7,8 @@ import {
   IsNumber,
   IsOptional,
   IsDateString,
+  IsObject,
+  IsBoolean,
 } from 'class-validator';
 
 export enum PhaseState {
@@ -30,8 +32,9 @@ export class PhaseTransitionPayloadDto {
   @IsEnum(PhaseState)
   state: PhaseState;
 
+  // Taken from the bearer token when produced through the API
   @IsString()
-  @IsNotEmpty()
+  @IsOptional()
   operator: string;
 
   @IsString()
@@ -41,6 +44,22 @@ export class PhaseTransitionPayloadDto {
   @IsDateString()
   @IsOptional()
   date?: string;
+
+  @IsDateString()
+  @IsOptional()
+  scheduledEndDate?: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  reopen?: boolean;
+
+  @IsNumber()
+  @IsOptional()
+  extendedBy?: number;
 }
 
 export class ChallengeUpdatePayloadDto {
@@ -56,13 +75,38 @@ export class ChallengeUpdatePayloadDto {
   @IsNotEmpty()
   status: string;
 
+  // Taken from the bearer token when produced through the API
   @IsString()
-  @IsNotEmpty()
+  @IsOptional()
   operator: string;
 
   @IsDateString()
   @IsOptional()
   date?: string;
+
+  @IsNumber()
+  @IsOptional()
+  phaseId?: number;
+
+  @IsNumber()
+  @IsOptional()
+  submissionCount?: number;
+
+  @IsNumber()
+  @IsOptional()
+  reviewCount?: number;
+
+  @IsNumber()
+  @IsOptional()
+  requiredReviewCount?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  workComplete?: boolean;
+
+  @IsString()
+  @IsOptional()
+  challengeType?: string;
 }
 
 export class CommandPayloadDto {
@@ -70,8 +114,9 @@ export class CommandPayloadDto {
   @IsNotEmpty()
   command: string;
 
+  // Taken from the bearer token when produced through the API
   @IsString()
-  @IsNotEmpty()
+  @IsOptional()
   operator: string;
 
   @IsNumber()
@@ -81,6 +126,18 @@ export class CommandPayloadDto {
   @IsDateString()
   @IsOptional()
   date?: string;
+
+  @IsString()
+  @IsOptional()
+  commandId?: string;
+
+  @IsObject()
+  @IsOptional()
+  parameters?: Record<string, string | number | boolean | null>;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
 }
 
 export class BaseMessageDto {
@@ -0,0 +1,14 @@
+import { IsArray, IsIn, IsOptional } from 'class-validator';
+import { AUTOPILOT_INBOUND_TOPICS } from '../constants/topics';
+import { REPLAY_TARGETS, ReplayTargetName } from '../constants/replay';
+
+export class ReplayRequestDto {
+  @IsIn(Object.keys(REPLAY_TARGETS))
+  target: ReplayTargetName;
+
+  // Omitted or empty to replay every topic the target is built from
+  @IsOptional()
+  @IsArray()
+  @IsIn(AUTOPILOT_INBOUND_TOPICS, { each: true })
+  topics?: string[];
+}
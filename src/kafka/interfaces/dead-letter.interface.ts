@@ -0,0 +1,87 @@
+/**
+ * What `<topic>.dlq` holds for a message that could not be handled: the
+ * message exactly as it was consumed, where it was read from, and why it
+ * failed.
+ */
+export interface DeadLetterMessage {
+  originalTopic: string;
+  originalPartition: number;
+  originalOffset: string;
+  originalKey?: string | null;
+  originalHeaders: Record<string, string>;
+  /** The value as consumed, still schema-registry encoded. */
+  originalMessage: Buffer;
+  consumerGroup: string;
+  correlationId?: string | null;
+  /** Class name of the error, e.g. `IllegalTransitionException`. */
+  errorClass: string;
+  errorMessage: string;
+  errorStack?: string | null;
+  /** Times the message was handled before it was dead-lettered. */
+  attempts: number;
+  failedAt: string;
+}
+
+export type DeadLetterStatus = 'PENDING' | 'REPLAYED' | 'DISCARDED';
+
+/** What an operator decided for one dead letter. */
+export interface DeadLetterDisposition {
+  /** Position in the DLQ, as `<partition>:<offset>`. */
+  id: string;
+  /** Source topic, not the DLQ. */
+  topic: string;
+  status: Exclude<DeadLetterStatus, 'PENDING'>;
+  operator: string;
+  reason?: string;
+  at: string;
+}
+
+/** A dead letter as the API shows it, with its value decoded. */
+export interface DeadLetterView
+  extends Omit<DeadLetterMessage, 'originalMessage'> {
+  id: string;
+  partition: number;
+  offset: string;
+  status: DeadLetterStatus;
+  /** The original value, base64 encoded. */
+  originalMessage: string;
+  /** The original message decoded, unless it could not be. */
+  decoded?: unknown;
+  decodeError?: string;
+  disposition?: DeadLetterDisposition;
+}
+
+export interface DeadLetterFilter {
+  status?: DeadLetterStatus;
+  errorClass?: string;
+  consumerGroup?: string;
+  key?: string;
+  /** Failure time bounds, inclusive. */
+  from?: string;
+  to?: string;
+}
+
+export interface DeadLetterQuery extends DeadLetterFilter {
+  page: number;
+  limit: number;
+}
+
+export interface DeadLetterPage {
+  items: DeadLetterView[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/** Dead letters picked by id, or else every pending one matching the filter. */
+export interface DeadLetterSelection extends Omit<DeadLetterFilter, 'status'> {
+  ids?: string[];
+  operator: string;
+  reason?: string;
+}
+
+export interface DeadLetterActionResult {
+  /** Ids replayed or discarded. */
+  processed: string[];
+  skipped: { id: string; reason: string }[];
+}
@@ -0,0 +1,28 @@
+import { IReplayPartitionProgress } from '../../common/types/kafka.types';
+import { ReplayTargetName } from '../constants/replay';
+
+export type ReplayStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface ReplayRequest {
+  target: ReplayTargetName;
+  /** Defaults to every topic the target is built from. */
+  topics?: string[];
+  operator: string;
+}
+
+export interface ReplayJob {
+  id: string;
+  groupId: string;
+  target: ReplayTargetName;
+  topics: string[];
+  operator: string;
+  status: ReplayStatus;
+  /** Messages between the earliest offsets and the ends, once known. */
+  total?: number;
+  consumed: number;
+  failed: number;
+  partitions: IReplayPartitionProgress[];
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
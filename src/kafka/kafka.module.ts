@@ -2,20 +2,67 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { KafkaService } from './kafka.service';
 import { KafkaController } from './controllers/kafka.controller';
+import { ReplayController } from './controllers/replay.controller';
+import { DeadLetterController } from './controllers/dead-letter.controller';
 import { MessageConsumer } from './consumers/message.consumer';
 import { AutopilotProducer } from './producers/autopilot.producer';
 import { AutopilotConsumer } from './consumers/autopilot.consumer';
-import { ConfigModule } from '@nestjs/config';
+import { DeduplicationService } from './services/deduplication.service';
+import { ReplayService } from './services/replay.service';
+import { DeadLetterService } from './services/dead-letter.service';
+import { DEAD_LETTER_REPOSITORY } from './repositories/dead-letter.repository';
+import { InMemoryDeadLetterRepository } from './repositories/in-memory-dead-letter.repository';
+import { FileDeadLetterRepository } from './repositories/file-dead-letter.repository';
+import { HANDLED_MESSAGE_REPOSITORY } from './repositories/handled-message.repository';
+import { InMemoryHandledMessageRepository } from './repositories/in-memory-handled-message.repository';
+import { FileHandledMessageRepository } from './repositories/file-handled-message.repository';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AutopilotModule } from '../autopilot/autopilot.module';
+import { AuditModule } from '../audit/audit.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
-  imports: [ConfigModule, forwardRef(() => AutopilotModule)],
-  controllers: [KafkaController],
+  imports: [
+    ConfigModule,
+    AuditModule,
+    WebhooksModule,
+    forwardRef(() => AutopilotModule),
+  ],
+  controllers: [KafkaController, ReplayController, DeadLetterController],
   providers: [
     KafkaService,
     AutopilotProducer,
     AutopilotConsumer,
     MessageConsumer,
+    DeduplicationService,
+    ReplayService,
+    DeadLetterService,
+    {
+      provide: DEAD_LETTER_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryDeadLetterRepository()
+          : new FileDeadLetterRepository(
+              configService.get<string>(
+                'kafka.deadLetters.filePath',
+                'data/dead-letters.json',
+              ),
+            ),
+    },
+    {
+      provide: HANDLED_MESSAGE_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryHandledMessageRepository()
+          : new FileHandledMessageRepository(
+              configService.get<string>(
+                'kafka.deduplication.filePath',
+                'data/handled-messages.json',
+              ),
+            ),
+    },
   ],
   exports: [KafkaService, AutopilotProducer],
 })
@@ -0,0 +1,267 @@
+import {
+  ConsumerRunConfig,
+  EachMessagePayload,
+  IHeaders,
+  Kafka,
+} from 'kafkajs';
+import { Schema, Type } from 'avsc';
+import { KafkaService } from './kafka.service';
+import { getDeadLetterTopic, getRetryTopic } from './constants/topics';
+import { RETRY_HEADERS } from './constants/retry';
+import { DeadLetterMessage } from './interfaces/dead-letter.interface';
+import { KAFKA_SCHEMAS } from '../common/schemas/kafka.schemas';
+import { SchemaUtils } from '../common/utils/schema.utils';
+import { FakeClock } from '../common/services/clock.service';
+import { IllegalTransitionException } from '../common/exceptions/autopilot.exception';
+import { KafkaProducerException } from '../common/exceptions/kafka.exception';
+import { createClock, createConfig } from '../testing/fixtures';
+
+describe('KafkaService retries', () => {
+  const TOPIC = 'autopilot.phase.transition';
+  const value = Buffer.from('encoded');
+  const kafka = new Kafka({ brokers: ['localhost:9092'] });
+
+  let clock: FakeClock;
+  // Subscriptions of real consumers that never connect, by group
+  let subscriptions: Map<string, jest.SpyInstance>;
+  let handlers: Map<string, (payload: EachMessagePayload) => Promise<void>>;
+  let service: KafkaService;
+  let handler: jest.Mock;
+  let produceEncoded: jest.SpiedFunction<KafkaService['produceEncoded']>;
+  let produce: jest.SpiedFunction<KafkaService['produce']>;
+
+  const deliver = (
+    groupId: string,
+    topic: string,
+    headers: IHeaders = {},
+    heartbeat = jest.fn().mockResolvedValue(undefined),
+  ) =>
+    handlers.get(groupId)!({
+      topic,
+      partition: 3,
+      message: {
+        key: Buffer.from('1'),
+        value,
+        offset: '7',
+        timestamp: String(clock.now()),
+        attributes: 0,
+        headers,
+      },
+      heartbeat,
+      pause: () => () => undefined,
+    });
+  const retryHeaders = (call: number): IHeaders =>
+    Object.fromEntries(
+      Object.entries(produceEncoded.mock.calls[call][2]?.headers ?? {}).map(
+        ([key, header]) => [key, Buffer.from(header)],
+      ),
+    );
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    clock = createClock();
+    subscriptions = new Map();
+    handlers = new Map();
+    jest
+      .spyOn(SchemaUtils.prototype, 'decode')
+      .mockResolvedValue({ payload: { projectId: 1, phaseId: 10 } });
+
+    service = new KafkaService(
+      createConfig({
+        'kafka.retryDelays': [1000, 5000],
+        'kafka.schemaRegistry.url': 'http://localhost:8081',
+      }),
+      clock,
+    );
+    jest.spyOn(service['kafka'], 'consumer').mockImplementation((config) => {
+      const consumer = kafka.consumer(config);
+      jest.spyOn(consumer, 'connect').mockResolvedValue(undefined);
+      subscriptions.set(
+        config.groupId,
+        jest.spyOn(consumer, 'subscribe').mockResolvedValue(undefined),
+      );
+      jest
+        .spyOn(consumer, 'run')
+        .mockImplementation((run?: ConsumerRunConfig) => {
+          handlers.set(config.groupId, run!.eachMessage!);
+          return Promise.resolve();
+        });
+      return consumer;
+    });
+    produceEncoded = jest
+      .spyOn(service, 'produceEncoded')
+      .mockResolvedValue(undefined);
+    produce = jest.spyOn(service, 'produce').mockResolvedValue(undefined);
+    handler = jest.fn().mockRejectedValue(new Error('registry down'));
+
+    await service.consume('autopilot', [TOPIC], handler);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('consumes each retry tier with its own group', () => {
+    expect(Array.from(subscriptions.keys())).toEqual([
+      'autopilot',
+      'autopilot.retry.1',
+      'autopilot.retry.2',
+    ]);
+    expect(subscriptions.get('autopilot.retry.2')).toHaveBeenCalledWith({
+      topics: [getRetryTopic(TOPIC, 2)],
+      fromBeginning: true,
+    });
+  });
+
+  it('sends a transient failure to the first tier with its delay', async () => {
+    await deliver('autopilot', TOPIC, { 'event-id': 'e-1' });
+
+    expect(produceEncoded).toHaveBeenCalledWith(
+      getRetryTopic(TOPIC, 1),
+      value,
+      {
+        key: '1',
+        headers: {
+          'event-id': 'e-1',
+          [RETRY_HEADERS.TOPIC]: TOPIC,
+          [RETRY_HEADERS.PARTITION]: '3',
+          [RETRY_HEADERS.OFFSET]: '7',
+          [RETRY_HEADERS.ATTEMPT]: '1',
+          [RETRY_HEADERS.DUE_AT]: String(clock.now() + 1000),
+          [RETRY_HEADERS.ERROR]: 'Error: registry down',
+        },
+      },
+    );
+    expect(produce).not.toHaveBeenCalled();
+  });
+
+  it('handles a retry once it is due, as read from its original topic', async () => {
+    await deliver('autopilot', TOPIC);
+
+    const retried = deliver(
+      'autopilot.retry.1',
+      getRetryTopic(TOPIC, 1),
+      retryHeaders(0),
+    );
+    await settle();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    clock.advance(1000);
+    await retried;
+    expect(handler).toHaveBeenLastCalledWith(
+      { payload: { projectId: 1, phaseId: 10 } },
+      expect.objectContaining({ topic: TOPIC, partition: 3, offset: '7' }),
+    );
+    expect(produceEncoded).toHaveBeenLastCalledWith(
+      getRetryTopic(TOPIC, 2),
+      value,
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          [RETRY_HEADERS.ATTEMPT]: '2',
+          [RETRY_HEADERS.DUE_AT]: String(clock.now() + 5000),
+        }) as unknown,
+      }),
+    );
+  });
+
+  it('keeps the group alive while waiting and dead-letters after the last tier', async () => {
+    await deliver('autopilot', TOPIC);
+    clock.advance(1000);
+    await deliver(
+      'autopilot.retry.1',
+      getRetryTopic(TOPIC, 1),
+      retryHeaders(0),
+    );
+
+    const heartbeat = jest.fn().mockResolvedValue(undefined);
+    const retried = deliver(
+      'autopilot.retry.2',
+      getRetryTopic(TOPIC, 2),
+      retryHeaders(1),
+      heartbeat,
+    );
+    clock.advance(3000);
+    await settle();
+    expect(heartbeat).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    clock.advance(2000);
+    await retried;
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(produceEncoded).toHaveBeenCalledTimes(2);
+    expect(produce).toHaveBeenCalledWith(
+      getDeadLetterTopic(TOPIC),
+      expect.objectContaining({
+        originalTopic: TOPIC,
+        originalPartition: 3,
+        originalOffset: '7',
+        consumerGroup: 'autopilot.retry.2',
+        errorMessage: 'registry down',
+        attempts: 3,
+      }),
+      { key: '1' },
+    );
+  });
+
+  it('dead-letters errors that would fail the same way again', async () => {
+    handler.mockRejectedValueOnce(
+      new IllegalTransitionException('END on CLOSED'),
+    );
+
+    await deliver('autopilot', TOPIC);
+
+    expect(produceEncoded).not.toHaveBeenCalled();
+    expect(produce).toHaveBeenCalledWith(
+      getDeadLetterTopic(TOPIC),
+      expect.objectContaining({
+        errorClass: 'IllegalTransitionException',
+        attempts: 1,
+      }),
+      { key: '1' },
+    );
+  });
+
+  it('dead-letters the message with its failure context, as its schema takes it', async () => {
+    handler.mockRejectedValueOnce(
+      new IllegalTransitionException('END on CLOSED'),
+    );
+
+    await deliver('autopilot', TOPIC, {
+      'event-id': 'e-1',
+      'correlation-id': 'c-1',
+    });
+
+    const [topic, deadLetter] = produce.mock.calls[0] as [
+      keyof typeof KAFKA_SCHEMAS,
+      DeadLetterMessage,
+    ];
+    expect(deadLetter).toEqual({
+      originalTopic: TOPIC,
+      originalPartition: 3,
+      originalOffset: '7',
+      originalKey: '1',
+      originalHeaders: { 'event-id': 'e-1', 'correlation-id': 'c-1' },
+      originalMessage: value,
+      consumerGroup: 'autopilot',
+      correlationId: 'c-1',
+      errorClass: 'IllegalTransitionException',
+      errorMessage: 'Illegal transition: END on CLOSED',
+      errorStack: expect.stringContaining('END on CLOSED') as unknown,
+      attempts: 1,
+      failedAt: clock.toISOString(),
+    });
+    // Registered as JSON, so read back the same way
+    const schema = JSON.parse(JSON.stringify(KAFKA_SCHEMAS[topic])) as Schema;
+    expect(Type.forSchema(schema).isValid(deadLetter)).toBe(true);
+  });
+
+  it('dead-letters a message its retry tier cannot take', async () => {
+    produceEncoded.mockRejectedValueOnce(new KafkaProducerException('retry'));
+
+    await deliver('autopilot', TOPIC);
+
+    expect(produce).toHaveBeenCalledWith(
+      getDeadLetterTopic(TOPIC),
+      expect.objectContaining({ consumerGroup: 'autopilot', attempts: 1 }),
+      { key: '1' },
+    );
+  });
+});
@@ -5,8 +5,10 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
+  Admin,
   Consumer,
   Kafka,
+  KafkaMessage as KafkaJsMessage,
   Producer,
   ProducerRecord,
   Partitioners,
@@ -17,13 +19,36 @@ import {
   KafkaProducerException,
   KafkaConsumerException,
   SchemaRegistryException,
+  SchemaValidationException,
 } from '../common/exceptions/kafka.exception';
 import { LoggerService } from '../common/services/logger.service';
+import { Clock } from '../common/services/clock.service';
 import { CircuitBreaker } from '../common/utils/circuit-breaker';
+import {
+  getCorrelationId,
+  runWithCorrelationId,
+} from '../common/utils/correlation-context';
 import { v4 as uuidv4 } from 'uuid';
 import { KAFKA_SCHEMAS } from '../common/schemas/kafka.schemas';
 import { CONFIG } from '../common/constants/config.constants';
-import { ISchemaCacheEntry, IKafkaConfig } from '../common/types/kafka.types';
+import {
+  getDeadLetterTopic,
+  getRetryTopic,
+  RETRY_SUFFIX,
+} from './constants/topics';
+import { RETRY_HEADERS } from './constants/retry';
+import { isRetryable } from '../common/utils/retry-policy';
+import { coPartitionedAssigner } from '../common/utils/co-partitioned-assigner';
+import { DeadLetterMessage } from './interfaces/dead-letter.interface';
+import {
+  ISchemaCacheEntry,
+  IKafkaConfig,
+  IConsumedMessageContext,
+  IConsumerHooks,
+  IProduceOptions,
+  IBatchMessage,
+  IReplayPartitionProgress,
+} from '../common/types/kafka.types';
 
 @Injectable()
 export class KafkaService implements OnApplicationShutdown, OnModuleInit {
@@ -35,10 +60,23 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
   private readonly circuitBreaker: CircuitBreaker;
   private schemaIds: Map<string, number>;
   private readonly schemaCache: Map<string, ISchemaCacheEntry>;
+  private readonly retryDelays: number[];
+  // Topics each consumer started by `consume` reads, by group and source topic
+  private readonly subscriptions = new Map<string, Map<string, string>>();
+  private stopping = false;
+  // Orders this process among the members of every group it joins
+  private readonly replicaId = uuidv4();
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clock: Clock,
+  ) {
     this.logger = new LoggerService(KafkaService.name);
     this.schemaCache = new Map();
+    this.retryDelays = this.configService.get<number[]>(
+      'kafka.retryDelays',
+      [],
+    );
 
     try {
       const brokers = this.configService.get<string | undefined>(
@@ -80,6 +118,7 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
       this.circuitBreaker = new CircuitBreaker({
         failureThreshold: CONFIG.CIRCUIT_BREAKER.DEFAULT_FAILURE_THRESHOLD,
         resetTimeout: CONFIG.CIRCUIT_BREAKER.DEFAULT_RESET_TIMEOUT,
+        clock: this.clock,
       });
 
       const schemaRegistryUrl = this.configService.get<string | undefined>(
@@ -205,14 +244,23 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
       this.logger.error(
         `Failed to send message to topic ${topic}: ${err.message}`,
       );
+      if (error instanceof SchemaValidationException) {
+        throw error;
+      }
       throw new KafkaProducerException(
         `Failed to send message to topic ${topic}: ${err.message}`,
       );
     }
   }
 
-  async produce(topic: string, message: unknown): Promise<void> {
-    const correlationId = uuidv4();
+  async produce(
+    topic: string,
+    message: unknown,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const correlationId = getCorrelationId() ?? uuidv4();
+    // Fixed before sending so consumers can drop re-sent copies
+    const eventId = uuidv4();
 
     try {
       await this.circuitBreaker.execute(async () => {
@@ -255,11 +303,13 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
           topic,
           messages: [
             {
+              key: options.key,
               value: encodedValue,
-              headers: {
-                'correlation-id': correlationId,
-                timestamp: Date.now().toString(),
-              },
+              headers: this.buildHeaders(
+                correlationId,
+                eventId,
+                options.headers,
+              ),
             },
           ],
           acks: -1,
@@ -271,7 +321,8 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
         this.logger.info(`[KAFKA-PRODUCER] Message produced to ${topic}`, {
           correlationId,
           topic,
-          timestamp: new Date().toISOString(),
+          key: options.key,
+          timestamp: this.clock.toISOString(),
         });
       });
     } catch (error) {
@@ -280,15 +331,19 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
         correlationId,
         error: err.stack || err.message,
       });
+      if (error instanceof SchemaValidationException) {
+        throw error;
+      }
       throw new KafkaProducerException(
         `Failed to produce message to ${topic}: ${err.message}`,
       );
     }
   }
 
-  async produceBatch(topic: string, messages: unknown[]): Promise<void> {
-    const correlationId = uuidv4();
-    const startTime = Date.now();
+  async produceBatch(topic: string, messages: IBatchMessage[]): Promise<void> {
+    const correlationId = getCorrelationId() ?? uuidv4();
+    const eventIds = messages.map(() => uuidv4());
+    const startTime = this.clock.now();
 
     try {
       await this.circuitBreaker.execute(async () => {
@@ -317,12 +372,14 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
         });
 
         const encodedMessages = await Promise.all(
-          messages.map(async (message) => ({
-            value: await this.schemaUtils.encode(message, schemaId),
-            headers: {
-              'correlation-id': correlationId,
-              timestamp: Date.now().toString(),
-            },
+          messages.map(async (message, index) => ({
+            key: message.key,
+            value: await this.schemaUtils.encode(message.value, schemaId),
+            headers: this.buildHeaders(
+              correlationId,
+              eventIds[index],
+              message.headers,
+            ),
           })),
         );
 
@@ -337,7 +394,7 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
         this.logger.info(`Batch produced to ${topic}`, {
           correlationId,
           count: messages.length,
-          latency: Date.now() - startTime,
+          latency: this.clock.now() - startTime,
         });
       });
     } catch (error) {
@@ -347,144 +404,732 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
         error: err.stack || err.message,
         count: messages.length,
       });
+      if (error instanceof SchemaValidationException) {
+        throw error;
+      }
       throw new KafkaProducerException(
         `Failed to produce batch to ${topic}: ${err.message}`,
       );
     }
   }
 
+  /**
+   * Sends a value that is already schema-registry encoded, such as a message
+   * being retried or taken back out of a DLQ, without encoding it again. An
+   * `event-id` header is kept so deduplication still recognises the message.
+   */
+  async produceEncoded(
+    topic: string,
+    value: Buffer,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const correlationId = getCorrelationId() ?? uuidv4();
+
+    try {
+      await this.circuitBreaker.execute(async () => {
+        await this.producer.send({
+          topic,
+          messages: [
+            {
+              key: options.key,
+              value,
+              headers: this.buildHeaders(
+                correlationId,
+                options.headers?.['event-id'] ?? uuidv4(),
+                options.headers,
+              ),
+            },
+          ],
+          acks: -1,
+          timeout: 30000,
+        });
+      });
+      this.logger.info(
+        `[KAFKA-PRODUCER] Encoded message produced to ${topic}`,
+        {
+          correlationId,
+          topic,
+          key: options.key,
+        },
+      );
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Failed to produce message to ${topic}`, {
+        correlationId,
+        error: err.stack || err.message,
+      });
+      throw new KafkaProducerException(
+        `Failed to produce message to ${topic}: ${err.message}`,
+      );
+    }
+  }
+
+  async decode(value: Buffer): Promise<unknown> {
+    return (await this.schemaUtils.decode(value)) as unknown;
+  }
+
+  /**
+   * Consumes `topics`, and each retry tier of them with its own consumer
+   * group. A message whose handler fails with a retryable error moves to the
+   * next tier and is handled again once that tier's delay has passed; after
+   * the last tier, or on a non-retryable error, it goes to the DLQ.
+   */
   async consume(
     groupId: string,
     topics: string[],
-    onMessage: (message: unknown) => Promise<void>,
+    onMessage: (
+      message: unknown,
+      context: IConsumedMessageContext,
+    ) => Promise<void>,
+    hooks: IConsumerHooks = {},
   ): Promise<void> {
     const correlationId = uuidv4();
 
     try {
       await this.circuitBreaker.execute(async () => {
-        let consumer = this.consumers.get(groupId);
-        if (!consumer) {
-          consumer = this.kafka.consumer({
-            groupId,
-            maxWaitTimeInMs: CONFIG.KAFKA.DEFAULT_MAX_WAIT_TIME,
-            maxBytes: CONFIG.KAFKA.DEFAULT_MAX_BYTES,
-            retry: {
-              initialRetryTime:
-                this.configService.get('kafka.retry.initialRetryTime') ||
-                CONFIG.KAFKA.DEFAULT_INITIAL_RETRY_TIME,
-              retries:
-                this.configService.get('kafka.retry.retries') ||
-                CONFIG.KAFKA.DEFAULT_RETRIES,
-              maxRetryTime:
-                this.configService.get('kafka.retry.maxRetryTime') ||
-                CONFIG.KAFKA.DEFAULT_MAX_RETRY_TIME,
+        const consumer = await this.getConsumer(groupId, hooks);
+        await consumer.subscribe({ topics, fromBeginning: false });
+        await consumer.run({
+          eachMessage: ({ topic, partition, message }) =>
+            this.handleMessage(groupId, topic, partition, message, onMessage),
+        });
+        this.subscriptions.set(
+          groupId,
+          new Map(topics.map((topic) => [topic, topic])),
+        );
+
+        for (let tier = 1; tier <= this.retryDelays.length; tier++) {
+          const retryGroupId = `${groupId}${RETRY_SUFFIX}.${tier}`;
+          const retryConsumer = await this.getConsumer(retryGroupId);
+          // From the beginning so retries sent before the group existed are kept
+          await retryConsumer.subscribe({
+            topics: topics.map((topic) => getRetryTopic(topic, tier)),
+            fromBeginning: true,
+          });
+          await retryConsumer.run({
+            eachMessage: async (payload) => {
+              await this.waitUntilDue(payload.message, () =>
+                payload.heartbeat(),
+              );
+              await this.handleMessage(
+                retryGroupId,
+                payload.topic,
+                payload.partition,
+                payload.message,
+                onMessage,
+                tier + 1,
+              );
             },
           });
-
-          await consumer.connect();
-          this.consumers.set(groupId, consumer);
+          this.subscriptions.set(
+            retryGroupId,
+            new Map(topics.map((topic) => [getRetryTopic(topic, tier), topic])),
+          );
         }
+      });
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Failed to start consumer for group ${groupId}`, {
+        error: err.stack,
+        correlationId,
+        topics,
+      });
+      throw new KafkaConsumerException(
+        `Failed to start consumer for group ${groupId}`,
+        {
+          error: err.stack || err.message,
+        },
+      );
+    }
+  }
 
-        await consumer.subscribe({ topics, fromBeginning: false });
+  /**
+   * Holds back messages of `topics`, and of their retry tiers, from the
+   * handlers `consume` registered until they are resumed. Messages being
+   * handled are finished.
+   */
+  pause(topics: string[]): void {
+    for (const [consumer, paused] of this.getSubscribed(topics)) {
+      consumer.pause(paused.map((topic) => ({ topic })));
+    }
+    this.logger.info('Paused consuming topics', { topics });
+  }
 
-        await consumer.run({
-          eachMessage: async ({ topic, partition, message }) => {
-            const messageCorrelationId =
-              message.headers?.['correlation-id']?.toString() || uuidv4();
+  resume(topics: string[]): void {
+    for (const [consumer, paused] of this.getSubscribed(topics)) {
+      consumer.resume(paused.map((topic) => ({ topic })));
+    }
+    this.logger.info('Resumed consuming topics', { topics });
+  }
 
-            try {
-              if (!message.value) {
-                throw new Error('Message value is null or undefined');
-              }
+  private getSubscribed(topics: string[]): Array<[Consumer, string[]]> {
+    const subscribed: Array<[Consumer, string[]]> = [];
+    for (const [groupId, subscription] of this.subscriptions) {
+      const consumer = this.consumers.get(groupId);
+      const matched = Array.from(subscription)
+        .filter(([, source]) => topics.includes(source))
+        .map(([topic]) => topic);
+      if (consumer && matched.length) {
+        subscribed.push([consumer, matched]);
+      }
+    }
+    return subscribed;
+  }
+
+  private async getConsumer(
+    groupId: string,
+    hooks: IConsumerHooks = {},
+  ): Promise<Consumer> {
+    let consumer = this.consumers.get(groupId);
+    if (!consumer) {
+      consumer = this.kafka.consumer({
+        groupId,
+        partitionAssigners: [coPartitionedAssigner(this.replicaId)],
+        maxWaitTimeInMs: CONFIG.KAFKA.DEFAULT_MAX_WAIT_TIME,
+        maxBytes: CONFIG.KAFKA.DEFAULT_MAX_BYTES,
+        retry: {
+          initialRetryTime:
+            this.configService.get('kafka.retry.initialRetryTime') ||
+            CONFIG.KAFKA.DEFAULT_INITIAL_RETRY_TIME,
+          retries:
+            this.configService.get('kafka.retry.retries') ||
+            CONFIG.KAFKA.DEFAULT_RETRIES,
+          maxRetryTime:
+            this.configService.get('kafka.retry.maxRetryTime') ||
+            CONFIG.KAFKA.DEFAULT_MAX_RETRY_TIME,
+        },
+      });
+
+      this.registerConsumerHooks(groupId, consumer, hooks);
+      await consumer.connect();
+      this.consumers.set(groupId, consumer);
+    }
+    return consumer;
+  }
+
+  /**
+   * Decodes and handles one message; `attempt` counts this handling. Messages
+   * from a retry tier are reported to the handler as read from their
+   * original topic, partition and offset.
+   */
+  private async handleMessage(
+    groupId: string,
+    topic: string,
+    partition: number,
+    message: KafkaJsMessage,
+    onMessage: (
+      message: unknown,
+      context: IConsumedMessageContext,
+    ) => Promise<void>,
+    attempt = 1,
+  ): Promise<void> {
+    const messageCorrelationId =
+      message.headers?.['correlation-id']?.toString() || uuidv4();
+    const headers: Record<string, string> = Object.fromEntries(
+      Object.entries(message.headers ?? {})
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, value!.toString()]),
+    );
+    const retried = attempt > 1 && headers[RETRY_HEADERS.TOPIC] !== undefined;
+    const context: IConsumedMessageContext = {
+      topic: retried ? headers[RETRY_HEADERS.TOPIC] : topic,
+      partition: retried ? Number(headers[RETRY_HEADERS.PARTITION]) : partition,
+      offset: retried ? headers[RETRY_HEADERS.OFFSET] : message.offset,
+      key: message.key?.toString(),
+      headers,
+    };
+
+    try {
+      if (!message.value) {
+        throw new Error('Message value is null or undefined');
+      }
+
+      const decodedMessage = (await this.schemaUtils.decode(
+        message.value,
+      )) as Record<string, unknown>;
 
-              const decodedMessage = (await this.schemaUtils.decode(
-                message.value,
-              )) as Record<string, unknown>;
+      if (!decodedMessage) {
+        throw new Error('Decoded message is null or undefined');
+      }
+
+      this.logger.info(
+        `[KAFKA-CONSUMER] Starting to process message from ${topic}`,
+        {
+          correlationId: messageCorrelationId,
+          topic,
+          partition,
+          attempt,
+          timestamp: this.clock.toISOString(),
+        },
+      );
+
+      await runWithCorrelationId(messageCorrelationId, () =>
+        onMessage(decodedMessage, context),
+      );
 
-              if (!decodedMessage) {
-                throw new Error('Decoded message is null or undefined');
+      this.logger.info(
+        `[KAFKA-CONSUMER] Completed processing message from ${topic}`,
+        {
+          correlationId: messageCorrelationId,
+          topic,
+          partition,
+          timestamp: this.clock.toISOString(),
+        },
+      );
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Error processing message from topic ${topic}`, {
+        error: err.stack,
+        correlationId: messageCorrelationId,
+        topic,
+        partition,
+        attempt,
+      });
+      if (message.value) {
+        const value = message.value;
+        await runWithCorrelationId(messageCorrelationId, () =>
+          this.handleFailure(groupId, context, value, err, attempt),
+        );
+      }
+    }
+  }
+
+  /** Holds a retried message back until its tier's delay has passed. */
+  private async waitUntilDue(
+    message: KafkaJsMessage,
+    heartbeat: () => Promise<void>,
+  ): Promise<void> {
+    const dueAt = Number(message.headers?.[RETRY_HEADERS.DUE_AT]?.toString());
+    while (Number.isFinite(dueAt) && this.clock.now() < dueAt) {
+      // Left uncommitted, so it is retried after the restart
+      if (this.stopping) {
+        throw new Error('Shutting down before the retry was due');
+      }
+      await new Promise<void>((resolve) =>
+        this.clock.setTimeout(
+          resolve,
+          Math.min(
+            dueAt - this.clock.now(),
+            CONFIG.KAFKA.RETRY_HEARTBEAT_INTERVAL,
+          ),
+        ),
+      );
+      await heartbeat();
+    }
+  }
+
+  private async handleFailure(
+    groupId: string,
+    context: IConsumedMessageContext,
+    value: Buffer,
+    error: Error,
+    attempt: number,
+  ): Promise<void> {
+    const delay = this.retryDelays[attempt - 1];
+    if (delay !== undefined && isRetryable(error)) {
+      const retryTopic = getRetryTopic(context.topic, attempt);
+      try {
+        await this.produceEncoded(retryTopic, value, {
+          key: context.key,
+          headers: {
+            ...context.headers,
+            [RETRY_HEADERS.TOPIC]: context.topic,
+            [RETRY_HEADERS.PARTITION]: String(context.partition),
+            [RETRY_HEADERS.OFFSET]: context.offset,
+            [RETRY_HEADERS.ATTEMPT]: String(attempt),
+            [RETRY_HEADERS.DUE_AT]: String(this.clock.now() + delay),
+            [RETRY_HEADERS.ERROR]: `${error.name}: ${error.message}`,
+          },
+        });
+        this.logger.warn(`Retrying message from ${context.topic}`, {
+          topic: retryTopic,
+          attempt,
+          delay,
+          error: error.message,
+        });
+        return;
+      } catch (retryError) {
+        this.logger.error('Failed to send message to retry topic', {
+          error: (retryError as Error).message,
+          topic: retryTopic,
+        });
+      }
+    }
+    await this.sendToDLQ(groupId, context, value, error, attempt);
+  }
+
+  /**
+   * Reads `topics` again with a temporary consumer group, from the earliest
+   * retained offset up to the end each partition had when the replay began,
+   * then deletes the group. Failed messages are counted and skipped rather
+   * than sent to the DLQ, since they were already handled once.
+   */
+  async replay(
+    groupId: string,
+    topics: string[],
+    onMessage: (
+      message: unknown,
+      context: IConsumedMessageContext,
+    ) => Promise<void>,
+    onProgress?: (partitions: IReplayPartitionProgress[]) => void,
+  ): Promise<IReplayPartitionProgress[]> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    const consumer = this.kafka.consumer({
+      groupId,
+      maxWaitTimeInMs: CONFIG.KAFKA.DEFAULT_MAX_WAIT_TIME,
+      maxBytes: CONFIG.KAFKA.DEFAULT_MAX_BYTES,
+    });
+
+    try {
+      const partitions = await this.getReplayRange(admin, topics);
+      const remaining = new Map(
+        partitions
+          .filter(({ offset, endOffset }) => Number(offset) < Number(endOffset))
+          .map((progress) => [
+            `${progress.topic}:${progress.partition}`,
+            progress,
+          ]),
+      );
+      this.logger.info(`Replaying ${topics.join(', ')}`, {
+        groupId,
+        partitions: partitions.length,
+        pending: remaining.size,
+      });
+      if (remaining.size === 0) {
+        return partitions;
+      }
+
+      await consumer.connect();
+      await consumer.subscribe({ topics, fromBeginning: true });
+      await new Promise<void>((resolve, reject) => {
+        const finish = (topic: string, partition: number) => {
+          consumer.pause([{ topic, partitions: [partition] }]);
+          if (remaining.delete(`${topic}:${partition}`) && !remaining.size) {
+            resolve();
+          }
+        };
+        consumer.on(consumer.events.CRASH, ({ payload }) => {
+          if (!payload.restart) {
+            reject(payload.error);
+          }
+        });
+
+        consumer
+          .run({
+            eachMessage: async ({ topic, partition, message }) => {
+              const progress = remaining.get(`${topic}:${partition}`);
+              if (!progress) {
+                finish(topic, partition);
+                return;
+              }
+              if (Number(message.offset) >= Number(progress.endOffset)) {
+                finish(topic, partition);
+                return;
               }
 
-              this.logger.info(
-                `[KAFKA-CONSUMER] Starting to process message from ${topic}`,
-                {
-                  correlationId: messageCorrelationId,
-                  topic,
+              const correlationId =
+                message.headers?.['correlation-id']?.toString() || uuidv4();
+              try {
+                if (!message.value) {
+                  throw new Error('Message value is null or undefined');
+                }
+                const decodedMessage = (await this.schemaUtils.decode(
+                  message.value,
+                )) as Record<string, unknown>;
+                await runWithCorrelationId(correlationId, () =>
+                  onMessage(decodedMessage, {
+                    topic,
+                    partition,
+                    offset: message.offset,
+                    key: message.key?.toString(),
+                    headers: Object.fromEntries(
+                      Object.entries(message.headers ?? {})
+                        .filter(([, value]) => value !== undefined)
+                        .map(([key, value]) => [key, value!.toString()]),
+                    ),
+                  }),
+                );
+              } catch (error) {
+                const err = error as Error;
+                progress.failed++;
+                this.logger.warn(`Skipped replayed message from ${topic}`, {
+                  error: err.message,
+                  correlationId,
+                  groupId,
                   partition,
-                  timestamp: new Date().toISOString(),
-                },
-              );
+                  offset: message.offset,
+                });
+              }
+
+              progress.consumed++;
+              progress.offset = String(Number(message.offset) + 1);
+              onProgress?.(partitions);
+              if (Number(progress.offset) >= Number(progress.endOffset)) {
+                finish(topic, partition);
+              }
+            },
+          })
+          .then(() => {
+            // Seeking is only possible once the consumer runs
+            for (const {
+              topic,
+              partition,
+              startOffset,
+            } of remaining.values()) {
+              consumer.seek({ topic, partition, offset: startOffset });
+            }
+          })
+          .catch(reject);
+      });
+      return partitions;
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`Replay failed for group ${groupId}`, {
+        error: err.stack || err.message,
+        topics,
+      });
+      throw new KafkaConsumerException(`Replay failed for group ${groupId}`, {
+        error: err.stack || err.message,
+      });
+    } finally {
+      await consumer.disconnect();
+      await admin.deleteGroups([groupId]).catch((error: Error) =>
+        this.logger.warn(`Failed to delete replay group ${groupId}`, {
+          error: error.message,
+        }),
+      );
+      await admin.disconnect();
+    }
+  }
+
+  /**
+   * Keeps reading `topics` with a consumer that never commits, so every start
+   * begins at the earliest offset, and resolves once the messages present
+   * when it started have been handled. Messages that cannot be decoded or
+   * handled are logged and skipped. Having no offsets, the group is removed
+   * by the broker once the consumer disconnects.
+   */
+  async follow(
+    groupId: string,
+    topics: string[],
+    onMessage: (
+      message: unknown,
+      context: IConsumedMessageContext,
+    ) => Promise<void>,
+  ): Promise<void> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    let remaining: Map<string, string>;
+    try {
+      remaining = new Map(
+        (await this.getReplayRange(admin, topics))
+          .filter(({ offset, endOffset }) => Number(offset) < Number(endOffset))
+          .map(({ topic, partition, endOffset }) => [
+            `${topic}:${partition}`,
+            endOffset,
+          ]),
+      );
+    } finally {
+      await admin.disconnect();
+    }
 
-              await onMessage(decodedMessage);
+    try {
+      const consumer = await this.getConsumer(groupId);
+      await consumer.subscribe({ topics, fromBeginning: true });
+      await new Promise<void>((resolve, reject) => {
+        const caughtUp = (topic: string, partition: number, offset: string) => {
+          const key = `${topic}:${partition}`;
+          const endOffset = remaining.get(key);
+          if (
+            endOffset !== undefined &&
+            Number(offset) + 1 >= Number(endOffset)
+          ) {
+            remaining.delete(key);
+          }
+          if (!remaining.size) {
+            resolve();
+          }
+        };
+        if (!remaining.size) {
+          resolve();
+        }
 
-              this.logger.info(
-                `[KAFKA-CONSUMER] Completed processing message from ${topic}`,
-                {
-                  correlationId: messageCorrelationId,
+        consumer
+          .run({
+            autoCommit: false,
+            eachMessage: async ({ topic, partition, message }) => {
+              try {
+                if (!message.value) {
+                  throw new Error('Message value is null or undefined');
+                }
+                const decodedMessage = (await this.schemaUtils.decode(
+                  message.value,
+                )) as unknown;
+                await onMessage(decodedMessage, {
                   topic,
                   partition,
-                  timestamp: new Date().toISOString(),
-                },
-              );
-            } catch (error) {
-              const err = error as Error;
-              this.logger.error(
-                `Error processing message from topic ${topic}`,
-                {
-                  error: err.stack,
-                  correlationId: messageCorrelationId,
-                  topic,
+                  offset: message.offset,
+                  key: message.key?.toString(),
+                  headers: Object.fromEntries(
+                    Object.entries(message.headers ?? {})
+                      .filter(([, value]) => value !== undefined)
+                      .map(([key, value]) => [key, value!.toString()]),
+                  ),
+                });
+              } catch (error) {
+                this.logger.warn(`Skipped followed message from ${topic}`, {
+                  error: (error as Error).message,
+                  groupId,
                   partition,
-                },
-              );
-              if (message.value) {
-                await this.sendToDLQ(topic, message.value);
+                  offset: message.offset,
+                });
               }
-            }
-          },
-        });
+              caughtUp(topic, partition, message.offset);
+            },
+          })
+          .catch(reject);
       });
     } catch (error) {
       const err = error as Error;
-      this.logger.error(`Failed to start consumer for group ${groupId}`, {
-        error: err.stack,
-        correlationId,
-        topics,
+      this.logger.error(`Failed to follow ${topics.join(', ')}`, {
+        error: err.stack || err.message,
+        groupId,
       });
-      throw new KafkaConsumerException(
-        `Failed to start consumer for group ${groupId}`,
-        {
-          error: err.stack || err.message,
-        },
-      );
+      await this.consumers
+        .get(groupId)
+        ?.disconnect()
+        .catch(() => undefined);
+      this.consumers.delete(groupId);
+      throw new KafkaConsumerException(groupId, {
+        error: err.stack || err.message,
+      });
+    }
+  }
+
+  private async getReplayRange(
+    admin: Admin,
+    topics: string[],
+  ): Promise<IReplayPartitionProgress[]> {
+    const partitions: IReplayPartitionProgress[] = [];
+    for (const topic of topics) {
+      const watermarks = await admin.fetchTopicOffsets(topic);
+      for (const { partition, low, high } of watermarks) {
+        partitions.push({
+          topic,
+          partition,
+          startOffset: low,
+          endOffset: high,
+          offset: low,
+          consumed: 0,
+          failed: 0,
+        });
+      }
+    }
+    return partitions;
+  }
+
+  /** Custom headers cannot override the ones the service relies on. */
+  private buildHeaders(
+    correlationId: string,
+    eventId: string,
+    headers: Record<string, string> = {},
+  ): Record<string, string> {
+    return {
+      ...headers,
+      'correlation-id': correlationId,
+      'event-id': eventId,
+      timestamp: this.clock.now().toString(),
+    };
+  }
+
+  async getPartitionCount(topic: string): Promise<number> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    try {
+      const { topics } = await admin.fetchTopicMetadata({ topics: [topic] });
+      return topics[0]?.partitions.length ?? 0;
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
+  private registerConsumerHooks(
+    groupId: string,
+    consumer: Consumer,
+    hooks: IConsumerHooks,
+  ): void {
+    const run = (hook: string, callback: () => Promise<void> | void) => {
+      Promise.resolve()
+        .then(callback)
+        .catch((error: Error) => {
+          this.logger.error(`Consumer ${hook} hook failed for ${groupId}`, {
+            error: error.stack || error.message,
+          });
+        });
+    };
+
+    const { onAssign, onRevoke } = hooks;
+    if (onAssign) {
+      consumer.on(consumer.events.GROUP_JOIN, ({ payload }) => {
+        this.logger.info(`Consumer joined group ${groupId}`, {
+          assignment: payload.memberAssignment,
+        });
+        run('assign', () => onAssign(payload.memberAssignment));
+      });
+    }
+    if (onRevoke) {
+      for (const event of [
+        consumer.events.REBALANCING,
+        consumer.events.STOP,
+        consumer.events.CRASH,
+      ]) {
+        consumer.on(event, () => run('revoke', onRevoke));
+      }
     }
   }
 
   private async sendToDLQ(
-    originalTopic: string,
-    message: Buffer,
+    groupId: string,
+    context: IConsumedMessageContext,
+    value: Buffer,
+    reason: Error,
+    attempts: number,
   ): Promise<void> {
-    const dlqTopic = `${originalTopic}.dlq`;
+    const dlqTopic = getDeadLetterTopic(context.topic);
+    const deadLetter: DeadLetterMessage = {
+      originalTopic: context.topic,
+      originalPartition: context.partition,
+      originalOffset: context.offset,
+      originalKey: context.key,
+      originalHeaders: context.headers,
+      originalMessage: value,
+      consumerGroup: groupId,
+      correlationId: getCorrelationId(),
+      errorClass: reason.name || reason.constructor.name,
+      errorMessage: reason.message,
+      errorStack: reason.stack,
+      attempts,
+      failedAt: this.clock.toISOString(),
+    };
     try {
-      await this.produce(dlqTopic, {
-        originalTopic,
-        originalMessage: message.toString('base64'),
-        error: 'Failed to process message',
-        timestamp: new Date().toISOString(),
-      });
+      await this.produce(dlqTopic, deadLetter, { key: context.key });
     } catch (error) {
       const err = error as Error;
       this.logger.error('Failed to send message to DLQ', {
         error: err.stack,
         topic: dlqTopic,
+        partition: context.partition,
+        offset: context.offset,
       });
     }
   }
 
   async onApplicationShutdown(signal?: string): Promise<void> {
     this.logger.info('Starting Kafka graceful shutdown', { signal });
+    this.stopping = true;
     const shutdownTimeout = 30000; // 30 seconds timeout
-    const startTime = Date.now();
+    const startTime = this.clock.now();
 
     try {
       // Stop accepting new messages
@@ -528,14 +1173,14 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
 
       await Promise.all(consumerDisconnectPromises);
 
-      const shutdownDuration = Date.now() - startTime;
+      const shutdownDuration = this.clock.now() - startTime;
       this.logger.info('Kafka connections closed successfully', {
         duration: shutdownDuration,
         consumersClosed: this.consumers.size,
       });
     } catch (error) {
       const err = error as Error;
-      const shutdownDuration = Date.now() - startTime;
+      const shutdownDuration = this.clock.now() - startTime;
       this.logger.error('Error during Kafka shutdown', {
         error: err.stack,
         duration: shutdownDuration,
@@ -545,6 +1190,7 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
     } finally {
       // Clear all consumers from the map
       this.consumers.clear();
+      this.subscriptions.clear();
     }
   }
 
@@ -570,7 +1216,7 @@ export class KafkaService implements OnApplicationShutdown, OnModuleInit {
       const err = error as Error;
       this.logger.error('Failed to check Kafka connection status', {
         error: err.stack,
-        timestamp: new Date().toISOString(),
+        timestamp: this.clock.toISOString(),
       });
       return false;
     }
@@ -1,5 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { KafkaService } from '../kafka.service';
+import { Clock } from '../../common/services/clock.service';
+import { LoggerService } from '../../common/services/logger.service';
+import { isReplaying } from '../../common/utils/replay-context';
+import { AuditService } from '../../audit/services/audit.service';
+import { WebhookDeliveryService } from '../../webhooks/services/webhook-delivery.service';
+import { KafkaMessageTemplate } from '../templates/kafka.template';
+import { IProduceOptions } from '../../common/types/kafka.types';
 import {
   PhaseTransitionPayload,
   PhaseTransitionMessage,
@@ -7,33 +14,143 @@ import {
   ChallengeUpdateMessage,
   CommandPayload,
   CommandMessage,
+  CommandResultPayload,
+  CommandResultMessage,
+  NotificationPayload,
+  NotificationMessage,
+  SlaAlertPayload,
+  SlaAlertMessage,
 } from '../templates/autopilot.template';
 
 @Injectable()
 export class AutopilotProducer {
-  constructor(private readonly kafkaService: KafkaService) {}
+  private readonly logger = new LoggerService(AutopilotProducer.name);
 
-  async sendPhaseTransition(payload: PhaseTransitionPayload): Promise<void> {
-    const message = new PhaseTransitionMessage({
-      ...payload,
-      date: payload.date || new Date().toISOString(),
-    });
-    await this.kafkaService.produce(message.topic, message);
+  constructor(
+    private readonly kafkaService: KafkaService,
+    private readonly clock: Clock,
+    private readonly auditService: AuditService,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+  ) {}
+
+  async sendPhaseTransition(
+    payload: PhaseTransitionPayload,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const message = new PhaseTransitionMessage(
+      {
+        ...payload,
+        date: payload.date || this.clock.toISOString(),
+      },
+      this.clock,
+    );
+    await this.publish(message, options);
   }
 
-  async sendChallengeUpdate(payload: ChallengeUpdatePayload): Promise<void> {
-    const message = new ChallengeUpdateMessage({
-      ...payload,
-      date: payload.date || new Date().toISOString(),
-    });
-    await this.kafkaService.produce(message.topic, message);
+  async sendChallengeUpdate(
+    payload: ChallengeUpdatePayload,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const message = new ChallengeUpdateMessage(
+      {
+        ...payload,
+        date: payload.date || this.clock.toISOString(),
+      },
+      this.clock,
+    );
+    await this.publish(message, options);
+  }
+
+  async sendCommand(
+    payload: CommandPayload,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const message = new CommandMessage(
+      {
+        ...payload,
+        date: payload.date || this.clock.toISOString(),
+      },
+      this.clock,
+    );
+    await this.publish(message, options);
+  }
+
+  async sendCommandResult(
+    payload: CommandResultPayload,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const message = new CommandResultMessage(
+      {
+        ...payload,
+        date: payload.date || this.clock.toISOString(),
+      },
+      this.clock,
+    );
+    await this.publish(message, options);
+  }
+
+  async sendNotification(
+    payload: NotificationPayload,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const message = new NotificationMessage(
+      {
+        ...payload,
+        date: payload.date || this.clock.toISOString(),
+      },
+      this.clock,
+    );
+    await this.publish(message, options);
   }
 
-  async sendCommand(payload: CommandPayload): Promise<void> {
-    const message = new CommandMessage({
-      ...payload,
-      date: payload.date || new Date().toISOString(),
+  async sendSlaAlert(
+    payload: SlaAlertPayload,
+    options: IProduceOptions = {},
+  ): Promise<void> {
+    const message = new SlaAlertMessage(
+      {
+        ...payload,
+        date: payload.date || this.clock.toISOString(),
+      },
+      this.clock,
+    );
+    await this.publish(message, options);
+  }
+
+  /**
+   * Keys by project (or challenge) unless the caller sets a key, so each
+   * project's events stay on one partition and in order. Nothing is
+   * published while replaying.
+   */
+  private async publish(
+    message: KafkaMessageTemplate<{
+      projectId?: number;
+      challengeId?: number;
+      phaseId?: number;
+      operator: string;
+    }>,
+    options: IProduceOptions,
+  ): Promise<void> {
+    if (isReplaying()) {
+      this.logger.debug(`Replay mode, not publishing to ${message.topic}`, {
+        projectId: message.payload.projectId,
+      });
+      return;
+    }
+    const entityId = message.payload.projectId ?? message.payload.challengeId;
+    await this.kafkaService.produce(message.topic, message, {
+      key: entityId === undefined ? undefined : String(entityId),
+      ...options,
+    });
+    await this.auditService.record({
+      type: 'MESSAGE_PRODUCED',
+      topic: message.topic,
+      projectId: message.payload.projectId,
+      phaseId: message.payload.phaseId,
+      operator: message.payload.operator,
+      reason: `Published to ${message.topic}`,
+      details: { payload: message.payload },
     });
-    await this.kafkaService.produce(message.topic, message);
+    await this.webhookDeliveryService.dispatch(message.topic, message.payload);
   }
 }
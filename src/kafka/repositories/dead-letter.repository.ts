@@ -0,0 +1,8 @@
+import { DeadLetterDisposition } from '../interfaces/dead-letter.interface';
+
+export const DEAD_LETTER_REPOSITORY = 'DEAD_LETTER_REPOSITORY';
+
+export interface DeadLetterRepository {
+  save(disposition: DeadLetterDisposition): Promise<void>;
+  findAll(topic: string): Promise<DeadLetterDisposition[]>;
+}
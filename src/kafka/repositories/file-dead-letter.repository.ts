@@ -0,0 +1,40 @@
+import { JsonFile } from '../../common/utils/json-file';
+import { DeadLetterDisposition } from '../interfaces/dead-letter.interface';
+import { InMemoryDeadLetterRepository } from './in-memory-dead-letter.repository';
+
+type DeadLetterFileContents = DeadLetterDisposition[];
+
+/** Keeps dispositions in memory and rewrites the whole file on each change. */
+export class FileDeadLetterRepository extends InMemoryDeadLetterRepository {
+  private readonly file: JsonFile<DeadLetterFileContents>;
+  private loaded?: Promise<void>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile(filePath);
+  }
+
+  async save(disposition: DeadLetterDisposition): Promise<void> {
+    await this.load();
+    await super.save(disposition);
+    await this.file.write(
+      Array.from(this.dispositions.values()).flatMap((byId) =>
+        Array.from(byId.values()),
+      ),
+    );
+  }
+
+  async findAll(topic: string): Promise<DeadLetterDisposition[]> {
+    await this.load();
+    return super.findAll(topic);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.file.read().then(async (contents) => {
+      for (const disposition of contents ?? []) {
+        await super.save(disposition);
+      }
+    });
+    return this.loaded;
+  }
+}
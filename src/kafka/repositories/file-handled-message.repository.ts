@@ -0,0 +1,40 @@
+import { JsonFile } from '../../common/utils/json-file';
+import { HandledMessageRepository } from './handled-message.repository';
+
+// Oldest first, so eviction starts at the front
+type HandledMessageFileContents = Record<string, number>;
+
+/** Uncached, with per-key writes, so replicas can share the file. */
+export class FileHandledMessageRepository implements HandledMessageRepository {
+  private readonly file: JsonFile<HandledMessageFileContents>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async find(key: string): Promise<number | undefined> {
+    return (await this.file.read())?.[key];
+  }
+
+  save(
+    key: string,
+    handledAt: number,
+    cutoff: number,
+    maxKeys: number,
+  ): Promise<void> {
+    return this.file.update((handled = {}) => {
+      delete handled[key];
+      const kept = Object.entries(handled).filter(([, at]) => at > cutoff);
+      return Object.fromEntries([
+        ...kept.slice(Math.max(kept.length + 1 - maxKeys, 0)),
+        [key, handledAt],
+      ]);
+    });
+  }
+
+  async count(cutoff: number): Promise<number> {
+    return Object.values((await this.file.read()) ?? {}).filter(
+      (at) => at > cutoff,
+    ).length;
+  }
+}
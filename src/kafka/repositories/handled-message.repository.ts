@@ -0,0 +1,21 @@
+export const HANDLED_MESSAGE_REPOSITORY = 'HANDLED_MESSAGE_REPOSITORY';
+
+/**
+ * Deduplication keys of handled messages with when they were handled, shared
+ * by the replicas of a group so a new owner skips what the last one handled.
+ */
+export interface HandledMessageRepository {
+  find(key: string): Promise<number | undefined>;
+  /**
+   * Records `key`, forgetting keys handled at or before `cutoff` and then the
+   * oldest beyond `maxKeys`.
+   */
+  save(
+    key: string,
+    handledAt: number,
+    cutoff: number,
+    maxKeys: number,
+  ): Promise<void>;
+  /** Keys handled after `cutoff`. */
+  count(cutoff: number): Promise<number>;
+}
@@ -0,0 +1,27 @@
+import { DeadLetterDisposition } from '../interfaces/dead-letter.interface';
+import { DeadLetterRepository } from './dead-letter.repository';
+
+export class InMemoryDeadLetterRepository implements DeadLetterRepository {
+  // Source topic, then DLQ position
+  protected readonly dispositions = new Map<
+    string,
+    Map<string, DeadLetterDisposition>
+  >();
+
+  save(disposition: DeadLetterDisposition): Promise<void> {
+    const byId =
+      this.dispositions.get(disposition.topic) ??
+      new Map<string, DeadLetterDisposition>();
+    byId.set(disposition.id, { ...disposition });
+    this.dispositions.set(disposition.topic, byId);
+    return Promise.resolve();
+  }
+
+  findAll(topic: string): Promise<DeadLetterDisposition[]> {
+    return Promise.resolve(
+      Array.from(this.dispositions.get(topic)?.values() ?? []).map(
+        (disposition) => ({ ...disposition }),
+      ),
+    );
+  }
+}
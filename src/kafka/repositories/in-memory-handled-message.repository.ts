@@ -0,0 +1,35 @@
+import { HandledMessageRepository } from './handled-message.repository';
+
+export class InMemoryHandledMessageRepository
+  implements HandledMessageRepository
+{
+  // Insertion order doubles as age order, so eviction starts at the front
+  private readonly handled = new Map<string, number>();
+
+  find(key: string): Promise<number | undefined> {
+    return Promise.resolve(this.handled.get(key));
+  }
+
+  save(
+    key: string,
+    handledAt: number,
+    cutoff: number,
+    maxKeys: number,
+  ): Promise<void> {
+    this.handled.delete(key);
+    this.handled.set(key, handledAt);
+    for (const [handledKey, at] of this.handled) {
+      if (at > cutoff && this.handled.size <= maxKeys) {
+        break;
+      }
+      this.handled.delete(handledKey);
+    }
+    return Promise.resolve();
+  }
+
+  count(cutoff: number): Promise<number> {
+    return Promise.resolve(
+      Array.from(this.handled.values()).filter((at) => at > cutoff).length,
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { DeadLetterService } from './dead-letter.service';
+import { KafkaService } from '../kafka.service';
+import { KAFKA_TOPICS } from '../constants/topics';
+import { RETRY_HEADERS } from '../constants/retry';
+import { DEAD_LETTER_REPOSITORY } from '../repositories/dead-letter.repository';
+import { InMemoryDeadLetterRepository } from '../repositories/in-memory-dead-letter.repository';
+import { DeadLetterMessage } from '../interfaces/dead-letter.interface';
+import { IConsumedMessageContext } from '../../common/types/kafka.types';
+import { createTestingModule, NOW } from '../../testing/fixtures';
+
+describe('DeadLetterService', () => {
+  const TOPIC = KAFKA_TOPICS.PHASE_TRANSITION;
+  const letter = (offset: number): DeadLetterMessage => ({
+    originalTopic: TOPIC,
+    originalPartition: 0,
+    originalOffset: String(offset),
+    originalKey: '1',
+    originalHeaders: {
+      'event-id': `event-${offset}`,
+      'correlation-id': `correlation-${offset}`,
+      [RETRY_HEADERS.TOPIC]: TOPIC,
+    },
+    originalMessage: Buffer.from(`message-${offset}`),
+    consumerGroup: 'autopilot',
+    correlationId: `correlation-${offset}`,
+    errorClass: 'IllegalTransitionException',
+    errorMessage: 'Phase is already open',
+    attempts: 1,
+    failedAt: new Date(Date.parse(NOW) + offset * 1000).toISOString(),
+  });
+  const selection = (...ids: string[]) => ({ ids, operator: 'ops' });
+
+  let kafka: jest.Mocked<
+    Pick<KafkaService, 'follow' | 'produceEncoded' | 'decode'>
+  >;
+  let service: DeadLetterService;
+
+  /** A service whose DLQ of TOPIC holds `letters`, at offsets 0 onwards. */
+  const setUp = async (
+    letters: DeadLetterMessage[],
+    config: Record<string, unknown> = {},
+  ) => {
+    kafka = {
+      follow: jest.fn(async (groupId, topics, onMessage) => {
+        for (const [offset, message] of letters.entries()) {
+          const context: IConsumedMessageContext = {
+            topic: topics[0],
+            partition: 0,
+            offset: String(offset),
+            headers: {},
+          };
+          await onMessage(message, context);
+        }
+      }),
+      produceEncoded: jest.fn().mockResolvedValue(undefined),
+      decode: jest.fn().mockResolvedValue({ payload: { projectId: 1 } }),
+    };
+    const module = await createTestingModule({
+      providers: [
+        DeadLetterService,
+        { provide: KafkaService, useValue: kafka },
+        {
+          provide: DEAD_LETTER_REPOSITORY,
+          useClass: InMemoryDeadLetterRepository,
+        },
+      ],
+      config,
+    });
+    service = module.get(DeadLetterService);
+  };
+
+  it('replays a letter as a new event and only once', async () => {
+    await setUp([letter(0)]);
+
+    await expect(service.replay(TOPIC, selection('0:0'))).resolves.toEqual({
+      processed: ['0:0'],
+      skipped: [],
+    });
+    await expect(service.replay(TOPIC, selection('0:0'))).resolves.toEqual({
+      processed: [],
+      skipped: [{ id: '0:0', reason: 'Already replayed' }],
+    });
+
+    expect(kafka.produceEncoded).toHaveBeenCalledTimes(1);
+    expect(kafka.produceEncoded).toHaveBeenCalledWith(
+      TOPIC,
+      Buffer.from('message-0'),
+      { key: '1', headers: { 'correlation-id': 'correlation-0' } },
+    );
+    await expect(service.get(TOPIC, '0:0')).resolves.toMatchObject({
+      status: 'REPLAYED',
+      disposition: { operator: 'ops' },
+    });
+  });
+
+  it('acts on a letter once when requests overlap', async () => {
+    await setUp([letter(0)]);
+    let produced!: () => void;
+    kafka.produceEncoded.mockReturnValueOnce(
+      new Promise<void>((resolve) => (produced = resolve)),
+    );
+
+    const replayed = service.replay(TOPIC, selection('0:0'));
+    await new Promise((resolve) => setImmediate(resolve));
+    const discarded = await service.discard(TOPIC, selection('0:0'));
+    produced();
+
+    expect(discarded).toEqual({
+      processed: [],
+      skipped: [{ id: '0:0', reason: 'Already in progress' }],
+    });
+    await expect(replayed).resolves.toMatchObject({ processed: ['0:0'] });
+    await expect(service.discard(TOPIC, { operator: 'ops' })).resolves.toEqual({
+      processed: [],
+      skipped: [],
+    });
+  });
+
+  it('keeps only the newest letters in its index', async () => {
+    await setUp([letter(0), letter(1), letter(2)], {
+      'kafka.deadLetters.maxIndexed': 2,
+    });
+
+    const page = await service.list(TOPIC, { page: 1, limit: 10 });
+
+    expect(page.total).toBe(2);
+    expect(page.items.map(({ id }) => id)).toEqual(['0:2', '0:1']);
+    await expect(service.get(TOPIC, '0:0')).resolves.toBeUndefined();
+  });
+});
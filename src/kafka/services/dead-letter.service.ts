@@ -0,0 +1,391 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { KafkaService } from '../kafka.service';
+import { getDeadLetterTopic } from '../constants/topics';
+import { RETRY_HEADERS } from '../constants/retry';
+import {
+  DeadLetterActionResult,
+  DeadLetterDisposition,
+  DeadLetterFilter,
+  DeadLetterMessage,
+  DeadLetterPage,
+  DeadLetterQuery,
+  DeadLetterSelection,
+  DeadLetterView,
+} from '../interfaces/dead-letter.interface';
+import {
+  DEAD_LETTER_REPOSITORY,
+  DeadLetterRepository,
+} from '../repositories/dead-letter.repository';
+import { AuditService } from '../../audit/services/audit.service';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { KAFKA_SCHEMAS } from '../../common/schemas/kafka.schemas';
+import { runWithCorrelationId } from '../../common/utils/correlation-context';
+
+type DeadLetterAction = DeadLetterDisposition['status'];
+
+/** A dead letter as read from its DLQ, before it is decoded for display. */
+interface IndexedDeadLetter {
+  id: string;
+  partition: number;
+  offset: string;
+  message: DeadLetterMessage;
+}
+
+interface DeadLetterEntry extends IndexedDeadLetter {
+  status: DeadLetterView['status'];
+  disposition?: DeadLetterDisposition;
+}
+
+const RETRY_HEADER_NAMES: string[] = Object.values(RETRY_HEADERS);
+
+/**
+ * Reads `<topic>.dlq` topics and lets operators replay dead letters to the
+ * topic they came from or discard them. Kafka cannot remove single messages,
+ * so what was done with each one is kept in the dead-letter repository and
+ * the audit log.
+ *
+ * Each DLQ is read once, on first use, by a consumer that keeps following it
+ * and indexes its newest `maxIndexed` letters by position; requests are
+ * answered from the index.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new LoggerService(DeadLetterService.name);
+  // Letters of each source topic's DLQ by id, once read up to its end
+  private readonly indexes = new Map<
+    string,
+    Promise<Map<string, IndexedDeadLetter>>
+  >();
+  // `<topic>/<id>` of letters a request is replaying or discarding
+  private readonly inFlight = new Set<string>();
+  private readonly maxIndexed: number;
+
+  constructor(
+    private readonly kafkaService: KafkaService,
+    @Inject(DEAD_LETTER_REPOSITORY)
+    private readonly deadLetterRepository: DeadLetterRepository,
+    private readonly auditService: AuditService,
+    private readonly clock: Clock,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxIndexed = this.configService.get<number>(
+      'kafka.deadLetters.maxIndexed',
+      CONFIG.KAFKA.DEFAULT_DLQ_MAX_INDEXED,
+    );
+  }
+
+  /** Whether failures on `topic` are dead-lettered at all. */
+  hasDeadLetterTopic(topic: string): boolean {
+    return getDeadLetterTopic(topic) in KAFKA_SCHEMAS;
+  }
+
+  /** Most recent failures first; only the returned page is decoded. */
+  async list(topic: string, query: DeadLetterQuery): Promise<DeadLetterPage> {
+    const matches = (await this.read(topic))
+      .filter((entry) => this.matches(entry, query))
+      .reverse();
+
+    const start = (query.page - 1) * query.limit;
+    return {
+      items: await Promise.all(
+        matches
+          .slice(start, start + query.limit)
+          .map((entry) => this.toView(entry)),
+      ),
+      total: matches.length,
+      page: query.page,
+      limit: query.limit,
+    };
+  }
+
+  async get(topic: string, id: string): Promise<DeadLetterView | undefined> {
+    const entry = (await this.read(topic)).find((letter) => letter.id === id);
+    return entry && this.toView(entry);
+  }
+
+  /**
+   * Sends the original messages back to `topic` as new events: same key,
+   * value and headers, but without the retry headers and with a fresh
+   * `event-id`, so the retry tiers and deduplication treat them afresh.
+   */
+  replay(
+    topic: string,
+    selection: DeadLetterSelection,
+  ): Promise<DeadLetterActionResult> {
+    return this.apply(topic, selection, 'REPLAYED', (letter) =>
+      this.kafkaService.produceEncoded(
+        letter.originalTopic,
+        Buffer.from(letter.originalMessage, 'base64'),
+        {
+          key: letter.originalKey ?? undefined,
+          headers: Object.fromEntries(
+            Object.entries(letter.originalHeaders).filter(
+              ([name]) =>
+                name !== 'event-id' && !RETRY_HEADER_NAMES.includes(name),
+            ),
+          ),
+        },
+      ),
+    );
+  }
+
+  discard(
+    topic: string,
+    selection: DeadLetterSelection,
+  ): Promise<DeadLetterActionResult> {
+    return this.apply(topic, selection, 'DISCARDED', () => Promise.resolve());
+  }
+
+  private async apply(
+    topic: string,
+    selection: DeadLetterSelection,
+    action: DeadLetterAction,
+    perform: (letter: DeadLetterView) => Promise<void>,
+  ): Promise<DeadLetterActionResult> {
+    const letters = await this.read(topic);
+    const result: DeadLetterActionResult = { processed: [], skipped: [] };
+    const byId = new Map(letters.map((letter) => [letter.id, letter]));
+    const selected: DeadLetterEntry[] = [];
+
+    if (selection.ids?.length) {
+      for (const id of selection.ids) {
+        const letter = byId.get(id);
+        if (!letter) {
+          result.skipped.push({ id, reason: 'Not found' });
+        } else if (letter.status !== 'PENDING') {
+          result.skipped.push({
+            id,
+            reason: `Already ${letter.status.toLowerCase()}`,
+          });
+        } else {
+          selected.push(letter);
+        }
+      }
+    } else {
+      selected.push(
+        ...letters.filter((letter) =>
+          this.matches(letter, { ...selection, status: 'PENDING' }),
+        ),
+      );
+    }
+
+    const claimed = this.claim(topic, selected, result);
+    try {
+      // A request that released its letters since they were read has
+      // recorded what it did with them by now
+      const disposed = new Set(
+        (await this.deadLetterRepository.findAll(topic)).map(({ id }) => id),
+      );
+      for (const entry of claimed) {
+        if (disposed.has(entry.id)) {
+          result.skipped.push({ id: entry.id, reason: 'Already handled' });
+          continue;
+        }
+        const letter = await this.toView(entry);
+        // Carried on so the replayed message continues the failed flow
+        await runWithCorrelationId(letter.correlationId ?? uuidv4(), () =>
+          this.process(topic, letter, action, selection, perform, result),
+        );
+      }
+    } finally {
+      for (const entry of claimed) {
+        this.inFlight.delete(`${topic}/${entry.id}`);
+      }
+    }
+
+    this.logger.info(`Dead letters ${action.toLowerCase()}`, {
+      topic,
+      operator: selection.operator,
+      processed: result.processed.length,
+      skipped: result.skipped.length,
+    });
+    return result;
+  }
+
+  /**
+   * Marks the letters in flight, skipping those another request holds, so
+   * concurrent requests never act on the same letter twice.
+   */
+  private claim(
+    topic: string,
+    selected: DeadLetterEntry[],
+    result: DeadLetterActionResult,
+  ): DeadLetterEntry[] {
+    return selected.filter((entry) => {
+      const key = `${topic}/${entry.id}`;
+      if (this.inFlight.has(key)) {
+        result.skipped.push({ id: entry.id, reason: 'Already in progress' });
+        return false;
+      }
+      this.inFlight.add(key);
+      return true;
+    });
+  }
+
+  private async process(
+    topic: string,
+    letter: DeadLetterView,
+    action: DeadLetterAction,
+    selection: DeadLetterSelection,
+    perform: (letter: DeadLetterView) => Promise<void>,
+    result: DeadLetterActionResult,
+  ): Promise<void> {
+    try {
+      await perform(letter);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `Dead letter ${letter.id} could not be ${action.toLowerCase()}`,
+        { error: err.message, topic },
+      );
+      result.skipped.push({ id: letter.id, reason: err.message });
+      return;
+    }
+    await this.record(topic, letter, action, selection);
+    result.processed.push(letter.id);
+  }
+
+  private async record(
+    topic: string,
+    letter: DeadLetterView,
+    action: DeadLetterAction,
+    selection: DeadLetterSelection,
+  ): Promise<void> {
+    const disposition: DeadLetterDisposition = {
+      id: letter.id,
+      topic,
+      status: action,
+      operator: selection.operator,
+      reason: selection.reason,
+      at: this.clock.toISOString(),
+    };
+    await this.deadLetterRepository.save(disposition);
+
+    const payload = (letter.decoded as { payload?: Record<string, unknown> })
+      ?.payload;
+    await this.auditService.record({
+      type:
+        action === 'REPLAYED'
+          ? 'DEAD_LETTER_REPLAYED'
+          : 'DEAD_LETTER_DISCARDED',
+      topic,
+      projectId:
+        typeof payload?.projectId === 'number' ? payload.projectId : undefined,
+      phaseId:
+        typeof payload?.phaseId === 'number' ? payload.phaseId : undefined,
+      operator: selection.operator,
+      reason:
+        selection.reason ??
+        (action === 'REPLAYED'
+          ? `Replayed from ${getDeadLetterTopic(topic)}`
+          : `Discarded from ${getDeadLetterTopic(topic)}`),
+      details: {
+        id: letter.id,
+        originalPartition: letter.originalPartition,
+        originalOffset: letter.originalOffset,
+        errorClass: letter.errorClass,
+        errorMessage: letter.errorMessage,
+      },
+    });
+  }
+
+  /** Every dead letter of `topic`, oldest first, with its status. */
+  private async read(topic: string): Promise<DeadLetterEntry[]> {
+    const letters = await this.getIndex(topic);
+    const dispositions = new Map(
+      (await this.deadLetterRepository.findAll(topic)).map((disposition) => [
+        disposition.id,
+        disposition,
+      ]),
+    );
+    return Array.from(letters.values())
+      .map((letter): DeadLetterEntry => {
+        const disposition = dispositions.get(letter.id);
+        return {
+          ...letter,
+          status: disposition?.status ?? 'PENDING',
+          disposition,
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.message.failedAt.localeCompare(b.message.failedAt) ||
+          a.partition - b.partition ||
+          Number(a.offset) - Number(b.offset),
+      );
+  }
+
+  private getIndex(topic: string): Promise<Map<string, IndexedDeadLetter>> {
+    let index = this.indexes.get(topic);
+    if (!index) {
+      const letters = new Map<string, IndexedDeadLetter>();
+      index = this.kafkaService
+        .follow(
+          `${CONFIG.KAFKA.DLQ_GROUP_PREFIX}-${uuidv4()}`,
+          [getDeadLetterTopic(topic)],
+          (message, context) => {
+            const id = `${context.partition}:${context.offset}`;
+            letters.set(id, {
+              id,
+              partition: context.partition,
+              offset: context.offset,
+              message: message as DeadLetterMessage,
+            });
+            // Insertion order is read order, so the oldest go first
+            for (const oldest of letters.keys()) {
+              if (letters.size <= this.maxIndexed) {
+                break;
+              }
+              letters.delete(oldest);
+            }
+            return Promise.resolve();
+          },
+        )
+        .then(() => letters);
+      // Read again on the next request rather than keep the failure
+      index.catch(() => this.indexes.delete(topic));
+      this.indexes.set(topic, index);
+    }
+    return index;
+  }
+
+  private async toView(entry: DeadLetterEntry): Promise<DeadLetterView> {
+    const view: DeadLetterView = {
+      ...entry.message,
+      id: entry.id,
+      partition: entry.partition,
+      offset: entry.offset,
+      status: entry.status,
+      originalMessage: entry.message.originalMessage.toString('base64'),
+      disposition: entry.disposition,
+    };
+    try {
+      view.decoded = await this.kafkaService.decode(
+        entry.message.originalMessage,
+      );
+    } catch (error) {
+      view.decodeError = (error as Error).message;
+    }
+    return view;
+  }
+
+  private matches(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+    const letter = entry.message;
+    return (
+      (filter.status === undefined || entry.status === filter.status) &&
+      (filter.errorClass === undefined ||
+        letter.errorClass === filter.errorClass) &&
+      (filter.consumerGroup === undefined ||
+        letter.consumerGroup === filter.consumerGroup) &&
+      (filter.key === undefined || letter.originalKey === filter.key) &&
+      (filter.from === undefined ||
+        new Date(letter.failedAt) >= new Date(filter.from)) &&
+      (filter.to === undefined ||
+        new Date(letter.failedAt) <= new Date(filter.to))
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { DeduplicationService } from './deduplication.service';
+import { InMemoryHandledMessageRepository } from '../repositories/in-memory-handled-message.repository';
+import { FakeClock } from '../../common/services/clock.service';
+import { IConsumedMessageContext } from '../../common/types/kafka.types';
+import { createClock, createConfig } from '../../testing/fixtures';
+
+describe('DeduplicationService', () => {
+  const message = { payload: { projectId: 1, phaseId: 10 } };
+  const context = (
+    offset: string,
+    headers: Record<string, string> = {},
+  ): IConsumedMessageContext => ({
+    topic: 'autopilot.phase.transition',
+    partition: 0,
+    offset,
+    headers,
+  });
+
+  let clock: FakeClock;
+  let repository: InMemoryHandledMessageRepository;
+  let service: DeduplicationService;
+
+  /** A replica's service over the shared `repository`. */
+  function createService(
+    settings: Record<string, number> = {},
+  ): DeduplicationService {
+    return new DeduplicationService(
+      createConfig({
+        'kafka.deduplication.window': 60000,
+        'kafka.deduplication.maxKeys': 100,
+        ...settings,
+      }),
+      clock,
+      repository,
+    );
+  }
+
+  beforeEach(() => {
+    clock = createClock();
+    repository = new InMemoryHandledMessageRepository();
+    service = createService();
+  });
+
+  it('skips a message redelivered with the same event id', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+
+    await expect(
+      service.handleOnce(message, context('1', { 'event-id': 'a' }), handler),
+    ).resolves.toBe(true);
+    await expect(
+      service.handleOnce(
+        { other: true },
+        context('2', { 'event-id': 'a' }),
+        handler,
+      ),
+    ).resolves.toBe(false);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    await expect(service.getStats()).resolves.toEqual(
+      expect.objectContaining({
+        tracked: 1,
+        duplicates: 1,
+        duplicatesByTopic: { 'autopilot.phase.transition': 1 },
+      }),
+    );
+  });
+
+  it('tells messages without an event id apart by content', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+
+    await service.handleOnce(message, context('1'), handler);
+    await service.handleOnce(message, context('2'), handler);
+    await service.handleOnce(
+      { payload: { projectId: 1, phaseId: 11 } },
+      context('3'),
+      handler,
+    );
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(DeduplicationService.getKey(message, context('1'))).toBe(
+      DeduplicationService.getKey(message, context('9')),
+    );
+  });
+
+  it('handles a message again after its handler failed', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('broker down'))
+      .mockResolvedValue(undefined);
+    const redelivered = context('1', { 'event-id': 'a' });
+
+    await expect(
+      service.handleOnce(message, redelivered, handler),
+    ).rejects.toThrow('broker down');
+    await expect(
+      service.handleOnce(message, redelivered, handler),
+    ).resolves.toBe(true);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets messages once they leave the window', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const redelivered = context('1', { 'event-id': 'a' });
+
+    await service.handleOnce(message, redelivered, handler);
+    clock.advance(60000);
+    await expect(
+      service.handleOnce(message, redelivered, handler),
+    ).resolves.toBe(true);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the oldest keys beyond maxKeys', async () => {
+    service = createService({ 'kafka.deduplication.maxKeys': 2 });
+    const handler = jest.fn().mockResolvedValue(undefined);
+
+    for (const id of ['a', 'b', 'c']) {
+      await service.handleOnce(
+        message,
+        context(id, { 'event-id': id }),
+        handler,
+      );
+      clock.advance(1000);
+    }
+    expect((await service.getStats()).tracked).toBe(2);
+
+    await expect(
+      service.handleOnce(message, context('4', { 'event-id': 'a' }), handler),
+    ).resolves.toBe(true);
+    await expect(
+      service.handleOnce(message, context('5', { 'event-id': 'c' }), handler),
+    ).resolves.toBe(false);
+  });
+
+  it('skips what another replica handled before a rebalance', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const redelivered = context('1', { 'event-id': 'a' });
+
+    await service.handleOnce(message, redelivered, handler);
+    const newOwner = createService();
+
+    await expect(
+      newOwner.handleOnce(message, redelivered, handler),
+    ).resolves.toBe(false);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
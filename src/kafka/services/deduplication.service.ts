@@ -0,0 +1,114 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { IConsumedMessageContext } from '../../common/types/kafka.types';
+import {
+  HANDLED_MESSAGE_REPOSITORY,
+  HandledMessageRepository,
+} from '../repositories/handled-message.repository';
+
+export interface DeduplicationStats {
+  tracked: number;
+  duplicates: number;
+  duplicatesByTopic: Record<string, number>;
+  window: number;
+  maxKeys: number;
+}
+
+/**
+ * Remembers recently handled messages so at-least-once redeliveries are
+ * skipped. Keys come from the `event-id` header, falling back to a hash of
+ * the decoded message, and are forgotten once they leave the retention window
+ * or the oldest is evicted to stay within `maxKeys`. Keys live in the store
+ * replicas share, so a new owner after a rebalance skips what its
+ * predecessor handled; only the duplicate counts are per replica.
+ */
+@Injectable()
+export class DeduplicationService {
+  private readonly logger = new LoggerService(DeduplicationService.name);
+  private readonly duplicatesByTopic = new Map<string, number>();
+  private readonly window: number;
+  private readonly maxKeys: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clock: Clock,
+    @Inject(HANDLED_MESSAGE_REPOSITORY)
+    private readonly repository: HandledMessageRepository,
+  ) {
+    this.window = this.configService.get<number>(
+      'kafka.deduplication.window',
+      CONFIG.KAFKA.DEFAULT_DEDUP_WINDOW,
+    );
+    this.maxKeys = this.configService.get<number>(
+      'kafka.deduplication.maxKeys',
+      CONFIG.KAFKA.DEFAULT_DEDUP_MAX_KEYS,
+    );
+  }
+
+  static getKey(message: unknown, context: IConsumedMessageContext): string {
+    const eventId = context.headers['event-id'];
+    if (eventId) {
+      return `event:${eventId}`;
+    }
+    const digest = createHash('sha256')
+      .update(context.topic)
+      .update(JSON.stringify(message))
+      .digest('hex');
+    return `payload:${digest}`;
+  }
+
+  /**
+   * Runs `handler` unless the message was already handled within the window.
+   * A message only counts as handled once `handler` resolves, so failures
+   * stay eligible for redelivery. Returns false if the message was skipped.
+   */
+  async handleOnce(
+    message: unknown,
+    context: IConsumedMessageContext,
+    handler: () => Promise<void>,
+  ): Promise<boolean> {
+    const key = DeduplicationService.getKey(message, context);
+    const handledAt = await this.repository.find(key);
+
+    if (handledAt !== undefined && handledAt > this.getCutoff()) {
+      this.duplicatesByTopic.set(
+        context.topic,
+        (this.duplicatesByTopic.get(context.topic) ?? 0) + 1,
+      );
+      this.logger.warn(`Skipping duplicate message from ${context.topic}`, {
+        key,
+        partition: context.partition,
+        offset: context.offset,
+      });
+      return false;
+    }
+
+    await handler();
+    await this.repository.save(
+      key,
+      this.clock.now(),
+      this.getCutoff(),
+      this.maxKeys,
+    );
+    return true;
+  }
+
+  async getStats(): Promise<DeduplicationStats> {
+    const duplicatesByTopic = Object.fromEntries(this.duplicatesByTopic);
+    return {
+      tracked: await this.repository.count(this.getCutoff()),
+      duplicates: Object.values(duplicatesByTopic).reduce((a, b) => a + b, 0),
+      duplicatesByTopic,
+      window: this.window,
+      maxKeys: this.maxKeys,
+    };
+  }
+
+  private getCutoff(): number {
+    return this.clock.now() - this.window;
+  }
+}
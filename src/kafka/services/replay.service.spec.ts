@@ -0,0 +1,135 @@
+import { ReplayService } from './replay.service';
+import { KafkaService } from '../kafka.service';
+import { KAFKA_TOPICS } from '../constants/topics';
+import { ChallengeProjectionService } from '../../autopilot/services/challenge-projection.service';
+import { ChallengeStateService } from '../../autopilot/services/challenge-state.service';
+import {
+  CHALLENGE_VIEW_REPOSITORY,
+  ChallengeViewRepository,
+} from '../../autopilot/repositories/challenge-view.repository';
+import { ChallengeUpdatePayload } from '../../autopilot/interfaces/autopilot.interface';
+import { createTestingModule, NOW } from '../../testing/fixtures';
+
+describe('ReplayService', () => {
+  const TOPICS = [KAFKA_TOPICS.PHASE_TRANSITION, KAFKA_TOPICS.CHALLENGE_UPDATE];
+  const update = (challengeId: number): ChallengeUpdatePayload => ({
+    projectId: challengeId,
+    challengeId,
+    status: 'ACTIVE',
+    operator: 'ops',
+    date: NOW,
+  });
+  const message = (payload: ChallengeUpdatePayload) => ({
+    topic: KAFKA_TOPICS.CHALLENGE_UPDATE,
+    originator: 'spec',
+    timestamp: NOW,
+    'mime-type': 'application/json',
+    payload,
+  });
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  let kafka: jest.Mocked<Pick<KafkaService, 'replay' | 'pause' | 'resume'>>;
+  // Completes the running replay, after it has read what it was given
+  let finish: (error?: Error) => void;
+  let projection: ChallengeProjectionService;
+  let state: ChallengeStateService;
+  let views: ChallengeViewRepository;
+  let service: ReplayService;
+
+  /** Has the running replay read `payloads`, then waits for `finish`. */
+  const replaying = (...payloads: ChallengeUpdatePayload[]) =>
+    kafka.replay.mockImplementationOnce(async (groupId, topics, onMessage) => {
+      for (const payload of payloads) {
+        await onMessage(message(payload), {
+          topic: KAFKA_TOPICS.CHALLENGE_UPDATE,
+          partition: 0,
+          offset: '0',
+          headers: {},
+        });
+      }
+      await new Promise<void>((resolve, reject) => {
+        finish = (error) => (error ? reject(error) : resolve());
+      });
+      return [];
+    });
+
+  beforeEach(async () => {
+    kafka = {
+      replay: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+    };
+    const module = await createTestingModule({
+      providers: [
+        ReplayService,
+        ChallengeProjectionService,
+        ChallengeStateService,
+        { provide: KafkaService, useValue: kafka },
+      ],
+    });
+    projection = module.get(ChallengeProjectionService);
+    state = module.get(ChallengeStateService);
+    views = module.get<ChallengeViewRepository>(CHALLENGE_VIEW_REPOSITORY);
+    service = module.get(ReplayService);
+
+    const live = update(1);
+    await projection.applyChallengeUpdate(
+      live,
+      state.applyChallengeUpdate(live),
+    );
+  });
+
+  it('serves the live projection until the rebuilt one replaces it', async () => {
+    replaying(update(2));
+
+    const job = service.start({
+      target: 'challenge-projection',
+      operator: 'ops',
+    });
+    await settle();
+    expect(projection.list().map((view) => view.challengeId)).toEqual([1]);
+    expect(kafka.pause).toHaveBeenCalledWith(TOPICS);
+
+    finish();
+    await settle();
+    expect(job.status).toBe('COMPLETED');
+    expect(projection.list().map((view) => view.challengeId)).toEqual([2]);
+    expect((await views.findAll()).map((view) => view.challengeId)).toEqual([
+      2,
+    ]);
+    expect(kafka.resume).toHaveBeenCalledWith(TOPICS);
+  });
+
+  it('leaves the live projection as it was when a replay fails', async () => {
+    replaying(update(2));
+
+    const job = service.start({
+      target: 'challenge-projection',
+      operator: 'ops',
+    });
+    await settle();
+    finish(new Error('broker down'));
+    await settle();
+
+    expect(job).toMatchObject({ status: 'FAILED', error: 'broker down' });
+    expect(projection.list().map((view) => view.challengeId)).toEqual([1]);
+    expect((await views.findAll()).map((view) => view.challengeId)).toEqual([
+      1,
+    ]);
+    expect(kafka.resume).toHaveBeenCalledWith(TOPICS);
+  });
+
+  it('puts rebuilt challenge state in place once complete', async () => {
+    replaying(update(2));
+
+    const job = service.start({ target: 'challenge-state', operator: 'ops' });
+    await settle();
+    expect(state.getChallengeStatus(1)).toBe('ACTIVE');
+
+    finish();
+    await settle();
+    expect(job.status).toBe('COMPLETED');
+    expect(state.getChallengeStatus(1)).toBeUndefined();
+    expect(state.getChallengeStatus(2)).toBe('ACTIVE');
+  });
+});
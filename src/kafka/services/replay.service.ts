@@ -0,0 +1,271 @@
+import { Injectable } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { KafkaService } from '../kafka.service';
+import { KAFKA_TOPICS, KafkaTopic } from '../constants/topics';
+import { REPLAY_TARGETS, ReplayTargetName } from '../constants/replay';
+import { KafkaMessage } from '../interfaces/kafka-message.interface';
+import { ReplayJob, ReplayRequest } from '../interfaces/replay.interface';
+import { TopicPayloadMap } from '../types/topic-payload-map.type';
+import { ChallengeProjectionService } from '../../autopilot/services/challenge-projection.service';
+import { ChallengeStateService } from '../../autopilot/services/challenge-state.service';
+import { InMemoryScheduleRepository } from '../../autopilot/repositories/in-memory-schedule.repository';
+import { InMemoryChallengeViewRepository } from '../../autopilot/repositories/in-memory-challenge-view.repository';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { runInReplay } from '../../common/utils/replay-context';
+import { IReplayPartitionProgress } from '../../common/types/kafka.types';
+
+interface ReplayTarget {
+  /** Clears what the replay rebuilds, or starts an empty copy of it. */
+  reset(): Promise<void> | void;
+  apply(message: KafkaMessage<KafkaTopic>): Promise<void> | void;
+  /** Puts a copy rebuilt by a completed replay in place. */
+  complete?(): Promise<void> | void;
+}
+
+type PhaseTransition = TopicPayloadMap[typeof KAFKA_TOPICS.PHASE_TRANSITION];
+type ChallengeUpdate = TopicPayloadMap[typeof KAFKA_TOPICS.CHALLENGE_UPDATE];
+
+/**
+ * Rebuilds in-memory and derived state by reading autopilot topics again.
+ * Replays run in the background with their own consumer group, in replay
+ * mode, so nothing is produced while events are re-applied. The live
+ * consumer is paused on the replayed topics meanwhile, so live events are
+ * applied after the replayed ones instead of being interleaved with them.
+ */
+@Injectable()
+export class ReplayService {
+  private readonly logger = new LoggerService(ReplayService.name);
+  private readonly jobs = new Map<string, ReplayJob>();
+  private readonly targets: Record<ReplayTargetName, ReplayTarget>;
+  // Decides which replayed events the live service would have accepted
+  private projectionState?: ChallengeStateService;
+  // Rebuilt aside and swapped in once complete, so live reads never see them
+  // half done and a failed replay leaves the live ones as they were
+  private rebuiltProjection?: ChallengeProjectionService;
+  private rebuiltState?: ChallengeStateService;
+  // Replays holding each topic paused
+  private readonly pausedTopics = new Map<string, number>();
+
+  constructor(
+    private readonly kafkaService: KafkaService,
+    private readonly challengeProjectionService: ChallengeProjectionService,
+    private readonly challengeStateService: ChallengeStateService,
+    private readonly clock: Clock,
+  ) {
+    this.targets = {
+      'challenge-projection': {
+        reset: () => {
+          this.projectionState = this.createState();
+          this.rebuiltProjection = new ChallengeProjectionService(
+            new InMemoryChallengeViewRepository(),
+            this.clock,
+          );
+        },
+        apply: (message) => this.applyToProjection(message),
+        complete: async () => {
+          await this.challengeProjectionService.replaceWith(
+            this.rebuiltProjection!,
+          );
+          this.projectionState = undefined;
+          this.rebuiltProjection = undefined;
+        },
+      },
+      'challenge-state': {
+        reset: () => {
+          this.rebuiltState = this.createState();
+        },
+        apply: (message) => this.applyToState(message),
+        complete: () => {
+          this.challengeStateService.replaceWith(this.rebuiltState!);
+          this.rebuiltState = undefined;
+        },
+      },
+    };
+  }
+
+  getTopics(target: ReplayTargetName): readonly string[] {
+    return REPLAY_TARGETS[target];
+  }
+
+  isRunning(target: ReplayTargetName): boolean {
+    return Array.from(this.jobs.values()).some(
+      (job) => job.target === target && job.status === 'RUNNING',
+    );
+  }
+
+  /** Starts the replay and returns at once; follow it with `get`. */
+  start(request: ReplayRequest): ReplayJob {
+    const id = uuidv4();
+    const job: ReplayJob = {
+      id,
+      groupId: `${CONFIG.KAFKA.REPLAY_GROUP_PREFIX}-${id}`,
+      target: request.target,
+      topics: request.topics?.length
+        ? request.topics
+        : [...REPLAY_TARGETS[request.target]],
+      operator: request.operator,
+      status: 'RUNNING',
+      consumed: 0,
+      failed: 0,
+      partitions: [],
+      startedAt: this.clock.toISOString(),
+    };
+    this.jobs.set(id, job);
+    this.prune();
+
+    void this.run(job);
+    return job;
+  }
+
+  get(id: string): ReplayJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /** Newest first. */
+  list(): ReplayJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  private async run(job: ReplayJob): Promise<void> {
+    const target = this.targets[job.target];
+    this.logger.info(`Replay ${job.id} started`, {
+      target: job.target,
+      topics: job.topics,
+      operator: job.operator,
+    });
+
+    try {
+      this.pause(job.topics);
+      await target.reset();
+      const partitions = await this.kafkaService.replay(
+        job.groupId,
+        job.topics,
+        (message) =>
+          runInReplay(async () => {
+            await target.apply(message as KafkaMessage<KafkaTopic>);
+          }),
+        (progress) => this.updateProgress(job, progress),
+      );
+      this.updateProgress(job, partitions);
+      await target.complete?.();
+      job.status = 'COMPLETED';
+      this.logger.info(`Replay ${job.id} completed`, {
+        target: job.target,
+        consumed: job.consumed,
+        failed: job.failed,
+      });
+    } catch (error) {
+      const err = error as Error;
+      job.status = 'FAILED';
+      job.error = err.message;
+      this.logger.error(`Replay ${job.id} failed`, {
+        error: err.stack || err.message,
+        target: job.target,
+      });
+    } finally {
+      this.resume(job.topics);
+      job.finishedAt = this.clock.toISOString();
+    }
+  }
+
+  private pause(topics: string[]): void {
+    const first = topics.filter((topic) => !this.pausedTopics.has(topic));
+    for (const topic of topics) {
+      this.pausedTopics.set(topic, (this.pausedTopics.get(topic) ?? 0) + 1);
+    }
+    if (first.length) {
+      this.kafkaService.pause(first);
+    }
+  }
+
+  private resume(topics: string[]): void {
+    const last: string[] = [];
+    for (const topic of topics) {
+      const count = (this.pausedTopics.get(topic) ?? 1) - 1;
+      if (count) {
+        this.pausedTopics.set(topic, count);
+      } else {
+        this.pausedTopics.delete(topic);
+        last.push(topic);
+      }
+    }
+    if (last.length) {
+      this.kafkaService.resume(last);
+    }
+  }
+
+  private createState(): ChallengeStateService {
+    return new ChallengeStateService(
+      new InMemoryScheduleRepository(),
+      new InMemoryChallengeViewRepository(),
+      this.clock,
+    );
+  }
+
+  private updateProgress(
+    job: ReplayJob,
+    partitions: IReplayPartitionProgress[],
+  ): void {
+    const consumed = partitions.reduce((sum, p) => sum + p.consumed, 0);
+    job.partitions = partitions;
+    job.total = partitions.reduce(
+      (sum, p) => sum + Number(p.endOffset) - Number(p.startOffset),
+      0,
+    );
+    job.failed = partitions.reduce((sum, p) => sum + p.failed, 0);
+    if (
+      Math.floor(consumed / CONFIG.KAFKA.REPLAY_PROGRESS_INTERVAL) >
+      Math.floor(job.consumed / CONFIG.KAFKA.REPLAY_PROGRESS_INTERVAL)
+    ) {
+      this.logger.info(`Replay ${job.id} progress`, {
+        consumed,
+        total: job.total,
+        failed: job.failed,
+      });
+    }
+    job.consumed = consumed;
+  }
+
+  private async applyToProjection(
+    message: KafkaMessage<KafkaTopic>,
+  ): Promise<void> {
+    const state = this.projectionState!;
+    const projection = this.rebuiltProjection!;
+    if (message.topic === KAFKA_TOPICS.PHASE_TRANSITION) {
+      const payload = message.payload as PhaseTransition;
+      await projection.applyPhaseTransition(
+        payload,
+        state.applyPhaseTransition(payload),
+      );
+    } else if (message.topic === KAFKA_TOPICS.CHALLENGE_UPDATE) {
+      const payload = message.payload as ChallengeUpdate;
+      await projection.applyChallengeUpdate(
+        payload,
+        state.applyChallengeUpdate(payload),
+      );
+    }
+  }
+
+  private applyToState(message: KafkaMessage<KafkaTopic>): void {
+    // Rejected transitions throw, and are skipped as they were live
+    const state = this.rebuiltState!;
+    if (message.topic === KAFKA_TOPICS.PHASE_TRANSITION) {
+      state.applyPhaseTransition(message.payload as PhaseTransition);
+    } else if (message.topic === KAFKA_TOPICS.CHALLENGE_UPDATE) {
+      state.applyChallengeUpdate(message.payload as ChallengeUpdate);
+    }
+  }
+
+  private prune(): void {
+    for (const job of this.jobs.values()) {
+      if (this.jobs.size <= CONFIG.KAFKA.MAX_REPLAY_JOBS) {
+        return;
+      }
+      if (job.status !== 'RUNNING') {
+        this.jobs.delete(job.id);
+      }
+    }
+  }
+}
@@ -5,9 +5,13 @@ import {
   IsEnum,
   IsOptional,
   IsDateString,
+  IsIn,
+  IsObject,
+  IsBoolean,
 } from 'class-validator';
 import { KafkaMessageTemplate } from './kafka.template';
 import { KAFKA_TOPICS } from '../constants/topics';
+import { Clock } from '../../common/services/clock.service';
 
 // Phase Transition Template
 export class PhaseTransitionPayload {
@@ -37,11 +41,27 @@ export class PhaseTransitionPayload {
   @IsDateString()
   @IsOptional()
   date?: string;
+
+  @IsDateString()
+  @IsOptional()
+  scheduledEndDate?: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  reopen?: boolean;
+
+  @IsNumber()
+  @IsOptional()
+  extendedBy?: number;
 }
 
 export class PhaseTransitionMessage extends KafkaMessageTemplate<PhaseTransitionPayload> {
-  constructor(payload: PhaseTransitionPayload) {
-    super(KAFKA_TOPICS.PHASE_TRANSITION, payload);
+  constructor(payload: PhaseTransitionPayload, clock?: Clock) {
+    super(KAFKA_TOPICS.PHASE_TRANSITION, payload, clock);
   }
 }
 
@@ -66,11 +86,35 @@ export class ChallengeUpdatePayload {
   @IsDateString()
   @IsOptional()
   date?: string;
+
+  @IsNumber()
+  @IsOptional()
+  phaseId?: number;
+
+  @IsNumber()
+  @IsOptional()
+  submissionCount?: number;
+
+  @IsNumber()
+  @IsOptional()
+  reviewCount?: number;
+
+  @IsNumber()
+  @IsOptional()
+  requiredReviewCount?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  workComplete?: boolean;
+
+  @IsString()
+  @IsOptional()
+  challengeType?: string;
 }
 
 export class ChallengeUpdateMessage extends KafkaMessageTemplate<ChallengeUpdatePayload> {
-  constructor(payload: ChallengeUpdatePayload) {
-    super(KAFKA_TOPICS.CHALLENGE_UPDATE, payload);
+  constructor(payload: ChallengeUpdatePayload, clock?: Clock) {
+    super(KAFKA_TOPICS.CHALLENGE_UPDATE, payload, clock);
   }
 }
 
@@ -91,10 +135,167 @@ export class CommandPayload {
   @IsDateString()
   @IsOptional()
   date?: string;
+
+  @IsString()
+  @IsOptional()
+  commandId?: string;
+
+  @IsObject()
+  @IsOptional()
+  parameters?: Record<string, string | number | boolean | null>;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
 }
 
 export class CommandMessage extends KafkaMessageTemplate<CommandPayload> {
-  constructor(payload: CommandPayload) {
-    super(KAFKA_TOPICS.COMMAND, payload);
+  constructor(payload: CommandPayload, clock?: Clock) {
+    super(KAFKA_TOPICS.COMMAND, payload, clock);
+  }
+}
+
+// Command Result Template
+export class CommandResultPayload {
+  @IsString()
+  @IsNotEmpty()
+  commandId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  command: string;
+
+  @IsIn(['SUCCEEDED', 'REJECTED', 'FAILED'])
+  status: 'SUCCEEDED' | 'REJECTED' | 'FAILED';
+
+  @IsString()
+  message: string;
+
+  @IsString()
+  @IsNotEmpty()
+  operator: string;
+
+  @IsNumber()
+  @IsOptional()
+  projectId?: number;
+
+  @IsString()
+  @IsOptional()
+  result?: string;
+
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+}
+
+export class CommandResultMessage extends KafkaMessageTemplate<CommandResultPayload> {
+  constructor(payload: CommandResultPayload, clock?: Clock) {
+    super(KAFKA_TOPICS.COMMAND_RESULT, payload, clock);
+  }
+}
+
+// Notification Template
+export class NotificationPayload {
+  @IsIn([
+    'PHASE_STARTED',
+    'PHASE_ENDED',
+    'PHASE_REOPENED',
+    'DEADLINE_EXTENDED',
+    'COMMAND_REJECTED',
+    'RULE_TRIGGERED',
+  ])
+  type:
+    | 'PHASE_STARTED'
+    | 'PHASE_ENDED'
+    | 'PHASE_REOPENED'
+    | 'DEADLINE_EXTENDED'
+    | 'COMMAND_REJECTED'
+    | 'RULE_TRIGGERED';
+
+  @IsIn(['ALL', 'OPERATORS'])
+  audience: 'ALL' | 'OPERATORS';
+
+  @IsNumber()
+  @IsNotEmpty()
+  projectId: number;
+
+  @IsNumber()
+  @IsOptional()
+  phaseId?: number;
+
+  @IsString()
+  @IsOptional()
+  phaseTypeName?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @IsString()
+  @IsNotEmpty()
+  operator: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+}
+
+export class NotificationMessage extends KafkaMessageTemplate<NotificationPayload> {
+  constructor(payload: NotificationPayload, clock?: Clock) {
+    super(KAFKA_TOPICS.NOTIFICATION, payload, clock);
+  }
+}
+
+// SLA Alert Template
+export class SlaAlertPayload {
+  @IsIn(['PHASE_OVERDUE', 'PHASE_OVERDUE_RESOLVED'])
+  type: 'PHASE_OVERDUE' | 'PHASE_OVERDUE_RESOLVED';
+
+  @IsNumber()
+  @IsNotEmpty()
+  projectId: number;
+
+  @IsNumber()
+  @IsOptional()
+  challengeId?: number;
+
+  @IsNumber()
+  @IsNotEmpty()
+  phaseId: number;
+
+  @IsString()
+  @IsNotEmpty()
+  phaseTypeName: string;
+
+  @IsDateString()
+  expectedEnd: string;
+
+  @IsNumber()
+  overdueBy: number;
+
+  @IsString()
+  @IsNotEmpty()
+  operator: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+}
+
+export class SlaAlertMessage extends KafkaMessageTemplate<SlaAlertPayload> {
+  constructor(payload: SlaAlertPayload, clock?: Clock) {
+    super(KAFKA_TOPICS.SLA_ALERT, payload, clock);
   }
 }
@@ -1,6 +1,7 @@
 import { Type } from 'class-transformer';
 import { IsString, IsNotEmpty, ValidateNested } from 'class-validator';
 import { KafkaTopic } from '../constants/topics';
+import { Clock, systemClock } from '../../common/services/clock.service';
 
 export abstract class KafkaMessageTemplate<T> {
   @IsString()
@@ -23,10 +24,10 @@ export abstract class KafkaMessageTemplate<T> {
   @Type()
   readonly payload: T;
 
-  constructor(topic: KafkaTopic, payload: T) {
+  constructor(topic: KafkaTopic, payload: T, clock: Clock = systemClock) {
     this.topic = topic;
     this.originator = 'auto_pilot';
-    this.timestamp = new Date().toISOString();
+    this.timestamp = clock.toISOString();
     this.mimeType = 'application/json';
     this.payload = payload;
   }
@@ -4,9 +4,17 @@ import {
   ChallengeUpdateMessageDto,
   CommandMessageDto,
 } from '../dto/produce-message.dto';
+import {
+  CommandResultPayload,
+  NotificationPayload,
+  SlaAlertPayload,
+} from '../templates/autopilot.template';
 
 export type TopicPayloadMap = {
   [KAFKA_TOPICS.PHASE_TRANSITION]: PhaseTransitionMessageDto['payload'];
   [KAFKA_TOPICS.CHALLENGE_UPDATE]: ChallengeUpdateMessageDto['payload'];
   [KAFKA_TOPICS.COMMAND]: CommandMessageDto['payload'];
+  [KAFKA_TOPICS.COMMAND_RESULT]: CommandResultPayload;
+  [KAFKA_TOPICS.NOTIFICATION]: NotificationPayload;
+  [KAFKA_TOPICS.SLA_ALERT]: SlaAlertPayload;
 };
@@ -0,0 +1,106 @@
+import { Provider, Type } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { FakeClock, Clock } from '../common/services/clock.service';
+import { AuditService } from '../audit/services/audit.service';
+import { AUDIT_REPOSITORY } from '../audit/repositories/audit.repository';
+import { InMemoryAuditRepository } from '../audit/repositories/in-memory-audit.repository';
+import { SCHEDULE_REPOSITORY } from '../autopilot/repositories/schedule.repository';
+import { InMemoryScheduleRepository } from '../autopilot/repositories/in-memory-schedule.repository';
+import { TIMELINE_REPOSITORY } from '../autopilot/repositories/timeline.repository';
+import { InMemoryTimelineRepository } from '../autopilot/repositories/in-memory-timeline.repository';
+import { CHALLENGE_VIEW_REPOSITORY } from '../autopilot/repositories/challenge-view.repository';
+import { InMemoryChallengeViewRepository } from '../autopilot/repositories/in-memory-challenge-view.repository';
+import { COMMAND_RESULT_REPOSITORY } from '../autopilot/repositories/command-result.repository';
+import { InMemoryCommandResultRepository } from '../autopilot/repositories/in-memory-command-result.repository';
+import { AutopilotProducer } from '../kafka/producers/autopilot.producer';
+
+/** Where every spec's clock starts: a Monday, within business hours. */
+export const NOW = '2025-01-06T10:00:00.000Z';
+
+export function createClock(at: string = NOW): FakeClock {
+  return new FakeClock(new Date(at));
+}
+
+/** A real ConfigService holding `settings`, keyed by their dotted paths. */
+export function createConfig(
+  settings: Record<string, unknown> = {},
+): ConfigService {
+  const config: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(settings)) {
+    const keys = path.split('.');
+    let node = config;
+    for (const key of keys.slice(0, -1)) {
+      node = (node[key] ??= {}) as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+  return new ConfigService(config);
+}
+
+type SendMethod = Extract<keyof AutopilotProducer, `send${string}`>;
+
+export type FakeProducer = jest.Mocked<Pick<AutopilotProducer, SendMethod>>;
+
+/** Producer that records what would be published. */
+export function createProducer(): FakeProducer {
+  return {
+    sendPhaseTransition: jest.fn().mockResolvedValue(undefined),
+    sendChallengeUpdate: jest.fn().mockResolvedValue(undefined),
+    sendCommand: jest.fn().mockResolvedValue(undefined),
+    sendCommandResult: jest.fn().mockResolvedValue(undefined),
+    sendNotification: jest.fn().mockResolvedValue(undefined),
+    sendSlaAlert: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+export interface FixtureOptions {
+  /** Real providers under test, and `{ provide, useValue }` fakes. */
+  providers: Provider[];
+  controllers?: Type<unknown>[];
+  config?: Record<string, unknown>;
+  clock?: FakeClock;
+}
+
+/**
+ * Compiles `providers` over in-memory stores, a real audit service, the
+ * given settings and a fake clock, as their modules would inject them.
+ * Coordination is off unless `config` turns it on, so every project is owned
+ * here. Lifecycle hooks only run once the spec calls `init()`.
+ */
+export function createTestingModule({
+  providers,
+  controllers,
+  config,
+  clock = createClock(),
+}: FixtureOptions): Promise<TestingModule> {
+  return Test.createTestingModule({
+    controllers,
+    providers: [
+      { provide: Clock, useValue: clock },
+      {
+        provide: ConfigService,
+        useValue: createConfig({
+          'autopilot.scheduler.coordination': 'none',
+          ...config,
+        }),
+      },
+      { provide: SCHEDULE_REPOSITORY, useClass: InMemoryScheduleRepository },
+      { provide: TIMELINE_REPOSITORY, useClass: InMemoryTimelineRepository },
+      {
+        provide: CHALLENGE_VIEW_REPOSITORY,
+        useClass: InMemoryChallengeViewRepository,
+      },
+      {
+        provide: COMMAND_RESULT_REPOSITORY,
+        useClass: InMemoryCommandResultRepository,
+      },
+      {
+        provide: AUDIT_REPOSITORY,
+        useValue: new InMemoryAuditRepository(Infinity),
+      },
+      AuditService,
+      ...providers,
+    ],
+  }).compile();
+}
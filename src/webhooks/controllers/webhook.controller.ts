@@ -0,0 +1,105 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { WebhookService } from '../services/webhook.service';
+import { CreateWebhookDto, UpdateWebhookDto } from '../dto/webhook.dto';
+import { WebhookSubscription } from '../interfaces/webhook.interface';
+
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard)
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Post()
+  async create(@Body() body: CreateWebhookDto) {
+    const subscription = await this.webhookService.create(body);
+    return {
+      success: true,
+      message: 'Webhook subscription created successfully',
+      // The only response that includes the signing secret
+      data: subscription,
+    };
+  }
+
+  @Get()
+  async findAll() {
+    const subscriptions = await this.webhookService.findAll();
+    return {
+      success: true,
+      message: 'Webhook subscriptions retrieved successfully',
+      data: subscriptions.map((subscription) =>
+        WebhookService.toView(subscription),
+      ),
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return {
+      success: true,
+      message: 'Webhook subscription retrieved successfully',
+      data: WebhookService.toView(
+        this.found(id, await this.webhookService.findOne(id)),
+      ),
+    };
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: UpdateWebhookDto,
+  ) {
+    return {
+      success: true,
+      message: 'Webhook subscription updated successfully',
+      data: WebhookService.toView(
+        this.found(id, await this.webhookService.update(id, body)),
+      ),
+    };
+  }
+
+  @Delete(':id')
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    if (!(await this.webhookService.remove(id))) {
+      throw new NotFoundException(`No webhook subscription ${id}`);
+    }
+    return {
+      success: true,
+      message: 'Webhook subscription removed successfully',
+      data: { id },
+    };
+  }
+
+  @Get(':id/deliveries')
+  async getDeliveries(@Param('id', ParseUUIDPipe) id: string) {
+    const attempts = await this.webhookService.getAttempts(id);
+    if (!attempts) {
+      throw new NotFoundException(`No webhook subscription ${id}`);
+    }
+    return {
+      success: true,
+      message: 'Webhook delivery attempts retrieved successfully',
+      data: attempts,
+    };
+  }
+
+  private found(
+    id: string,
+    subscription: WebhookSubscription | undefined,
+  ): WebhookSubscription {
+    if (!subscription) {
+      throw new NotFoundException(`No webhook subscription ${id}`);
+    }
+    return subscription;
+  }
+}
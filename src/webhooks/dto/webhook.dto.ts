@@ -0,0 +1,60 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MinLength,
+} from 'class-validator';
+import { KAFKA_TOPICS } from '../../kafka/constants/topics';
+
+const EVENT_TYPES: string[] = Object.values(KAFKA_TOPICS);
+
+export class CreateWebhookDto {
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url: string;
+
+  // Omitted or empty to receive every event
+  @IsOptional()
+  @IsArray()
+  @IsIn(EVENT_TYPES, { each: true })
+  eventTypes?: string[];
+
+  // Generated when omitted
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  description?: string;
+}
+
+export class UpdateWebhookDto {
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(EVENT_TYPES, { each: true })
+  eventTypes?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,53 @@
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Topics delivered to the endpoint; empty means every event. */
+  eventTypes: string[];
+  secret: string;
+  description?: string;
+  enabled: boolean;
+  /** Deliveries that failed in a row, after all their retries. */
+  consecutiveFailures: number;
+  disabledAt?: string;
+  disabledReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A subscription as shown over REST; the secret is only returned once. */
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  eventTypes?: string[];
+  secret?: string;
+  description?: string;
+}
+
+export interface WebhookSubscriptionUpdate
+  extends Partial<WebhookSubscriptionInput> {
+  /** Re-enabling also clears the failure count. */
+  enabled?: boolean;
+}
+
+/** Body POSTed to subscribers. */
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  occurredAt: string;
+  payload: unknown;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  attempt: number;
+  attemptedAt: string;
+  succeeded: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  nextRetryAt?: string;
+}
@@ -0,0 +1,74 @@
+import { JsonFile } from '../../common/utils/json-file';
+import {
+  WebhookDeliveryAttempt,
+  WebhookSubscription,
+} from '../interfaces/webhook.interface';
+import { InMemoryWebhookRepository } from './in-memory-webhook.repository';
+
+interface WebhookFileContents {
+  subscriptions: WebhookSubscription[];
+  attempts: Record<string, WebhookDeliveryAttempt[]>;
+}
+
+/**
+ * Keeps subscriptions and their recent delivery attempts in memory and
+ * rewrites the whole file after every change.
+ */
+export class FileWebhookRepository extends InMemoryWebhookRepository {
+  private readonly file: JsonFile<WebhookFileContents>;
+  private loaded?: Promise<void>;
+
+  constructor(filePath: string, maxAttempts: number) {
+    super(maxAttempts);
+    this.file = new JsonFile(filePath);
+  }
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    await this.load();
+    await super.saveSubscription(subscription);
+    await this.persist();
+  }
+
+  async removeSubscription(id: string): Promise<void> {
+    await this.load();
+    await super.removeSubscription(id);
+    await this.persist();
+  }
+
+  async findSubscriptions(): Promise<WebhookSubscription[]> {
+    await this.load();
+    return super.findSubscriptions();
+  }
+
+  async appendAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    await this.load();
+    await super.appendAttempt(attempt);
+    await this.persist();
+  }
+
+  async findAttempts(
+    subscriptionId: string,
+  ): Promise<WebhookDeliveryAttempt[]> {
+    await this.load();
+    return super.findAttempts(subscriptionId);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.file.read().then((contents) => {
+      for (const subscription of contents?.subscriptions ?? []) {
+        this.subscriptions.set(subscription.id, subscription);
+      }
+      for (const [id, attempts] of Object.entries(contents?.attempts ?? {})) {
+        this.attempts.set(id, attempts);
+      }
+    });
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.file.write({
+      subscriptions: Array.from(this.subscriptions.values()),
+      attempts: Object.fromEntries(this.attempts),
+    });
+  }
+}
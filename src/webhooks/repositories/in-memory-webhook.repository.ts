@@ -0,0 +1,45 @@
+import {
+  WebhookDeliveryAttempt,
+  WebhookSubscription,
+} from '../interfaces/webhook.interface';
+import { WebhookRepository } from './webhook.repository';
+
+export class InMemoryWebhookRepository implements WebhookRepository {
+  protected readonly subscriptions = new Map<string, WebhookSubscription>();
+  protected readonly attempts = new Map<string, WebhookDeliveryAttempt[]>();
+
+  constructor(private readonly maxAttempts: number) {}
+
+  saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.subscriptions.set(subscription.id, structuredClone(subscription));
+    return Promise.resolve();
+  }
+
+  removeSubscription(id: string): Promise<void> {
+    this.subscriptions.delete(id);
+    this.attempts.delete(id);
+    return Promise.resolve();
+  }
+
+  findSubscriptions(): Promise<WebhookSubscription[]> {
+    return Promise.resolve(
+      Array.from(this.subscriptions.values()).map((subscription) =>
+        structuredClone(subscription),
+      ),
+    );
+  }
+
+  appendAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    const attempts = this.attempts.get(attempt.subscriptionId) ?? [];
+    attempts.push(attempt);
+    if (attempts.length > this.maxAttempts) {
+      attempts.splice(0, attempts.length - this.maxAttempts);
+    }
+    this.attempts.set(attempt.subscriptionId, attempts);
+    return Promise.resolve();
+  }
+
+  findAttempts(subscriptionId: string): Promise<WebhookDeliveryAttempt[]> {
+    return Promise.resolve([...(this.attempts.get(subscriptionId) ?? [])]);
+  }
+}
@@ -0,0 +1,16 @@
+import {
+  WebhookDeliveryAttempt,
+  WebhookSubscription,
+} from '../interfaces/webhook.interface';
+
+export const WEBHOOK_REPOSITORY = 'WEBHOOK_REPOSITORY';
+
+export interface WebhookRepository {
+  saveSubscription(subscription: WebhookSubscription): Promise<void>;
+  removeSubscription(id: string): Promise<void>;
+  findSubscriptions(): Promise<WebhookSubscription[]>;
+  /** Keeps the most recent attempts of each subscription. */
+  appendAttempt(attempt: WebhookDeliveryAttempt): Promise<void>;
+  /** Attempts in the order they were made. */
+  findAttempts(subscriptionId: string): Promise<WebhookDeliveryAttempt[]>;
+}
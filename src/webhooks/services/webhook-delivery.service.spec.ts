@@ -0,0 +1,205 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  WEBHOOK_HEADERS,
+  WebhookDeliveryService,
+} from './webhook-delivery.service';
+import { WebhookService } from './webhook.service';
+import { InMemoryWebhookRepository } from '../repositories/in-memory-webhook.repository';
+import { FakeClock } from '../../common/services/clock.service';
+import { createClock, createConfig } from '../../testing/fixtures';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** Local endpoint answering with the queued status codes, then 200. */
+class StandInEndpoint {
+  readonly received: ReceivedRequest[] = [];
+  readonly statuses: number[] = [];
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        this.received.push({ headers: req.headers, body });
+        res.statusCode = this.statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/hook`;
+  }
+}
+
+async function waitFor<T>(read: () => Promise<T>, done: (value: T) => boolean) {
+  for (let i = 0; i < 200; i++) {
+    const value = await read();
+    if (done(value)) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Timed out waiting for webhook deliveries');
+}
+
+describe('WebhookDeliveryService', () => {
+  const defaults: Record<string, number> = {
+    'webhooks.maxAttempts': 3,
+    'webhooks.initialBackoff': 1000,
+    'webhooks.timeout': 2000,
+    'webhooks.disableAfter': 2,
+  };
+
+  let endpoint: StandInEndpoint;
+  let clock: FakeClock;
+  let repository: InMemoryWebhookRepository;
+  let webhookService: WebhookService;
+  let delivery: WebhookDeliveryService;
+
+  function setUp(settings: Record<string, number> = {}): void {
+    const configService = createConfig({ ...defaults, ...settings });
+    repository = new InMemoryWebhookRepository(100);
+    webhookService = new WebhookService(repository, configService, clock);
+    delivery = new WebhookDeliveryService(webhookService, configService, clock);
+  }
+
+  beforeEach(async () => {
+    endpoint = new StandInEndpoint();
+    await endpoint.listen();
+    clock = createClock();
+    setUp();
+  });
+
+  afterEach(async () => {
+    delivery.onApplicationShutdown();
+    await endpoint.close();
+  });
+
+  it('POSTs matching events signed with the subscription secret', async () => {
+    const subscription = await webhookService.create({
+      url: endpoint.url,
+      eventTypes: ['autopilot.phase.transition'],
+      secret: 'shh',
+    });
+    await webhookService.create({
+      url: endpoint.url,
+      eventTypes: ['autopilot.command.result'],
+    });
+
+    await delivery.dispatch('autopilot.phase.transition', { phaseId: 10 });
+    const attempts = await waitFor(
+      () => repository.findAttempts(subscription.id),
+      (found) => found.length === 1,
+    );
+
+    expect(attempts[0]).toMatchObject({ succeeded: true, statusCode: 200 });
+    expect(endpoint.received).toHaveLength(1);
+    const [{ headers, body }] = endpoint.received;
+    expect(headers[WEBHOOK_HEADERS.EVENT]).toBe('autopilot.phase.transition');
+    expect(headers[WEBHOOK_HEADERS.SIGNATURE]).toBe(
+      WebhookDeliveryService.sign(
+        'shh',
+        headers[WEBHOOK_HEADERS.TIMESTAMP] as string,
+        body,
+      ),
+    );
+    expect(JSON.parse(body)).toMatchObject({ payload: { phaseId: 10 } });
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    endpoint.statuses.push(500, 503);
+    const { id } = await webhookService.create({ url: endpoint.url });
+
+    await delivery.dispatch('autopilot.sla.alert', {});
+    await waitFor(
+      () => repository.findAttempts(id),
+      (found) => found.length === 1,
+    );
+    clock.advance(1000);
+    await waitFor(
+      () => repository.findAttempts(id),
+      (found) => found.length === 2,
+    );
+    clock.advance(2000);
+    const attempts = await waitFor(
+      () => repository.findAttempts(id),
+      (found) => found.length === 3,
+    );
+
+    expect(
+      attempts.map(({ attempt, succeeded, statusCode }) => ({
+        attempt,
+        succeeded,
+        statusCode,
+      })),
+    ).toEqual([
+      { attempt: 1, succeeded: false, statusCode: 500 },
+      { attempt: 2, succeeded: false, statusCode: 503 },
+      { attempt: 3, succeeded: true, statusCode: 200 },
+    ]);
+    expect(attempts[0].nextRetryAt).toBe('2025-01-06T10:00:01.000Z');
+    expect((await webhookService.findOne(id))?.consecutiveFailures).toBe(0);
+  });
+
+  it('disables an endpoint whose deliveries keep failing', async () => {
+    setUp({ 'webhooks.maxAttempts': 1 });
+    endpoint.statuses.push(500, 500, 500);
+    const { id } = await webhookService.create({ url: endpoint.url });
+
+    // Dispatched together, so both outcomes are recorded concurrently
+    await Promise.all([
+      delivery.dispatch('autopilot.sla.alert', { n: 1 }),
+      delivery.dispatch('autopilot.sla.alert', { n: 2 }),
+    ]);
+    const subscription = await waitFor(
+      () => webhookService.findOne(id),
+      (found) => !found?.enabled,
+    );
+
+    expect(subscription).toMatchObject({
+      enabled: false,
+      consecutiveFailures: 2,
+    });
+    expect(subscription?.disabledReason).toContain('HTTP 500');
+
+    await delivery.dispatch('autopilot.sla.alert', { n: 3 });
+    expect(endpoint.received).toHaveLength(2);
+  });
+
+  it('logs instead of rejecting when recording an attempt fails', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    const { id } = await webhookService.create({ url: endpoint.url });
+    const append = jest
+      .spyOn(repository, 'appendAttempt')
+      .mockRejectedValue(new Error('EIO: i/o error'));
+
+    await delivery.dispatch('autopilot.sla.alert', {});
+    await waitFor(
+      () => Promise.resolve(append.mock.calls.length),
+      (calls) => calls === 1,
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+    process.off('unhandledRejection', unhandled);
+
+    expect(unhandled).not.toHaveBeenCalled();
+    expect((await webhookService.findOne(id))?.enabled).toBe(true);
+  });
+});
@@ -0,0 +1,226 @@
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock, TimerHandle } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import { WebhookService } from './webhook.service';
+import { WebhookEvent } from '../interfaces/webhook.interface';
+
+export const WEBHOOK_HEADERS = {
+  EVENT: 'x-autopilot-event',
+  DELIVERY: 'x-autopilot-delivery',
+  TIMESTAMP: 'x-autopilot-timestamp',
+  SIGNATURE: 'x-autopilot-signature',
+} as const;
+
+/**
+ * POSTs autopilot events to matching subscriptions, signed with each
+ * subscription's secret. Failed attempts are retried with exponential
+ * backoff; pending retries live in memory and are dropped on shutdown.
+ */
+@Injectable()
+export class WebhookDeliveryService implements OnApplicationShutdown {
+  private readonly logger = new LoggerService(WebhookDeliveryService.name);
+  private readonly retries = new Map<string, TimerHandle>();
+  private readonly maxAttempts: number;
+  private readonly initialBackoff: number;
+  private readonly timeout: number;
+
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly configService: ConfigService,
+    private readonly clock: Clock,
+  ) {
+    this.maxAttempts = this.configService.get<number>(
+      'webhooks.maxAttempts',
+      CONFIG.WEBHOOK.DEFAULT_MAX_ATTEMPTS,
+    );
+    this.initialBackoff = this.configService.get<number>(
+      'webhooks.initialBackoff',
+      CONFIG.WEBHOOK.DEFAULT_INITIAL_BACKOFF,
+    );
+    this.timeout = this.configService.get<number>(
+      'webhooks.timeout',
+      CONFIG.WEBHOOK.DEFAULT_TIMEOUT,
+    );
+  }
+
+  /** `sha256=` followed by the hex HMAC of `<timestamp>.<body>`. */
+  static sign(secret: string, timestamp: string, body: string): string {
+    const digest = createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Starts delivering an event to every enabled subscription that wants its
+   * type. Resolves once deliveries are under way, without waiting for them.
+   */
+  async dispatch(type: string, payload: unknown): Promise<void> {
+    try {
+      const subscriptions = (await this.webhookService.findAll()).filter(
+        (subscription) =>
+          subscription.enabled &&
+          (subscription.eventTypes.length === 0 ||
+            subscription.eventTypes.includes(type)),
+      );
+      if (!subscriptions.length) {
+        return;
+      }
+
+      const event: WebhookEvent = {
+        id: uuidv4(),
+        type,
+        occurredAt: this.clock.toISOString(),
+        payload,
+      };
+      for (const subscription of subscriptions) {
+        void this.deliver(subscription.id, event, 1);
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error('Failed to dispatch webhook event', {
+        error: err.stack || err.message,
+        type,
+      });
+    }
+  }
+
+  onApplicationShutdown(): void {
+    for (const timer of this.retries.values()) {
+      this.clock.clearTimeout(timer);
+    }
+    if (this.retries.size) {
+      this.logger.warn('Dropped pending webhook retries on shutdown', {
+        count: this.retries.size,
+      });
+    }
+    this.retries.clear();
+  }
+
+  /** Runs detached, so nothing it does may reject. */
+  private async deliver(
+    subscriptionId: string,
+    event: WebhookEvent,
+    attempt: number,
+  ): Promise<void> {
+    try {
+      await this.attemptDelivery(subscriptionId, event, attempt);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error('Failed to deliver webhook event', {
+        error: err.stack || err.message,
+        subscriptionId,
+        eventId: event.id,
+        attempt,
+      });
+    }
+  }
+
+  private async attemptDelivery(
+    subscriptionId: string,
+    event: WebhookEvent,
+    attempt: number,
+  ): Promise<void> {
+    // Re-read so edits, removals and disabling apply to pending retries
+    const subscription = await this.webhookService.findOne(subscriptionId);
+    if (!subscription?.enabled) {
+      return;
+    }
+
+    const body = JSON.stringify(event);
+    const timestamp = this.clock.toISOString();
+    const startedAt = this.clock.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'content-type': 'application/json',
+          [WEBHOOK_HEADERS.EVENT]: event.type,
+          [WEBHOOK_HEADERS.DELIVERY]: event.id,
+          [WEBHOOK_HEADERS.TIMESTAMP]: timestamp,
+          [WEBHOOK_HEADERS.SIGNATURE]: WebhookDeliveryService.sign(
+            subscription.secret,
+            timestamp,
+            body,
+          ),
+        },
+        timeout: this.timeout,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with HTTP ${statusCode}`;
+      }
+    } catch (err) {
+      error = (err as Error).message;
+    }
+
+    const retryIn =
+      error && attempt < this.maxAttempts ? this.backoff(attempt) : undefined;
+    await this.webhookService.recordAttempt({
+      id: uuidv4(),
+      subscriptionId,
+      eventId: event.id,
+      eventType: event.type,
+      attempt,
+      attemptedAt: timestamp,
+      succeeded: !error,
+      statusCode,
+      error,
+      durationMs: this.clock.now() - startedAt,
+      nextRetryAt: retryIn
+        ? new Date(this.clock.now() + retryIn).toISOString()
+        : undefined,
+    });
+
+    if (!error) {
+      await this.webhookService.recordDeliveryOutcome(subscriptionId, true);
+      return;
+    }
+
+    if (retryIn) {
+      this.logger.warn('Webhook delivery failed, retrying', {
+        subscriptionId,
+        eventId: event.id,
+        attempt,
+        retryIn,
+        error,
+      });
+      const key = `${subscriptionId}:${event.id}`;
+      this.retries.set(
+        key,
+        this.clock.setTimeout(() => {
+          this.retries.delete(key);
+          void this.deliver(subscriptionId, event, attempt + 1);
+        }, retryIn),
+      );
+      return;
+    }
+
+    this.logger.error('Webhook delivery failed for good', {
+      subscriptionId,
+      eventId: event.id,
+      attempts: attempt,
+      error,
+    });
+    await this.webhookService.recordDeliveryOutcome(
+      subscriptionId,
+      false,
+      error,
+    );
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(
+      this.initialBackoff * 2 ** (attempt - 1),
+      CONFIG.WEBHOOK.MAX_BACKOFF,
+    );
+  }
+}
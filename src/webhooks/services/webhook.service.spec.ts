@@ -0,0 +1,41 @@
+import { WebhookService } from './webhook.service';
+import { InMemoryWebhookRepository } from '../repositories/in-memory-webhook.repository';
+import { createClock, createConfig } from '../../testing/fixtures';
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+
+  beforeEach(() => {
+    service = new WebhookService(
+      new InMemoryWebhookRepository(100),
+      createConfig({ 'webhooks.disableAfter': 3 }),
+      createClock(),
+    );
+  });
+
+  it('counts every failure recorded concurrently', async () => {
+    const { id } = await service.create({ url: 'http://127.0.0.1/hook' });
+
+    await Promise.all([
+      service.recordDeliveryOutcome(id, false, 'HTTP 500'),
+      service.recordDeliveryOutcome(id, false, 'HTTP 500'),
+      service.update(id, { description: 'Phase events' }),
+      service.recordDeliveryOutcome(id, false, 'HTTP 500'),
+    ]);
+
+    expect(await service.findOne(id)).toMatchObject({
+      description: 'Phase events',
+      consecutiveFailures: 3,
+      enabled: false,
+    });
+  });
+
+  it('resets the failure count on success', async () => {
+    const { id } = await service.create({ url: 'http://127.0.0.1/hook' });
+
+    await service.recordDeliveryOutcome(id, false, 'HTTP 500');
+    await service.recordDeliveryOutcome(id, true);
+
+    expect((await service.findOne(id))?.consecutiveFailures).toBe(0);
+  });
+});
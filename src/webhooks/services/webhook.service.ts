@@ -0,0 +1,179 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { LoggerService } from '../../common/services/logger.service';
+import { Clock } from '../../common/services/clock.service';
+import { CONFIG } from '../../common/constants/config.constants';
+import {
+  WebhookDeliveryAttempt,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  WebhookSubscriptionUpdate,
+  WebhookSubscriptionView,
+} from '../interfaces/webhook.interface';
+import {
+  WEBHOOK_REPOSITORY,
+  WebhookRepository,
+} from '../repositories/webhook.repository';
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new LoggerService(WebhookService.name);
+  private readonly disableAfter: number;
+  // Subscription read-modify-writes run one at a time so none is lost
+  private pendingChange: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @Inject(WEBHOOK_REPOSITORY)
+    private readonly webhookRepository: WebhookRepository,
+    private readonly configService: ConfigService,
+    private readonly clock: Clock,
+  ) {
+    this.disableAfter = this.configService.get<number>(
+      'webhooks.disableAfter',
+      CONFIG.WEBHOOK.DEFAULT_DISABLE_AFTER,
+    );
+  }
+
+  static toView(subscription: WebhookSubscription): WebhookSubscriptionView {
+    const view: Partial<WebhookSubscription> = { ...subscription };
+    delete view.secret;
+    return view as WebhookSubscriptionView;
+  }
+
+  /** Generates a secret when none is given; it is only returned here. */
+  async create(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const now = this.clock.toISOString();
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      url: input.url,
+      eventTypes: input.eventTypes ?? [],
+      secret: input.secret ?? randomBytes(32).toString('hex'),
+      description: input.description,
+      enabled: true,
+      consecutiveFailures: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.webhookRepository.saveSubscription(subscription);
+    this.logger.info('Webhook subscription created', {
+      id: subscription.id,
+      url: subscription.url,
+      eventTypes: subscription.eventTypes,
+    });
+    return subscription;
+  }
+
+  findAll(): Promise<WebhookSubscription[]> {
+    return this.webhookRepository.findSubscriptions();
+  }
+
+  async findOne(id: string): Promise<WebhookSubscription | undefined> {
+    return (await this.findAll()).find(
+      (subscription) => subscription.id === id,
+    );
+  }
+
+  update(
+    id: string,
+    update: WebhookSubscriptionUpdate,
+  ): Promise<WebhookSubscription | undefined> {
+    return this.serialize(async () => {
+      const existing = await this.findOne(id);
+      if (!existing) {
+        return undefined;
+      }
+
+      const subscription: WebhookSubscription = {
+        ...existing,
+        url: update.url ?? existing.url,
+        eventTypes: update.eventTypes ?? existing.eventTypes,
+        secret: update.secret ?? existing.secret,
+        description: update.description ?? existing.description,
+        updatedAt: this.clock.toISOString(),
+      };
+      if (update.enabled === true && !existing.enabled) {
+        subscription.enabled = true;
+        subscription.consecutiveFailures = 0;
+        subscription.disabledAt = undefined;
+        subscription.disabledReason = undefined;
+      } else if (update.enabled === false && existing.enabled) {
+        subscription.enabled = false;
+        subscription.disabledAt = subscription.updatedAt;
+        subscription.disabledReason = 'Disabled by request';
+      }
+
+      await this.webhookRepository.saveSubscription(subscription);
+      return subscription;
+    });
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.serialize(async () => {
+      if (!(await this.findOne(id))) {
+        return false;
+      }
+      await this.webhookRepository.removeSubscription(id);
+      this.logger.info('Webhook subscription removed', { id });
+      return true;
+    });
+  }
+
+  /** Newest attempts first, or undefined for an unknown subscription. */
+  async getAttempts(id: string): Promise<WebhookDeliveryAttempt[] | undefined> {
+    if (!(await this.findOne(id))) {
+      return undefined;
+    }
+    return (await this.webhookRepository.findAttempts(id)).reverse();
+  }
+
+  recordAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    return this.webhookRepository.appendAttempt(attempt);
+  }
+
+  /**
+   * Tracks deliveries that failed for good, disabling the subscription once
+   * `disableAfter` fail in a row. A success resets the count.
+   */
+  recordDeliveryOutcome(
+    id: string,
+    succeeded: boolean,
+    error?: string,
+  ): Promise<void> {
+    return this.serialize(async () => {
+      const subscription = await this.findOne(id);
+      if (!subscription) {
+        return;
+      }
+      if (succeeded && subscription.consecutiveFailures === 0) {
+        return;
+      }
+
+      subscription.consecutiveFailures = succeeded
+        ? 0
+        : subscription.consecutiveFailures + 1;
+      subscription.updatedAt = this.clock.toISOString();
+      if (
+        subscription.enabled &&
+        subscription.consecutiveFailures >= this.disableAfter
+      ) {
+        subscription.enabled = false;
+        subscription.disabledAt = subscription.updatedAt;
+        subscription.disabledReason = `${subscription.consecutiveFailures} deliveries failed in a row, last with: ${error}`;
+        this.logger.warn('Disabled failing webhook subscription', {
+          id,
+          url: subscription.url,
+          consecutiveFailures: subscription.consecutiveFailures,
+        });
+      }
+      await this.webhookRepository.saveSubscription(subscription);
+    });
+  }
+
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.pendingChange.then(change, change);
+    this.pendingChange = result.catch(() => undefined);
+    return result;
+  }
+}
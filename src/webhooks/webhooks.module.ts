@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebhookController } from './controllers/webhook.controller';
+import { WebhookService } from './services/webhook.service';
+import { WebhookDeliveryService } from './services/webhook-delivery.service';
+import { WEBHOOK_REPOSITORY } from './repositories/webhook.repository';
+import { InMemoryWebhookRepository } from './repositories/in-memory-webhook.repository';
+import { FileWebhookRepository } from './repositories/file-webhook.repository';
+import { CONFIG } from '../common/constants/config.constants';
+
+@Module({
+  controllers: [WebhookController],
+  providers: [
+    WebhookService,
+    WebhookDeliveryService,
+    {
+      provide: WEBHOOK_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('autopilot.scheduler.store') === 'memory'
+          ? new InMemoryWebhookRepository(CONFIG.WEBHOOK.MAX_STORED_ATTEMPTS)
+          : new FileWebhookRepository(
+              configService.get<string>(
+                'webhooks.filePath',
+                'data/webhooks.json',
+              ),
+              CONFIG.WEBHOOK.MAX_STORED_ATTEMPTS,
+            ),
+    },
+  ],
+  exports: [WebhookDeliveryService],
+})
+export class WebhooksModule {}
@@ -11,6 +11,10 @@ export KAFKA_MAX_RETRY_TIME=30000
 export KAFKA_INITIAL_RETRY_TIME=300
 export KAFKA_RETRIES=5
 export SCHEMA_REGISTRY_URL=http://localhost:8081
+export JWT_SECRET=local-development-secret
+export JWT_EXPIRES_IN=1h
+# Local operator account: operator / operator
+export AUTH_OPERATORS=operator:6c6f63616c2d6465762d73616c74:4aac70aca6308fb6e429ce41c461b38cc8c835c045c25c25c78fe292296e5de560778d6e0b4e966262e952d09ab216f3a50643548086898afc982d7380e3b004
 
 # Start the application
 npm run start:dev 
\ No newline at end of file